@@ -0,0 +1,73 @@
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import SharedAnalysisView from '@/components/analysis/SharedAnalysisView';
+import { getSharedAnalysis, getSharedPreviewUrl } from '@/utils/shared-analysis';
+
+/**
+ * Shareable page of a single analysis, with link-preview metadata
+ */
+
+export const dynamic = 'force-dynamic';
+
+interface AnalysisPageProps {
+  params: { sessionId: string };
+}
+
+const getRequestOrigin = (): string => {
+  const requestHeaders = headers();
+  const host = requestHeaders.get('x-forwarded-host') || requestHeaders.get('host') || 'localhost:3000';
+  const protocol = requestHeaders.get('x-forwarded-proto') || (host.startsWith('localhost') ? 'http' : 'https');
+  return `${protocol}://${host}`;
+};
+
+export async function generateMetadata({ params }: AnalysisPageProps): Promise<Metadata> {
+  const origin = getRequestOrigin();
+  const lookup = await getSharedAnalysis(params.sessionId, origin);
+
+  if (lookup.status !== 'found') {
+    // Never describe analyses the backend does not show to everyone
+    return {
+      title: 'Shared Analysis | GeoAnalytics Platform',
+      robots: { index: false },
+    };
+  }
+
+  const { metadata } = lookup;
+  const title = `${metadata.location_name} NDVI Analysis (${metadata.start_year}-${metadata.end_year})`;
+  const description = metadata.query;
+  const image = getSharedPreviewUrl(metadata.session_id, origin);
+  const url = `${origin}/analysis/${encodeURIComponent(metadata.session_id)}`;
+
+  return {
+    title: `${title} | GeoAnalytics Platform`,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      title,
+      description,
+      url,
+      type: 'article',
+      publishedTime: metadata.created_at,
+      images: [{ url: image, alt: `NDVI preview of ${metadata.location_name}` }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function AnalysisPage({ params }: AnalysisPageProps) {
+  // Looked up again: generateMetadata runs separately, and metadata is small
+  const lookup = await getSharedAnalysis(params.sessionId, getRequestOrigin());
+
+  return (
+    <SharedAnalysisView
+      sessionId={params.sessionId}
+      initialMetadata={lookup.status === 'found' ? lookup.metadata : undefined}
+      initialStatus={lookup.status === 'found' ? 'found' : lookup.status}
+    />
+  );
+}
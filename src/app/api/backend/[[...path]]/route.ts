@@ -0,0 +1,25 @@
+import { CREDENTIAL_PROXY_ENABLED, errorResponse, proxyBackendRequest } from '@/utils/credential-proxy';
+
+/**
+ * Analysis backend behind the credential proxy, served only when NEXT_PUBLIC_CREDENTIAL_PROXY=true
+ */
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { path?: string[] };
+}
+
+const handle = async (request: Request, { params }: RouteContext): Promise<Response> => {
+  if (!CREDENTIAL_PROXY_ENABLED) {
+    return errorResponse('Not Found', 404);
+  }
+
+  return proxyBackendRequest(request, params.path || []);
+};
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
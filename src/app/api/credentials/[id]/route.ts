@@ -0,0 +1,26 @@
+import {
+  CREDENTIAL_PROXY_ENABLED,
+  errorResponse,
+  isAdminRequest,
+  removeServerCredential
+} from '@/utils/credential-proxy';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function DELETE(request: Request, { params }: RouteContext): Promise<Response> {
+  if (!CREDENTIAL_PROXY_ENABLED) {
+    return errorResponse('Not Found', 404);
+  }
+  if (!isAdminRequest(request)) {
+    return errorResponse('Removing credentials requires the admin token', 403);
+  }
+
+  if (!(await removeServerCredential(params.id))) {
+    return errorResponse(`Unknown credential ${params.id}`, 404);
+  }
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,68 @@
+import {
+  CREDENTIAL_PROXY_ENABLED,
+  CredentialProxyError,
+  authenticateCaller,
+  canUseCredential,
+  errorResponse,
+  isAdminRequest,
+  listServerCredentials,
+  registerServerCredential
+} from '@/utils/credential-proxy';
+
+/**
+ * Service accounts held by the credential proxy
+ * GET lists, without their keys, those the signed-in caller may use (all of
+ * them for the admin token); POST registers one (admin token required)
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request): Promise<Response> {
+  if (!CREDENTIAL_PROXY_ENABLED) {
+    return errorResponse('Not Found', 404);
+  }
+
+  const credentials = await listServerCredentials();
+  if (isAdminRequest(request)) {
+    return Response.json(credentials);
+  }
+
+  const caller = await authenticateCaller(request);
+  if (!caller) {
+    return errorResponse('Sign in to see the service accounts available to you', 401);
+  }
+  return Response.json(credentials.filter(credential => canUseCredential(credential, caller)));
+}
+
+export async function POST(request: Request): Promise<Response> {
+  if (!CREDENTIAL_PROXY_ENABLED) {
+    return errorResponse('Not Found', 404);
+  }
+  if (!isAdminRequest(request)) {
+    return errorResponse('Registering credentials requires the admin token', 403);
+  }
+
+  let body: { label?: unknown; key?: unknown; owner_id?: unknown; organization?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Expected a JSON body with the service-account key', 400);
+  }
+
+  try {
+    const credential = await registerServerCredential(
+      JSON.stringify(body.key),
+      {
+        owner_id: typeof body.owner_id === 'string' ? body.owner_id : undefined,
+        organization: typeof body.organization === 'string' ? body.organization : undefined,
+      },
+      typeof body.label === 'string' ? body.label : undefined
+    );
+    return Response.json(credential, { status: 201 });
+  } catch (error) {
+    if (error instanceof CredentialProxyError) {
+      return errorResponse(error.message, error.status);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertCircle } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import Button from '@/components/ui/Button';
+import { completeOidcSignIn, formatApiError } from '@/utils/api';
+import { migrateAnonymousAnalyses } from '@/hooks/useAuth';
+
+/**
+ * Landing page of the OIDC flow
+ * The backend redirects here with the tokens in the URL fragment, which
+ * never reaches a server log. Nothing is stored or claimed unless the
+ * fragment's `state` is the one this tab sent.
+ */
+export default function AuthCallbackPage() {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+    const accessToken = params.get('access_token');
+    const expiresIn = Number(params.get('expires_in'));
+
+    // Drop the tokens from the address bar and history straight away
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (!accessToken) {
+      setError(params.get('error_description') || params.get('error') || 'The sign-in provider returned no token.');
+      return;
+    }
+
+    completeOidcSignIn({
+      access_token: accessToken,
+      refresh_token: params.get('refresh_token') || undefined,
+      expires_in: expiresIn > 0 ? expiresIn : undefined,
+    }, params.get('state'))
+      .then(() => migrateAnonymousAnalyses())
+      .then(() => router.replace('/?tab=my-analyses'))
+      .catch(err => setError(formatApiError(err)));
+  }, [router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-orange-50 p-6">
+      {error ? (
+        <div className="max-w-md text-center space-y-4">
+          <AlertCircle className="w-10 h-10 text-red-600 mx-auto" />
+          <h1 className="text-xl font-semibold text-slate-900">Sign-in failed</h1>
+          <p className="text-sm text-slate-600">{error}</p>
+          <Button onClick={() => router.replace('/')}>Back to LLEO</Button>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center space-y-3 text-slate-600">
+          <LoadingSpinner />
+          <p className="text-sm">Signing you in...</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { MOCK_API_ENABLED, MOCK_API_PATH, handleMockRequest } from '@/utils/mock-backend';
+
+/**
+ * Mock analysis backend, served only when NEXT_PUBLIC_MOCK_API=true
+ */
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { path?: string[] };
+}
+
+const handle = async (request: Request, { params }: RouteContext): Promise<Response> => {
+  if (!MOCK_API_ENABLED) {
+    return new Response(JSON.stringify({ detail: 'Not Found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const baseUrl = `${new URL(request.url).origin}${MOCK_API_PATH}`;
+  return handleMockRequest(request, params.path || [], baseUrl);
+};
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useRef, useEffect, Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useState, useRef, useEffect, useMemo, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import dynamic from 'next/dynamic';
 import {
   Satellite,
   Globe,
@@ -47,64 +48,153 @@ import AnalysisModal from '@/components/modal/AnalysisModal';
 import ModernAnalysisForm from '@/components/analysis/ModernAnalysisForm';
 import ChatInterface from '@/components/chat/ChatInterface';
 import ExamplePrompts from '@/components/chat/ExamplePrompts';
+import RunningJobsPanel from '@/components/jobs/RunningJobsPanel';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import {
   checkApiHealth,
-  getUserGallery,
-  submitAnalysis,
   getUserId,
   downloadAnalysisZip,
-  openAnalysisMap,
   getAnalysisPreviewUrl,
   getAnalysisChartUrl,
   fixThumbnailUrl,
   keepGCPWarm,
-  formatApiError
+  getApiErrorNotice,
+  getAnalysisMetadata,
+  getAnalysisShareUrl,
+  getFavorites,
+  updateAnalysisMetadata,
+  updateAnalysisVisibility
 } from '@/utils/api';
+import { AbortedError } from '@/utils/api-errors';
+import { authStore } from '@/utils/auth-store';
 import {
   AnalysisCard,
+  AnalysisMode,
+  AnalysisQuery,
   AnalysisStatus,
+  AnalysisVisibility,
+  CommunityCategory,
+  GallerySort,
+  GeometryAreaOfInterest,
+  MetadataUpdate,
   SessionAnalysis,
-  GalleryItem,
-  galleryItemToAnalysisCard,
+  TimeSeriesInterval,
+  TrackedJob,
+  VisibilityUpdate,
+  analysisMetadataToAnalysisCard,
+  communityItemToAnalysisCard,
+  isListedVisibility,
   sessionAnalysisToAnalysisCard
 } from '@/types/analysis';
-import { sampleAnalyses } from '@/utils/sample-data';
 import useToast from '@/hooks/useToast';
+import useAnalysisJobs from '@/hooks/useAnalysisJobs';
+import useCommunityFeed from '@/hooks/useCommunityFeed';
+import useUserGallery from '@/hooks/useUserGallery';
+import { toggleAnalysisLike, trackAnalysisShare } from '@/hooks/useEngagement';
+import { createGeometryArea } from '@/utils/geometry';
+import { AnalysisCredentials } from '@/types/credentials';
+import { AnalysisModalView } from '@/types/ui';
+
+// Leaflet needs the browser, so the map is loaded on the client only
+const InteractiveMap = dynamic(
+  () => import('@/components/map/InteractiveMap'),
+  {
+    ssr: false,
+    loading: () => <div className="h-[450px] bg-gray-100 rounded-lg flex items-center justify-center">Loading map...</div>
+  }
+);
+
+const VISIBILITY_MESSAGES: Record<AnalysisVisibility, string> = {
+  private: 'Only you can open this analysis now',
+  unlisted: 'Anyone with the link can open this analysis; it is not listed',
+  organization: 'Your analysis is listed for your organization',
+  public: 'Your analysis is now listed in the community gallery'
+};
+
+const COMMUNITY_CATEGORIES: { value: CommunityCategory; label: string }[] = [
+  { value: 'recently_published', label: 'Recently Published' },
+  { value: 'community_research', label: 'Community Research' },
+  { value: 'enterprise_repository', label: 'Enterprise Repository' },
+];
 
 // Component that uses searchParams - needs to be wrapped in Suspense
 function HomePageContent() {
   // State management
-  const [activeTab, setActiveTab] = useState<'create' | 'my-analyses' | 'community' | 'pricing'>('create');
+  const [activeTab, setActiveTab] = useState<'create' | 'my-analyses' | 'favorites' | 'community' | 'pricing'>('create');
   const [userId, setUserId] = useState<string>('');
 
   // Gallery state
-  const [userAnalyses, setUserAnalyses] = useState<AnalysisCard[]>([]);
-  const [communityAnalyses, setCommunityAnalyses] = useState<AnalysisCard[]>(sampleAnalyses);
-  const [loadingGallery, setLoadingGallery] = useState(false);
+  const [galleryQuery, setGalleryQuery] = useState('');
+  const [gallerySort, setGallerySort] = useState<GallerySort>('newest');
+  const [favoriteAnalyses, setFavoriteAnalyses] = useState<AnalysisCard[]>([]);
+  const [loadingFavorites, setLoadingFavorites] = useState(false);
+  const [communityQuery, setCommunityQuery] = useState('');
+  const [communityCategory, setCommunityCategory] = useState<CommunityCategory | undefined>();
+  const [communitySort, setCommunitySort] = useState<GallerySort>('newest');
   const [selectedAnalysis, setSelectedAnalysis] = useState<AnalysisCard | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [modalView, setModalView] = useState<AnalysisModalView>('overview');
   const [apiHealth, setApiHealth] = useState<any>(null);
 
   // Chat interface state
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisStatus, setAnalysisStatus] = useState<AnalysisStatus>({ status: 'idle' });
   const [currentInput, setCurrentInput] = useState<string>('');
+  const [selectedAreas, setSelectedAreas] = useState<GeometryAreaOfInterest[]>([]);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('change');
+  const [timeSeriesInterval, setTimeSeriesInterval] = useState<TimeSeriesInterval>('annual');
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  const isAnalyzing = analysisStatus.status === 'processing';
+  const lastCredentialsRef = useRef<AnalysisCredentials | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
 
   // Hooks
   const { toasts, showToast, hideToast } = useToast();
+  const { jobs, submitJob, cancelJob, removeJob, clearFinishedJobs } = useAnalysisJobs({
+    userId,
+    onJobComplete: (sessionData) => handleAnalysisComplete(sessionData),
+    onJobError: (error) => {
+      showToast(getApiErrorNotice(error, 'Analysis Failed'));
+    }
+  });
+  const communityFeed = useCommunityFeed({
+    enabled: activeTab === 'community' && Boolean(userId),
+    query: communityQuery,
+    category: communityCategory,
+    sort: communitySort,
+    userId
+  });
+  const userGallery = useUserGallery({
+    enabled: activeTab === 'my-analyses' && Boolean(userId),
+    userId,
+    query: galleryQuery,
+    sort: gallerySort
+  });
   const searchParams = useSearchParams();
+  const router = useRouter();
 
   // Initialize user ID and handle URL tab parameter
   useEffect(() => {
     setUserId(getUserId());
 
+    // Links shared before analyses had their own page
+    const sharedAnalysis = searchParams.get('analysis');
+    if (sharedAnalysis) {
+      router.replace(`/analysis/${encodeURIComponent(sharedAnalysis)}`);
+      return;
+    }
+
     // Check for tab parameter in URL
     const tabParam = searchParams.get('tab');
-    if (tabParam && ['my-analyses', 'community', 'pricing'].includes(tabParam)) {
-      setActiveTab(tabParam as 'my-analyses' | 'community' | 'pricing');
+    if (tabParam && ['my-analyses', 'favorites', 'community', 'pricing'].includes(tabParam)) {
+      setActiveTab(tabParam as 'my-analyses' | 'favorites' | 'community' | 'pricing');
     }
-  }, [searchParams]);
+  }, [searchParams, router]);
+
+  // Signing in or out switches between the account and the anonymous id
+  useEffect(() => {
+    return authStore.subscribe(() => setUserId(getUserId()));
+  }, []);
 
   // Check API health on component mount
   useEffect(() => {
@@ -152,40 +242,36 @@ function HomePageContent() {
     return () => clearInterval(interval);
   }, [apiHealth]);
 
-  // Load user's analyses when switching to "My Analyses" tab
+  // Load favorites when switching to the "My Favorites" tab
   useEffect(() => {
-    if (activeTab === 'my-analyses' && userId) {
-      loadUserAnalyses();
+    if (activeTab === 'favorites' && userId) {
+      loadFavorites();
     }
   }, [activeTab, userId]);
 
-  const loadUserAnalyses = async () => {
+  // A later page failed; the loaded analyses stay and "Load more" retries
+  useEffect(() => {
+    if (userGallery.error && userGallery.analyses.length > 0) {
+      showToast(getApiErrorNotice(userGallery.error, 'Failed to Load Analyses'));
+    }
+  }, [userGallery.error]);
+
+  const loadFavorites = async () => {
     if (!userId) return;
-    
-    setLoadingGallery(true);
+
+    setLoadingFavorites(true);
     try {
-      const galleryItems: GalleryItem[] = await getUserGallery(userId);
-      const analysisCards = galleryItems.map(item => {
-        const card = galleryItemToAnalysisCard(item, userId);
-        // Fix thumbnail URL to use backend API
-        if (card.session_id) {
-          card.thumbnail_url = fixThumbnailUrl(card.session_id);
-        }
-        return card;
-      });
-      setUserAnalyses(analysisCards);
+      const favorites = await getFavorites(userId);
+      setFavoriteAnalyses(favorites.map(item => ({
+        ...communityItemToAnalysisCard(item),
+        thumbnail_url: fixThumbnailUrl(item.session_id)
+      })));
     } catch (error) {
-      console.error('Failed to load user analyses:', error);
-      const errorMessage = formatApiError(error);
-      showToast({
-        type: 'error',
-        title: 'Failed to Load Analyses',
-        message: errorMessage,
-        duration: 8000
-      });
-      setUserAnalyses([]);
+      console.error('Failed to load favorites:', error);
+      showToast(getApiErrorNotice(error, 'Failed to Load Favorites'));
+      setFavoriteAnalyses([]);
     } finally {
-      setLoadingGallery(false);
+      setLoadingFavorites(false);
     }
   };
 
@@ -198,23 +284,14 @@ function HomePageContent() {
       newAnalysisCard.thumbnail_url = fixThumbnailUrl(newAnalysisCard.session_id);
     }
     
-    // Add to user analyses list
-    setUserAnalyses(prev => [newAnalysisCard, ...prev]);
-    
-    // Add to community research (make it available for everyone)
-    const communityAnalysis = {
-      ...newAnalysisCard,
-      category: 'community_research' as const,
-      // Anonymize or keep author info as desired
-      author: newAnalysisCard.author || 'Anonymous Researcher'
-    };
-    setCommunityAnalyses(prev => [communityAnalysis, ...prev]);
+    // Add to user analyses list; it stays private until the owner publishes it
+    userGallery.addAnalysis(newAnalysisCard);
     
     // Show success with action buttons
     showToast({
       type: 'success',
       title: 'Analysis Complete! 🎉',
-      message: 'Your NDVI analysis is ready and shared with the community',
+      message: 'Your NDVI analysis is ready. Publish it from the analysis view to share it with the community.',
       duration: 8000
     });
 
@@ -223,47 +300,111 @@ function HomePageContent() {
     
     // Show the analysis in modal
     setSelectedAnalysis(newAnalysisCard);
+    setModalView('overview');
     setIsModalOpen(true);
   };
 
   // Gallery handlers
-  const handleAnalysisView = (analysis: AnalysisCard) => {
+  const handleAnalysisView = (analysis: AnalysisCard, view: AnalysisModalView = 'overview') => {
     setSelectedAnalysis(analysis);
+    setModalView(view);
     setIsModalOpen(true);
   };
 
-  const handleAnalysisLike = (analysisId: string) => {
-    // Update likes
-    setUserAnalyses(prev => prev.map(analysis => 
-      analysis.id === analysisId 
-        ? { ...analysis, likes: analysis.likes + 1 }
-        : analysis
-    ));
-    setCommunityAnalyses(prev => prev.map(analysis => 
-      analysis.id === analysisId 
-        ? { ...analysis, likes: analysis.likes + 1 }
-        : analysis
-    ));
-    
-    showToast({
-      type: 'info',
-      title: 'Liked!',
-      message: 'Analysis added to your favorites'
-    });
+  const handleAnalysisLike = async (analysis: AnalysisCard) => {
+    // Cards show the change at once and roll it back on failure
+    try {
+      const stats = await toggleAnalysisLike(analysis);
+      if (!stats) return;
+      showToast({
+        type: 'info',
+        title: stats.liked ? 'Liked!' : 'Like Removed',
+        message: stats.liked ? 'Analysis added to your favorites' : 'Analysis removed from your favorites'
+      });
+    } catch (error) {
+      showToast(getApiErrorNotice(error, 'Like Failed'));
+    }
   };
 
   const handleAnalysisShare = (analysis: AnalysisCard) => {
     // Copy analysis URL to clipboard
-    const shareUrl = `${window.location.origin}/?analysis=${analysis.session_id}`;
+    const shareUrl = getAnalysisShareUrl(analysis.session_id);
     navigator.clipboard.writeText(shareUrl);
+    trackAnalysisShare(analysis);
     
     showToast({
       type: 'success',
       title: 'Link Copied!',
-      message: 'Analysis link copied to clipboard'
+      message: analysis.visibility === 'private'
+        ? 'Analysis link copied. It is private, so only you can open it until you change its visibility.'
+        : 'Analysis link copied to clipboard'
     });
   };
 
+  const handleVisibilityChange = async (analysis: AnalysisCard, update: VisibilityUpdate) => {
+    try {
+      const state = await updateAnalysisVisibility(analysis.session_id, userId, update);
+
+      userGallery.updateAnalysis(analysis.id, {
+        visibility: state.visibility,
+        title: state.title || analysis.title,
+        description: state.description || analysis.description
+      });
+      if (isListedVisibility(state.visibility) || isListedVisibility(analysis.visibility)) {
+        communityFeed.refresh();
+      }
+
+      showToast({
+        type: 'success',
+        title: isListedVisibility(state.visibility) ? 'Published!' : 'Visibility Updated',
+        message: VISIBILITY_MESSAGES[state.visibility]
+      });
+    } catch (error) {
+      showToast(getApiErrorNotice(error, 'Visibility Not Changed'));
+      throw error;
+    }
+  };
+
+  const handleDetailsChange = async (analysis: AnalysisCard, update: MetadataUpdate) => {
+    try {
+      const metadata = await updateAnalysisMetadata(analysis.session_id, userId, update);
+
+      userGallery.updateAnalysis(analysis.id, {
+        title: metadata.title || analysis.title,
+        description: metadata.description || analysis.description,
+        tags: metadata.tags || analysis.tags
+      });
+      if (isListedVisibility(analysis.visibility)) {
+        communityFeed.refresh();
+      }
+
+      showToast({
+        type: 'success',
+        title: 'Details Saved',
+        message: 'Title, description and tags updated'
+      });
+    } catch (error) {
+      showToast(getApiErrorNotice(error, 'Details Not Saved'));
+      throw error;
+    }
+  };
+
+  // Tags used across the loaded galleries, most used first, for autocomplete
+  const tagSuggestions = useMemo(() => {
+    const counts: Record<string, number> = {};
+    [userGallery.analyses, favoriteAnalyses, communityFeed.analyses].forEach(list => {
+      list.forEach(analysis => {
+        analysis.tags.forEach(tag => {
+          counts[tag] = (counts[tag] || 0) + 1;
+        });
+      });
+    });
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+  }, [userGallery.analyses, favoriteAnalyses, communityFeed.analyses]);
+
+  const isOwnAnalysis = (analysis: AnalysisCard | null): boolean =>
+    !!analysis && !!userId && analysis.user_id === userId;
+
   const handleAnalysisDownload = async (analysis: AnalysisCard) => {
     try {
       showToast({
@@ -280,20 +421,34 @@ function HomePageContent() {
         message: 'Your analysis files have been downloaded'
       });
     } catch (error) {
-      showToast({
-        type: 'error',
-        title: 'Download Failed',
-        message: 'Could not download analysis files'
-      });
+      showToast(getApiErrorNotice(error, 'Download Failed'));
     }
   };
 
   // Chat interface handlers
-  const handleChatSubmit = async (query: string, credentialsFile?: File) => {
-    if (isAnalyzing || !credentialsFile) return;
+  const handleChatSubmit = (query: string, credentials?: AnalysisCredentials) => {
+    if (!credentials) return;
 
-    setIsAnalyzing(true);
-    setCurrentInput(query);
+    runAnalysis(
+      {
+        query,
+        areas: selectedAreas.length > 0 ? selectedAreas : undefined,
+        mode: analysisMode,
+        interval: analysisMode === 'timeseries' ? timeSeriesInterval : undefined,
+      },
+      credentials
+    );
+  };
+
+  const runAnalysis = async (request: AnalysisQuery, credentials: AnalysisCredentials) => {
+    if (isAnalyzing) return;
+
+    setAnalysisStatus({ status: 'processing', progress: 0, message: 'Submitting analysis request...' });
+    setCurrentInput(request.query);
+    lastCredentialsRef.current = credentials;
+
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
 
     try {
       showToast({
@@ -303,38 +458,111 @@ function HomePageContent() {
         duration: 5000
       });
 
-      const sessionData = await submitAnalysis(
-        { query, download_data: true },
-        credentialsFile,
+      const sessionData = await submitJob(
+        request,
+        credentials,
         userId,
-        (progress, message) => {
-          // Progress updates could be shown in toast or UI
-          console.log(`Progress: ${progress}% - ${message}`);
-        }
+        (progress, message, stage) => {
+          setAnalysisStatus({ status: 'processing', progress, message, stage });
+        },
+        controller.signal
       );
 
+      setAnalysisStatus({ status: 'completed', progress: 100, results: sessionData });
+
       // Convert to analysis card and trigger the same flow
       handleAnalysisComplete(sessionData);
 
     } catch (error) {
-      console.error('Chat analysis failed:', error);
+      // Stopped from the chat or the jobs panel; the job is already marked cancelled
+      if (error instanceof AbortedError) {
+        setAnalysisStatus({ status: 'idle' });
+        showToast({
+          type: 'info',
+          title: 'Analysis Cancelled',
+          message: 'The analysis was stopped and marked as cancelled in your jobs.',
+          duration: 5000
+        });
+        return;
+      }
 
-      // Use improved error formatting
-      const errorMessage = formatApiError(error);
-      const isTimeout = errorMessage.includes('timed out') || errorMessage.includes('GCP may be processing');
+      console.error('Chat analysis failed:', error);
 
-      showToast({
-        type: isTimeout ? 'warning' : 'error',
-        title: isTimeout ? 'Processing Takes Time' : 'Analysis Failed',
-        message: errorMessage,
-        duration: isTimeout ? 12000 : 8000
-      });
+      const notice = getApiErrorNotice(error, 'Analysis Failed');
+      setAnalysisStatus({ status: 'error', error: notice.message });
+      showToast(notice);
     } finally {
-      setIsAnalyzing(false);
+      analysisControllerRef.current = null;
       setCurrentInput('');
     }
   };
 
+  const handleStopAnalysis = () => {
+    analysisControllerRef.current?.abort();
+  };
+
+  // Running jobs panel handlers
+  const handleJobOpen = async (job: TrackedJob) => {
+    let analysisCard: AnalysisCard;
+    if (job.result) {
+      analysisCard = sessionAnalysisToAnalysisCard(job.result, job.query);
+    } else if (job.session_id) {
+      // Results are not kept across reloads; the backend still has the analysis
+      try {
+        analysisCard = analysisMetadataToAnalysisCard(await getAnalysisMetadata(job.session_id));
+      } catch (error) {
+        showToast(getApiErrorNotice(error, 'Failed to Open Analysis'));
+        return;
+      }
+    } else {
+      return;
+    }
+
+    analysisCard.thumbnail_url = fixThumbnailUrl(analysisCard.session_id);
+    setSelectedAnalysis(analysisCard);
+    setModalView('overview');
+    setIsModalOpen(true);
+  };
+
+  const handleJobRetry = (job: TrackedJob) => {
+    // Decrypted credentials only live in memory, so a retry after reload needs them picked again;
+    // so does the area of interest, which is not kept across reloads either
+    if (lastCredentialsRef.current && !isAnalyzing && !job.restored) {
+      removeJob(job.id);
+      runAnalysis(
+        {
+          query: job.query,
+          coordinates: job.coordinates,
+          geometry: job.geometry,
+          areas: job.areas,
+          mode: job.mode,
+          interval: job.interval,
+        },
+        lastCredentialsRef.current
+      );
+      return;
+    }
+
+    setCurrentInput(job.query);
+    setAnalysisMode(job.mode || 'change');
+    if (job.interval) {
+      setTimeSeriesInterval(job.interval);
+    }
+    if (job.areas) {
+      setSelectedAreas(job.areas);
+    } else {
+      setSelectedAreas(job.geometry ? [createGeometryArea(job.geometry, 'polygon')] : []);
+    }
+    showToast({
+      type: 'info',
+      title: 'Retry Analysis',
+      message: job.restored
+        ? 'Query restored. Select its area again if it had one, then choose your credentials and submit to retry.'
+        : 'Query restored. Choose your credentials and submit to retry.',
+      duration: 5000
+    });
+  };
+
   const handleExamplePromptClick = (prompt: string) => {
     setCurrentInput(prompt);
 
@@ -351,7 +579,7 @@ function HomePageContent() {
     showToast({
       type: 'info',
       title: 'Example Selected',
-      message: 'Example prompt added to input. Upload your credentials and submit!',
+      message: 'Example prompt added to input. Choose your credentials and submit!',
       duration: 3000
     });
   };
@@ -586,8 +814,41 @@ function HomePageContent() {
                   <ChatInterface
                     onSubmit={handleChatSubmit}
                     loading={isAnalyzing}
+                    progress={isAnalyzing ? analysisStatus.progress : undefined}
+                    progressMessage={isAnalyzing ? analysisStatus.message : undefined}
+                    onStopGeneration={handleStopAnalysis}
                     initialValue={currentInput}
                     onInputChange={setCurrentInput}
+                    selectedAreas={selectedAreas}
+                    onRemoveArea={(id) => setSelectedAreas(prev => prev.filter(area => area.id !== id))}
+                    isMapOpen={isMapOpen}
+                    onToggleMap={() => setIsMapOpen(prev => !prev)}
+                    analysisMode={analysisMode}
+                    interval={timeSeriesInterval}
+                    onAnalysisModeChange={(mode, interval) => {
+                      setAnalysisMode(mode);
+                      setTimeSeriesInterval(interval);
+                    }}
+                  />
+
+                  {isMapOpen && (
+                    <div className="mt-6 max-w-4xl mx-auto text-left">
+                      <InteractiveMap
+                        areas={selectedAreas}
+                        onAreasChange={setSelectedAreas}
+                        className="h-[450px]"
+                      />
+                    </div>
+                  )}
+
+                  <RunningJobsPanel
+                    jobs={jobs}
+                    onOpen={handleJobOpen}
+                    onCancel={cancelJob}
+                    onRetry={handleJobRetry}
+                    onRemove={removeJob}
+                    onClearFinished={clearFinishedJobs}
+                    className="mt-8 max-w-4xl mx-auto"
                   />
                 </div>
               </div>
@@ -637,29 +898,66 @@ function HomePageContent() {
       case 'my-analyses':
         return (
           <AnalysisGallery
-            analyses={userAnalyses}
+            analyses={userGallery.analyses}
             title="My Analyses"
             description="Your personal analysis history and research projects"
-            loading={loadingGallery}
+            loading={userGallery.loading}
             onAnalysisView={handleAnalysisView}
             onAnalysisLike={handleAnalysisLike}
             onAnalysisShare={handleAnalysisShare}
-            onRefresh={loadUserAnalyses}
-            emptyStateMessage="Create your first analysis to see results here. Click the logo to get started!"
+            onAnalysisVisibilityChange={handleVisibilityChange}
+            onRefresh={userGallery.refresh}
+            // Backends that only list analyses are searched and sorted here
+            onSearchChange={userGallery.serverSide ? setGalleryQuery : undefined}
+            onSortChange={userGallery.serverSide ? setGallerySort : undefined}
+            totalCount={userGallery.total}
+            hasMore={userGallery.hasMore}
+            loadingMore={userGallery.loadingMore}
+            onLoadMore={userGallery.loadMore}
+            emptyStateMessage={userGallery.error
+              ? 'Your analyses could not be loaded. Please try again in a moment.'
+              : 'Create your first analysis to see results here. Click the logo to get started!'}
           />
         );
         
+      case 'favorites':
+        return (
+          <AnalysisGallery
+            analyses={favoriteAnalyses}
+            title="My Favorites"
+            description="Analyses you liked, most recently liked first"
+            loading={loadingFavorites}
+            onAnalysisView={handleAnalysisView}
+            onAnalysisLike={handleAnalysisLike}
+            onAnalysisShare={handleAnalysisShare}
+            onRefresh={loadFavorites}
+            emptyStateMessage="Like analyses in the community gallery to collect them here."
+          />
+        );
+
       case 'community':
         return (
           <AnalysisGallery
-            analyses={communityAnalyses}
+            analyses={communityFeed.analyses}
             title="Community Research"
             description="Discover and explore analyses shared by researchers worldwide"
-            loading={false}
+            loading={communityFeed.loading}
             onAnalysisView={handleAnalysisView}
             onAnalysisLike={handleAnalysisLike}
             onAnalysisShare={handleAnalysisShare}
-            emptyStateMessage="No community analyses available at the moment."
+            onRefresh={communityFeed.refresh}
+            onSearchChange={setCommunityQuery}
+            onSortChange={setCommunitySort}
+            categories={COMMUNITY_CATEGORIES}
+            selectedCategory={communityCategory}
+            onCategoryChange={setCommunityCategory}
+            totalCount={communityFeed.total}
+            hasMore={communityFeed.hasMore}
+            loadingMore={communityFeed.loadingMore}
+            onLoadMore={communityFeed.loadMore}
+            emptyStateMessage={communityFeed.error
+              ? 'The community gallery could not be loaded. Please try again in a moment.'
+              : 'No analyses have been published yet. Publish one of yours to share it here.'}
           />
         );
         
@@ -691,10 +989,14 @@ function HomePageContent() {
       <AnalysisModal
         analysis={selectedAnalysis}
         isOpen={isModalOpen}
+        initialView={modalView}
         onClose={() => setIsModalOpen(false)}
         onLike={handleAnalysisLike}
         onShare={handleAnalysisShare}
         onDownload={handleAnalysisDownload}
+        onVisibilityChange={isOwnAnalysis(selectedAnalysis) ? handleVisibilityChange : undefined}
+        onDetailsChange={isOwnAnalysis(selectedAnalysis) ? handleDetailsChange : undefined}
+        tagSuggestions={tagSuggestions}
       />
 
       {/* Toast Container */}
@@ -15,8 +15,9 @@ import Button from '../ui/Button';
 import Card from '../ui/Card';
 import LoadingSpinner from '../ui/LoadingSpinner';
 // import InteractiveMap from '../map/InteractiveMap';
-import { AnalysisFormData, AreaOfInterest, AnalysisStatus } from '@/types/analysis';
+import { AnalysisFormData, GeometryAreaOfInterest, AnalysisStatus } from '@/types/analysis';
 import { submitAnalysis } from '@/utils/api';
+import { combineAreas } from '@/utils/geometry';
 
 import dynamic from 'next/dynamic';
 
@@ -61,7 +62,7 @@ const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalysisComplete }) => {
     query: '',
     download_data: true,
   });
-  const [selectedArea, setSelectedArea] = useState<AreaOfInterest | null>(null);
+  const [selectedAreas, setSelectedAreas] = useState<GeometryAreaOfInterest[]>([]);
   const [status, setStatus] = useState<AnalysisStatus>({ status: 'idle' });
   const [credentialsFile, setCredentialsFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -70,9 +71,15 @@ const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalysisComplete }) => {
     setFormData(prev => ({ ...prev, query: e.target.value }));
   };
 
-  const handleAreaSelect = (area: AreaOfInterest) => {
-    setSelectedArea(area);
-    setFormData(prev => ({ ...prev, coordinates: area.coordinates }));
+  const handleAreasChange = (areas: GeometryAreaOfInterest[]) => {
+    const combined = combineAreas(areas);
+    setSelectedAreas(areas);
+    setFormData(prev => ({
+      ...prev,
+      coordinates: combined?.coordinates,
+      geometry: combined?.geometry,
+      areas: areas.length > 0 ? areas : undefined,
+    }));
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -137,6 +144,8 @@ const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalysisComplete }) => {
       const submissionData = {
         query: enhancedQuery,
         coordinates: formData.coordinates,
+        geometry: formData.geometry,
+        areas: formData.areas,
         download_data: formData.download_data,
       };
 
@@ -215,11 +224,11 @@ const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalysisComplete }) => {
                 </div>
 
                 {/* Enhanced query preview */}
-                {selectedArea && selectedArea.coordinates.northeast_lat !== 0 && formData.query && (
+                {formData.coordinates && formData.query && (
                   <div className="p-3 bg-accent-50 rounded-lg border border-accent-200">
                     <p className="text-sm font-medium text-accent-800 mb-1">Enhanced Query (with coordinates):</p>
                     <p className="text-sm text-accent-700">
-                      "{enhanceQueryWithCoordinates(formData.query, selectedArea.coordinates)}"
+                      "{enhanceQueryWithCoordinates(formData.query, formData.coordinates)}"
                     </p>
                   </div>
                 )}
@@ -330,13 +339,13 @@ const AnalysisForm: React.FC<AnalysisFormProps> = ({ onAnalysisComplete }) => {
                   <h3 className="text-lg font-semibold text-primary-900">Select Area of Interest</h3>
                 </div>
                 <p className="text-sm text-primary-600">
-                  Draw a rectangle on the map to define your analysis area, or leave empty to use the location from your query.
+                  Draw rectangles, polygons or circles, or drop boundary files on the map to define one or more analysis areas. Leave empty to use the location from your query.
                 </p>
               </div>
               
               <InteractiveMap
-                onAreaSelect={handleAreaSelect}
-                selectedArea={selectedArea}
+                areas={selectedAreas}
+                onAreasChange={handleAreasChange}
                 className="h-[500px]"
               />
             </Card>
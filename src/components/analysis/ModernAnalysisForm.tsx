@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { 
   Upload, 
   Satellite, 
@@ -22,8 +22,10 @@ import {
 import Button from '../ui/Button';
 import Card from '../ui/Card';
 import LoadingSpinner from '../ui/LoadingSpinner';
+import CredentialsManager from '../credentials/CredentialsManager';
 import { AnalysisFormData, AreaOfInterest, AnalysisStatus, SessionAnalysis } from '@/types/analysis';
-import { submitAnalysis, validateCredentialsFile, getUserId, checkApiHealth } from '@/utils/api';
+import { SelectedCredentials } from '@/types/credentials';
+import { submitAnalysis, getUserId, checkApiHealth } from '@/utils/api';
 import useToast from '@/hooks/useToast';
 
 interface ModernAnalysisFormProps {
@@ -43,11 +45,9 @@ const ModernAnalysisForm: React.FC<ModernAnalysisFormProps> = ({ onAnalysisCompl
   }, []);
   const [selectedArea, setSelectedArea] = useState<AreaOfInterest | null>(null);
   const [status, setStatus] = useState<AnalysisStatus>({ status: 'idle' });
-  const [credentialsFile, setCredentialsFile] = useState<File | null>(null);
+  const [credentials, setCredentials] = useState<SelectedCredentials | null>(null);
   const [apiHealth, setApiHealth] = useState<any>(null);
   const [isCheckingApi, setIsCheckingApi] = useState(true);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  
   const { showToast } = useToast();
 
   // Check API health on mount
@@ -69,34 +69,6 @@ const ModernAnalysisForm: React.FC<ModernAnalysisFormProps> = ({ onAnalysisCompl
     setFormData(prev => ({ ...prev, query: e.target.value }));
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      // Validate credentials file
-      const validation = validateCredentialsFile(file);
-      if (!validation.valid) {
-        setStatus({
-          status: 'error',
-          error: validation.error
-        });
-        showToast({
-          type: 'error',
-          title: 'Invalid File',
-          message: validation.error || 'Please select a valid JSON file'
-        });
-        return;
-      }
-      
-      setCredentialsFile(file);
-      setStatus({ status: 'idle' });
-      showToast({
-        type: 'success',
-        title: 'File Ready',
-        message: `${file.name} loaded successfully`
-      });
-    }
-  };
-
   const enhanceQueryWithCoordinates = (originalQuery: string, coordinates?: any): string => {
     if (!coordinates || coordinates.northeast_lat === 0) {
       return originalQuery;
@@ -127,7 +99,7 @@ const ModernAnalysisForm: React.FC<ModernAnalysisFormProps> = ({ onAnalysisCompl
       return;
     }
 
-    if (!credentialsFile) {
+    if (!credentials) {
       setStatus({
         status: 'error',
         error: 'Please upload your Google Cloud credentials file'
@@ -176,7 +148,7 @@ const ModernAnalysisForm: React.FC<ModernAnalysisFormProps> = ({ onAnalysisCompl
       // Submit analysis with progress tracking
       const sessionData = await submitAnalysis(
         submissionData, 
-        credentialsFile, 
+        credentials.credentials,
         formData.user_id || getUserId(), // Fallback to getUserId() if not yet set
         (progress, message) => {
           setStatus({
@@ -206,10 +178,6 @@ const ModernAnalysisForm: React.FC<ModernAnalysisFormProps> = ({ onAnalysisCompl
 
       // Reset form
       setFormData(prev => ({ ...prev, query: '', coordinates: undefined }));
-      setCredentialsFile(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
 
     } catch (error) {
       setStatus({
@@ -226,7 +194,7 @@ const ModernAnalysisForm: React.FC<ModernAnalysisFormProps> = ({ onAnalysisCompl
   };
 
   const isProcessing = status.status === 'processing';
-  const canSubmit = formData.query.trim() && credentialsFile && !isProcessing && 
+  const canSubmit = formData.query.trim() && credentials && !isProcessing && 
                    apiHealth?.status === 'healthy';
 
   return (
@@ -307,46 +275,14 @@ const ModernAnalysisForm: React.FC<ModernAnalysisFormProps> = ({ onAnalysisCompl
                     <label className="block text-sm font-semibold text-slate-800">
                       Service Account JSON File *
                     </label>
-                    <div 
-                      className={`relative border-2 border-dashed rounded-xl p-8 text-center transition-all duration-300 cursor-pointer group ${
-                        credentialsFile 
-                          ? 'border-green-400 bg-green-50/80' 
-                          : 'border-slate-300 hover:border-blue-400 hover:bg-blue-50/30'
-                      }`}
-                      onClick={() => fileInputRef.current?.click()}
-                    >
-                      <input
-                        ref={fileInputRef}
-                        type="file"
-                        accept=".json"
-                        onChange={handleFileSelect}
-                        className="hidden"
-                        disabled={isProcessing}
-                      />
-                      
-                      {credentialsFile ? (
-                        <div className="space-y-3">
-                          <div className="inline-flex items-center justify-center w-12 h-12 bg-green-500 rounded-full shadow-lg">
-                            <CheckCircle className="w-6 h-6 text-white" />
-                          </div>
-                          <div>
-                            <p className="font-semibold text-green-800">{credentialsFile.name}</p>
-                            <p className="text-sm text-green-600">Ready for secure authentication</p>
-                            <p className="text-xs text-green-500 mt-1">File size: {Math.round(credentialsFile.size / 1024)} KB</p>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="space-y-3">
-                          <div className="inline-flex items-center justify-center w-12 h-12 bg-slate-200 rounded-full group-hover:bg-blue-200 transition-colors shadow-lg">
-                            <Upload className="w-6 h-6 text-slate-600 group-hover:text-blue-600" />
-                          </div>
-                          <div>
-                            <p className="font-semibold text-slate-800">Upload Credentials File</p>
-                            <p className="text-sm text-slate-600">Click to select your Google Cloud JSON file</p>
-                          </div>
-                        </div>
-                      )}
-                    </div>
+                    <CredentialsManager
+                      selected={credentials}
+                      onSelect={(selected) => {
+                        setCredentials(selected);
+                        if (selected) setStatus({ status: 'idle' });
+                      }}
+                      disabled={isProcessing}
+                    />
                   </div>
                 </div>
               </Card>
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Lock, SearchX, WifiOff, MapPin, Calendar, Eye } from 'lucide-react';
+import Header from '../layout/Header';
+import Footer from '../layout/Footer';
+import AnalysisModal from '../modal/AnalysisModal';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { AnalysisCard, AnalysisMetadata, analysisMetadataToAnalysisCard } from '@/types/analysis';
+import { getAnalysisMetadata, getAnalysisPreviewUrl } from '@/utils/api';
+import { AuthError, isApiError } from '@/utils/api-errors';
+import { authStore } from '@/utils/auth-store';
+import useResultFileUrl from '@/hooks/useResultFileUrl';
+
+export type SharedAnalysisStatus = 'loading' | 'found' | 'not_found' | 'private' | 'unavailable';
+
+interface SharedAnalysisViewProps {
+  sessionId: string;
+  // Result of the server-side lookup, made without the viewer's token
+  initialMetadata?: AnalysisMetadata;
+  initialStatus: SharedAnalysisStatus;
+}
+
+/**
+ * Page body of a shared analysis link
+ * Analyses the server could not show are loaded again with the viewer's
+ * session, so owners can open their private analyses.
+ */
+const SharedAnalysisView: React.FC<SharedAnalysisViewProps> = ({
+  sessionId,
+  initialMetadata,
+  initialStatus
+}) => {
+  const [analysis, setAnalysis] = useState<AnalysisCard | null>(
+    initialMetadata ? analysisMetadataToAnalysisCard(initialMetadata) : null
+  );
+  const [status, setStatus] = useState<SharedAnalysisStatus>(initialMetadata ? 'found' : 'loading');
+  const [isViewerOpen, setIsViewerOpen] = useState(true);
+  const [attempt, setAttempt] = useState(0);
+  const previewUrl = useResultFileUrl(
+    analysis ? getAnalysisPreviewUrl(analysis.session_id) : undefined,
+    analysis ? analysis.visibility : undefined
+  );
+
+  useEffect(() => {
+    if (initialMetadata) return;
+
+    const controller = new AbortController();
+    setStatus('loading');
+
+    getAnalysisMetadata(sessionId, controller.signal)
+      .then(metadata => {
+        setAnalysis(analysisMetadataToAnalysisCard(metadata));
+        setStatus('found');
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        if (error instanceof AuthError) {
+          setStatus('private');
+        } else if (isApiError(error) && error.status === 404) {
+          setStatus('not_found');
+        } else {
+          // Keep the server's verdict when it had one
+          setStatus(initialStatus === 'loading' ? 'unavailable' : initialStatus);
+        }
+      });
+
+    return () => controller.abort();
+  }, [sessionId, initialMetadata, initialStatus, attempt]);
+
+  // Signing in may unlock a private analysis
+  useEffect(() => {
+    return authStore.subscribe(() => setAttempt(count => count + 1));
+  }, []);
+
+  const renderMessage = (icon: React.ReactNode, title: string, message: string, action?: React.ReactNode) => (
+    <Card className="max-w-lg mx-auto text-center" padding="lg">
+      <div className="flex justify-center mb-4">{icon}</div>
+      <h1 className="text-2xl font-bold text-slate-900 mb-2">{title}</h1>
+      <p className="text-slate-600 mb-6">{message}</p>
+      <div className="flex items-center justify-center space-x-3">
+        {action}
+        <Link href="/">
+          <Button variant="outline">Back to LLEO</Button>
+        </Link>
+      </div>
+    </Card>
+  );
+
+  const renderContent = () => {
+    switch (status) {
+      case 'loading':
+        return (
+          <div className="flex flex-col items-center space-y-3 text-slate-600">
+            <LoadingSpinner size="lg" />
+            <p className="text-sm">Loading analysis...</p>
+          </div>
+        );
+
+      case 'not_found':
+        return renderMessage(
+          <SearchX className="w-12 h-12 text-slate-400" />,
+          'Analysis not found',
+          'This analysis does not exist or has been deleted by its author.'
+        );
+
+      case 'private':
+        return renderMessage(
+          <Lock className="w-12 h-12 text-slate-400" />,
+          'This analysis is private',
+          'Only its author can open it. If it is yours, sign in with the account that created it.'
+        );
+
+      case 'unavailable':
+        return renderMessage(
+          <WifiOff className="w-12 h-12 text-slate-400" />,
+          'Analysis unavailable',
+          'The analysis service could not be reached. Please try again in a moment.',
+          <Button onClick={() => setAttempt(count => count + 1)}>Try again</Button>
+        );
+
+      case 'found':
+        if (!analysis) return null;
+        return (
+          <Card className="max-w-3xl mx-auto overflow-hidden" padding="none">
+            <img
+              src={previewUrl}
+              alt={`NDVI preview of ${analysis.location_name}`}
+              className="w-full h-64 object-cover bg-slate-100"
+            />
+            <div className="p-6">
+              <h1 className="text-2xl font-bold text-slate-900 mb-2">{analysis.title}</h1>
+              <p className="text-slate-600 mb-4">{analysis.description}</p>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-500 mb-6">
+                <span className="flex items-center space-x-1">
+                  <MapPin className="w-4 h-4" />
+                  <span>{analysis.location_name}</span>
+                </span>
+                <span className="flex items-center space-x-1">
+                  <Calendar className="w-4 h-4" />
+                  <span>{analysis.start_year}-{analysis.end_year}</span>
+                </span>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Button onClick={() => setIsViewerOpen(true)}>
+                  <Eye className="w-4 h-4 mr-2" />
+                  View analysis
+                </Button>
+                <Link href="/">
+                  <Button variant="outline">Create your own</Button>
+                </Link>
+              </div>
+            </div>
+          </Card>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-orange-50">
+      <Header />
+
+      <main className="container mx-auto px-6 py-16">
+        {renderContent()}
+      </main>
+
+      <Footer />
+
+      <AnalysisModal
+        analysis={status === 'found' ? analysis : null}
+        isOpen={isViewerOpen}
+        onClose={() => setIsViewerOpen(false)}
+      />
+    </div>
+  );
+};
+
+export default SharedAnalysisView;
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, LogIn, UserPlus, KeyRound } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import { formatApiError } from '@/utils/api';
+
+type SignInMode = 'sign-in' | 'register';
+
+// Name of the OIDC provider; the SSO button is hidden when none is configured
+const OIDC_PROVIDER_NAME = process.env.NEXT_PUBLIC_OIDC_PROVIDER_NAME;
+
+interface SignInModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSignIn: (email: string, password: string) => Promise<void>;
+  onRegister: (email: string, password: string, name: string) => Promise<void>;
+  onProviderSignIn?: () => void;
+}
+
+const SignInModal: React.FC<SignInModalProps> = ({
+  isOpen,
+  onClose,
+  onSignIn,
+  onRegister,
+  onProviderSignIn
+}) => {
+  const [mode, setMode] = useState<SignInMode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  // Start clean every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setPassword('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      if (mode === 'register') {
+        await onRegister(email.trim(), password, name.trim());
+      } else {
+        await onSignIn(email.trim(), password);
+      }
+      onClose();
+    } catch (err) {
+      setError(formatApiError(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#43978D]';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative min-h-screen flex items-center justify-center p-4">
+        <Card className="relative w-full max-w-md animate-scale-in" padding="none">
+          <div className="flex items-center justify-between p-6 border-b border-slate-200">
+            <h2 className="text-xl font-bold text-slate-900">
+              {mode === 'register' ? 'Create Account' : 'Sign In'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <p className="text-sm text-slate-600">
+              Analyses you made in this browser are moved into your account when you sign in.
+            </p>
+
+            {mode === 'register' && (
+              <div>
+                <label htmlFor="auth-name" className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                <input
+                  id="auth-name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoComplete="name"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="auth-email" className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+              <input
+                id="auth-email"
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="auth-password" className="block text-sm font-medium text-slate-700 mb-1">Password</label>
+              <input
+                id="auth-password"
+                type="password"
+                required
+                minLength={mode === 'register' ? 8 : undefined}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                className={inputClassName}
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" fullWidth loading={isSubmitting} disabled={isSubmitting}>
+              {mode === 'register' ? (
+                <><UserPlus className="w-4 h-4 mr-2" />Create Account</>
+              ) : (
+                <><LogIn className="w-4 h-4 mr-2" />Sign In</>
+              )}
+            </Button>
+
+            {OIDC_PROVIDER_NAME && onProviderSignIn && (
+              <Button variant="outline" fullWidth onClick={onProviderSignIn} disabled={isSubmitting}>
+                <KeyRound className="w-4 h-4 mr-2" />
+                Continue with {OIDC_PROVIDER_NAME}
+              </Button>
+            )}
+
+            <p className="text-center text-sm text-slate-600">
+              {mode === 'register' ? 'Already have an account?' : 'No account yet?'}{' '}
+              <button
+                type="button"
+                onClick={() => {
+                  setMode(mode === 'register' ? 'sign-in' : 'register');
+                  setError(null);
+                }}
+                className="font-medium text-[#264D59] hover:underline"
+              >
+                {mode === 'register' ? 'Sign in' : 'Create one'}
+              </button>
+            </p>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SignInModal;
@@ -0,0 +1,341 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { BarChart3, Download, FileSpreadsheet, Image as ImageIcon, TrendingUp } from 'lucide-react';
+import { AnalysisStatistics } from '@/types/analysis';
+import { DIVERGING_COLORS } from '@/utils/colormap';
+import { exportCsv, exportPng, exportSvg } from '@/utils/chart-export';
+import { ClassChange, getClassChanges, statisticsToCsv } from '@/utils/statistics';
+import { cn } from '@/utils/cn';
+
+interface NDVIStatisticsChartProps {
+  statistics: AnalysisStatistics | null;
+  loading?: boolean;
+  fallbackImageUrl?: string;  // Server-rendered chart, shown when there are no statistics
+  filename?: string;          // Export file name without extension
+  className?: string;
+}
+
+type ChartView = 'classes' | 'change';
+
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = { top: 28, right: 16, bottom: 56, left: 48 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const TICK_COUNT = 4;
+
+const GAIN_COLOR = DIVERGING_COLORS[DIVERGING_COLORS.length - 1];
+const LOSS_COLOR = DIVERGING_COLORS[0];
+
+// Round an axis maximum up to 1, 2 or 5 times a power of ten
+const niceMax = (value: number): number => {
+  if (value <= 0) return 1;
+  const power = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(multiple => multiple * power >= value) || 10;
+  return step * power;
+};
+
+const formatPercent = (value: number): string => `${value.toFixed(1)}%`;
+
+const formatDelta = (value: number): string => `${value > 0 ? '+' : ''}${value.toFixed(1)} pp`;
+
+const truncate = (label: string, length: number): string =>
+  label.length > length ? `${label.slice(0, length - 1)}…` : label;
+
+/**
+ * Interactive NDVI class chart: per-class shares for both epochs and the
+ * change between them, with tooltips and PNG/SVG/CSV export
+ */
+const NDVIStatisticsChart: React.FC<NDVIStatisticsChartProps> = ({
+  statistics,
+  loading = false,
+  fallbackImageUrl,
+  filename = 'ndvi_statistics',
+  className = ''
+}) => {
+  const [view, setView] = useState<ChartView>('classes');
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [fallbackError, setFallbackError] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const changes = useMemo<ClassChange[]>(
+    () => statistics ? getClassChanges(statistics) : [],
+    [statistics]
+  );
+
+  const startLabel = statistics?.start_year_num ? String(statistics.start_year_num) : 'Start';
+  const endLabel = statistics?.end_year_num ? String(statistics.end_year_num) : 'End';
+
+  if (loading) {
+    return (
+      <div className={cn('flex items-center justify-center h-64 text-sm text-slate-600', className)}>
+        <div className="animate-spin w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full mr-3"></div>
+        Loading statistics...
+      </div>
+    );
+  }
+
+  if (changes.length === 0) {
+    if (fallbackImageUrl && !fallbackError) {
+      return (
+        <div className={className}>
+          <img
+            src={fallbackImageUrl}
+            alt="NDVI statistics chart"
+            className="w-full rounded-lg border border-slate-200 bg-white"
+            onError={() => setFallbackError(true)}
+          />
+          <a
+            href={fallbackImageUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center mt-2 text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            <ImageIcon className="w-3.5 h-3.5 mr-1" />
+            Open PNG
+          </a>
+        </div>
+      );
+    }
+
+    return (
+      <div className={cn('flex flex-col items-center justify-center h-48 text-slate-500', className)}>
+        <BarChart3 className="w-10 h-10 mb-2 text-slate-400" />
+        <p className="text-sm">Statistics are not available for this analysis</p>
+      </div>
+    );
+  }
+
+  const handleExport = async (format: 'png' | 'svg' | 'csv') => {
+    setExportError(null);
+    try {
+      if (format === 'csv') {
+        exportCsv(statisticsToCsv(statistics!), `${filename}.csv`);
+      } else if (svgRef.current) {
+        if (format === 'svg') {
+          exportSvg(svgRef.current, `${filename}_${view}.svg`);
+        } else {
+          await exportPng(svgRef.current, `${filename}_${view}.png`);
+        }
+      }
+    } catch (error) {
+      console.error('Chart export failed:', error);
+      setExportError('Export failed. Try SVG or CSV instead.');
+    }
+  };
+
+  const groupWidth = PLOT_WIDTH / changes.length;
+  const labelLength = Math.max(6, Math.floor(groupWidth / 6.5));
+
+  // Classes view: 0..max share; change view: symmetric around zero
+  const classMax = niceMax(Math.max(...changes.map(change => Math.max(change.start, change.end))));
+  const changeMax = niceMax(Math.max(...changes.map(change => Math.abs(change.delta))));
+  const domainMin = view === 'classes' ? 0 : -changeMax;
+  const domainMax = view === 'classes' ? classMax : changeMax;
+  const y = (value: number) => MARGIN.top + PLOT_HEIGHT * (1 - (value - domainMin) / (domainMax - domainMin));
+
+  const ticks = Array.from({ length: TICK_COUNT + 1 }, (_, index) =>
+    domainMin + (domainMax - domainMin) * index / TICK_COUNT
+  );
+
+  const hoveredChange = hovered !== null ? changes[hovered] : null;
+
+  return (
+    <div className={className}>
+      {/* View toggle and export */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex bg-slate-100 rounded-lg p-0.5">
+          {([
+            ['classes', 'Classes', BarChart3],
+            ['change', 'Change', TrendingUp],
+          ] as const).map(([id, label, Icon]) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setView(id)}
+              className={cn(
+                'flex items-center px-3 py-1 rounded-md text-xs font-medium transition-colors',
+                view === id ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-600 hover:text-slate-900'
+              )}
+            >
+              <Icon className="w-3.5 h-3.5 mr-1" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-1">
+          {([
+            ['png', 'PNG', Download],
+            ['svg', 'SVG', Download],
+            ['csv', 'CSV', FileSpreadsheet],
+          ] as const).map(([format, label, Icon]) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              className="flex items-center px-2 py-1 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-100 hover:text-slate-900"
+              title={`Download as ${label}`}
+            >
+              <Icon className="w-3.5 h-3.5 mr-1" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          width={WIDTH}
+          height={HEIGHT}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+          fontFamily="ui-sans-serif, system-ui, sans-serif"
+          role="img"
+          aria-label={view === 'classes'
+            ? `NDVI class shares, ${startLabel} and ${endLabel}`
+            : `Change in NDVI class shares from ${startLabel} to ${endLabel}`}
+        >
+          <rect x={0} y={0} width={WIDTH} height={HEIGHT} fill="#ffffff" />
+
+          {/* Grid and y axis */}
+          {ticks.map(tick => (
+            <g key={tick}>
+              <line
+                x1={MARGIN.left}
+                x2={WIDTH - MARGIN.right}
+                y1={y(tick)}
+                y2={y(tick)}
+                stroke={tick === 0 ? '#94a3b8' : '#e2e8f0'}
+                strokeWidth={1}
+              />
+              <text x={MARGIN.left - 6} y={y(tick)} dy="0.32em" textAnchor="end" fontSize={10} fill="#64748b">
+                {view === 'classes' ? `${tick}%` : `${tick > 0 ? '+' : ''}${tick}`}
+              </text>
+            </g>
+          ))}
+          <text
+            transform={`translate(12, ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+            textAnchor="middle"
+            fontSize={10}
+            fill="#64748b"
+          >
+            {view === 'classes' ? '% of study area' : 'Change (percentage points)'}
+          </text>
+
+          {/* Series key */}
+          {view === 'classes' ? (
+            <g transform={`translate(${WIDTH - MARGIN.right - 150}, 8)`} fontSize={10} fill="#334155">
+              <rect width={10} height={10} fill="#475569" fillOpacity={0.45} />
+              <text x={14} y={9}>{startLabel}</text>
+              <rect x={70} width={10} height={10} fill="#475569" />
+              <text x={84} y={9}>{endLabel}</text>
+            </g>
+          ) : (
+            <g transform={`translate(${WIDTH - MARGIN.right - 150}, 8)`} fontSize={10} fill="#334155">
+              <rect width={10} height={10} fill={GAIN_COLOR} />
+              <text x={14} y={9}>Gain</text>
+              <rect x={70} width={10} height={10} fill={LOSS_COLOR} />
+              <text x={84} y={9}>Loss</text>
+            </g>
+          )}
+
+          {/* Bars */}
+          {changes.map((change, index) => {
+            const groupX = MARGIN.left + groupWidth * index;
+            const isHovered = hovered === index;
+
+            return (
+              <g
+                key={change.label}
+                onMouseEnter={() => setHovered(index)}
+                onMouseLeave={() => setHovered(null)}
+                onFocus={() => setHovered(index)}
+                onBlur={() => setHovered(null)}
+                tabIndex={0}
+              >
+                {/* Hover target spanning the whole group */}
+                <rect
+                  x={groupX}
+                  y={MARGIN.top}
+                  width={groupWidth}
+                  height={PLOT_HEIGHT}
+                  fill={isHovered ? '#f1f5f9' : 'transparent'}
+                />
+
+                {view === 'classes' ? (
+                  <>
+                    <rect
+                      x={groupX + groupWidth * 0.15}
+                      y={y(change.start)}
+                      width={groupWidth * 0.33}
+                      height={Math.max(0, y(0) - y(change.start))}
+                      fill={change.color}
+                      fillOpacity={0.45}
+                    />
+                    <rect
+                      x={groupX + groupWidth * 0.52}
+                      y={y(change.end)}
+                      width={groupWidth * 0.33}
+                      height={Math.max(0, y(0) - y(change.end))}
+                      fill={change.color}
+                    />
+                  </>
+                ) : (
+                  <rect
+                    x={groupX + groupWidth * 0.25}
+                    y={Math.min(y(0), y(change.delta))}
+                    width={groupWidth * 0.5}
+                    height={Math.abs(y(change.delta) - y(0))}
+                    fill={change.delta >= 0 ? GAIN_COLOR : LOSS_COLOR}
+                  />
+                )}
+
+                <text
+                  x={groupX + groupWidth / 2}
+                  y={HEIGHT - MARGIN.bottom + 16}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fill="#334155"
+                >
+                  <title>{change.label}</title>
+                  {truncate(change.label, labelLength)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Tooltip */}
+        {hoveredChange && hovered !== null && (
+          <div
+            className="absolute z-10 pointer-events-none -translate-x-1/2 bg-slate-900/90 text-white rounded-md shadow-lg px-3 py-2 text-xs whitespace-nowrap"
+            style={{
+              left: `${(MARGIN.left + groupWidth * (hovered + 0.5)) / WIDTH * 100}%`,
+              top: `${MARGIN.top / HEIGHT * 100}%`,
+            }}
+          >
+            <p className="font-semibold mb-1 flex items-center">
+              <span className="w-2.5 h-2.5 rounded-sm mr-1.5" style={{ backgroundColor: hoveredChange.color }} />
+              {hoveredChange.label}
+            </p>
+            <p>{startLabel}: {formatPercent(hoveredChange.start)}</p>
+            <p>{endLabel}: {formatPercent(hoveredChange.end)}</p>
+            <p className={hoveredChange.delta >= 0 ? 'text-emerald-300' : 'text-amber-300'}>
+              Change: {formatDelta(hoveredChange.delta)}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {exportError && (
+        <p className="text-xs text-red-600 mt-2">{exportError}</p>
+      )}
+    </div>
+  );
+};
+
+export default NDVIStatisticsChart;
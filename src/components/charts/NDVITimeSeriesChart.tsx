@@ -0,0 +1,299 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Download, FileSpreadsheet } from 'lucide-react';
+import { NDVIPeriodStatistics } from '@/types/analysis';
+import { exportCsv, exportPng, exportSvg } from '@/utils/chart-export';
+import { LinearTrend, PeriodAnomaly, getTrendValue, timeSeriesToCsv } from '@/utils/timeseries';
+
+interface NDVITimeSeriesChartProps {
+  series: NDVIPeriodStatistics[];
+  trend: LinearTrend | null;
+  anomalies: PeriodAnomaly[];
+  selectedIndex?: number;
+  onSelect?: (index: number) => void;
+  filename?: string;          // Export file name without extension
+  className?: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const MARGIN = { top: 28, right: 16, bottom: 40, left: 48 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const TICK_COUNT = 4;
+const MAX_X_LABELS = 12;
+
+const LINE_COLOR = '#16a34a';
+const TREND_COLOR = '#475569';
+const BROWNING_COLOR = '#b45309';
+const GREENING_COLOR = '#1d4ed8';
+
+/**
+ * Mean NDVI per period with the fitted trend and anomalous periods marked
+ * Clicking a point selects that period
+ */
+const NDVITimeSeriesChart: React.FC<NDVITimeSeriesChartProps> = ({
+  series,
+  trend,
+  anomalies,
+  selectedIndex,
+  onSelect,
+  filename = 'ndvi_timeseries',
+  className = ''
+}) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  if (series.length === 0) return null;
+
+  const anomalyByIndex: Record<number, PeriodAnomaly> = {};
+  anomalies.forEach(anomaly => {
+    anomalyByIndex[anomaly.index] = anomaly;
+  });
+
+  const hasSpread = series.every(period => period.std !== undefined);
+  const values = series.reduce<number[]>((acc, period, index) => {
+    acc.push(period.mean);
+    if (hasSpread) acc.push(period.mean - period.std!, period.mean + period.std!);
+    if (trend) acc.push(getTrendValue(trend, index));
+    return acc;
+  }, []);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const padding = (high - low) * 0.1 || 0.05;
+  const domainMin = Math.max(-1, low - padding);
+  const domainMax = Math.min(1, high + padding);
+
+  const x = (index: number) => MARGIN.left + (series.length === 1
+    ? PLOT_WIDTH / 2
+    : PLOT_WIDTH * index / (series.length - 1));
+  const y = (value: number) => MARGIN.top + PLOT_HEIGHT * (1 - (value - domainMin) / (domainMax - domainMin));
+
+  const ticks = Array.from({ length: TICK_COUNT + 1 }, (_, index) =>
+    domainMin + (domainMax - domainMin) * index / TICK_COUNT
+  );
+  const labelStep = Math.ceil(series.length / MAX_X_LABELS);
+
+  const linePath = series.map((period, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(period.mean)}`).join(' ');
+  const spreadPath = hasSpread
+    ? [
+        ...series.map((period, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(period.mean + period.std!)}`),
+        ...series.map((period, index) => `L${x(index)},${y(period.mean - period.std!)}`).reverse(),
+        'Z',
+      ].join(' ')
+    : null;
+
+  const handleExport = async (format: 'png' | 'svg' | 'csv') => {
+    setExportError(null);
+    try {
+      if (format === 'csv') {
+        exportCsv(timeSeriesToCsv(series, anomalies), `${filename}.csv`);
+      } else if (svgRef.current) {
+        if (format === 'svg') {
+          exportSvg(svgRef.current, `${filename}.svg`);
+        } else {
+          await exportPng(svgRef.current, `${filename}.png`);
+        }
+      }
+    } catch (error) {
+      console.error('Chart export failed:', error);
+      setExportError('Export failed. Try SVG or CSV instead.');
+    }
+  };
+
+  const hoveredPeriod = hovered !== null ? series[hovered] : null;
+
+  return (
+    <div className={className}>
+      <div className="flex justify-end items-center space-x-1 mb-2">
+        {([
+          ['png', 'PNG', Download],
+          ['svg', 'SVG', Download],
+          ['csv', 'CSV', FileSpreadsheet],
+        ] as const).map(([format, label, Icon]) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            className="flex items-center px-2 py-1 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-100 hover:text-slate-900"
+            title={`Download as ${label}`}
+          >
+            <Icon className="w-3.5 h-3.5 mr-1" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          width={WIDTH}
+          height={HEIGHT}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+          fontFamily="ui-sans-serif, system-ui, sans-serif"
+          role="img"
+          aria-label={`Mean NDVI from ${series[0].period} to ${series[series.length - 1].period}`}
+        >
+          <rect x={0} y={0} width={WIDTH} height={HEIGHT} fill="#ffffff" />
+
+          {/* Grid and axes */}
+          {ticks.map(tick => (
+            <g key={tick}>
+              <line
+                x1={MARGIN.left}
+                x2={WIDTH - MARGIN.right}
+                y1={y(tick)}
+                y2={y(tick)}
+                stroke="#e2e8f0"
+                strokeWidth={1}
+              />
+              <text x={MARGIN.left - 6} y={y(tick)} dy="0.32em" textAnchor="end" fontSize={10} fill="#64748b">
+                {tick.toFixed(2)}
+              </text>
+            </g>
+          ))}
+          <text
+            transform={`translate(12, ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+            textAnchor="middle"
+            fontSize={10}
+            fill="#64748b"
+          >
+            Mean NDVI
+          </text>
+          {series.map((period, index) => index % labelStep === 0 && (
+            <text
+              key={period.period}
+              x={x(index)}
+              y={HEIGHT - MARGIN.bottom + 16}
+              textAnchor="middle"
+              fontSize={10}
+              fill="#334155"
+            >
+              {period.period}
+            </text>
+          ))}
+
+          {/* Series key */}
+          <g transform={`translate(${MARGIN.left}, 8)`} fontSize={10} fill="#334155">
+            <line x1={0} x2={16} y1={5} y2={5} stroke={LINE_COLOR} strokeWidth={2} />
+            <text x={20} y={9}>Mean</text>
+            {trend && (
+              <>
+                <line x1={64} x2={80} y1={5} y2={5} stroke={TREND_COLOR} strokeWidth={1.5} strokeDasharray="4 3" />
+                <text x={84} y={9}>Trend</text>
+              </>
+            )}
+            <circle cx={134} cy={5} r={4} fill={BROWNING_COLOR} />
+            <text x={142} y={9}>Below expected</text>
+            <circle cx={234} cy={5} r={4} fill={GREENING_COLOR} />
+            <text x={242} y={9}>Above expected</text>
+          </g>
+
+          {spreadPath && <path d={spreadPath} fill={LINE_COLOR} fillOpacity={0.12} stroke="none" />}
+
+          {selectedIndex !== undefined && series[selectedIndex] && (
+            <line
+              x1={x(selectedIndex)}
+              x2={x(selectedIndex)}
+              y1={MARGIN.top}
+              y2={MARGIN.top + PLOT_HEIGHT}
+              stroke="#2563eb"
+              strokeWidth={1}
+              strokeDasharray="2 2"
+            />
+          )}
+
+          {trend && series.length > 1 && (
+            <line
+              x1={x(0)}
+              x2={x(series.length - 1)}
+              y1={y(getTrendValue(trend, 0))}
+              y2={y(getTrendValue(trend, series.length - 1))}
+              stroke={TREND_COLOR}
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+            />
+          )}
+
+          <path d={linePath} fill="none" stroke={LINE_COLOR} strokeWidth={2} strokeLinejoin="round" />
+
+          {/* Points */}
+          {series.map((period, index) => {
+            const anomaly = anomalyByIndex[index];
+            const isActive = hovered === index || selectedIndex === index;
+
+            return (
+              <g
+                key={period.period}
+                onMouseEnter={() => setHovered(index)}
+                onMouseLeave={() => setHovered(null)}
+                onFocus={() => setHovered(index)}
+                onBlur={() => setHovered(null)}
+                onClick={() => onSelect?.(index)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') onSelect?.(index);
+                }}
+                tabIndex={0}
+                style={{ cursor: onSelect ? 'pointer' : undefined }}
+              >
+                {/* Wider invisible hit area */}
+                <circle cx={x(index)} cy={y(period.mean)} r={10} fill="transparent" />
+                {anomaly && (
+                  <circle
+                    cx={x(index)}
+                    cy={y(period.mean)}
+                    r={7}
+                    fill="none"
+                    stroke={anomaly.zScore < 0 ? BROWNING_COLOR : GREENING_COLOR}
+                    strokeWidth={2}
+                  />
+                )}
+                <circle
+                  cx={x(index)}
+                  cy={y(period.mean)}
+                  r={isActive ? 4.5 : 3}
+                  fill={anomaly ? (anomaly.zScore < 0 ? BROWNING_COLOR : GREENING_COLOR) : LINE_COLOR}
+                  stroke="#ffffff"
+                  strokeWidth={1}
+                />
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Tooltip */}
+        {hoveredPeriod && hovered !== null && (
+          <div
+            className="absolute z-10 pointer-events-none -translate-x-1/2 -translate-y-full bg-slate-900/90 text-white rounded-md shadow-lg px-3 py-2 text-xs whitespace-nowrap"
+            style={{
+              left: `${x(hovered) / WIDTH * 100}%`,
+              top: `${(y(hoveredPeriod.mean) - 10) / HEIGHT * 100}%`,
+            }}
+          >
+            <p className="font-semibold mb-1">{hoveredPeriod.period}</p>
+            <p>Mean NDVI: {hoveredPeriod.mean.toFixed(3)}</p>
+            {hoveredPeriod.std !== undefined && <p>Std. dev.: {hoveredPeriod.std.toFixed(3)}</p>}
+            {trend && <p>Trend: {getTrendValue(trend, hovered).toFixed(3)}</p>}
+            {hoveredPeriod.valid_fraction !== undefined && (
+              <p>Cloud-free: {Math.round(hoveredPeriod.valid_fraction * 100)}%</p>
+            )}
+            {anomalyByIndex[hovered] && (
+              <p className={anomalyByIndex[hovered].zScore < 0 ? 'text-amber-300' : 'text-sky-300'}>
+                Anomaly: {anomalyByIndex[hovered].zScore > 0 ? '+' : ''}{anomalyByIndex[hovered].zScore.toFixed(1)}σ
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {exportError && (
+        <p className="text-xs text-red-600 mt-2">{exportError}</p>
+      )}
+    </div>
+  );
+};
+
+export default NDVITimeSeriesChart;
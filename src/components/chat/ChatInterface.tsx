@@ -1,8 +1,11 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, StopCircle, Upload } from 'lucide-react';
+import { Send, Loader2, StopCircle, MapPin, X, LineChart } from 'lucide-react';
 import Button from '@/components/ui/Button';
+import CredentialsManager from '@/components/credentials/CredentialsManager';
+import { AnalysisMode, GeometryAreaOfInterest, TimeSeriesInterval } from '@/types/analysis';
+import { AnalysisCredentials, SelectedCredentials } from '@/types/credentials';
 
 interface Message {
   id: string;
@@ -13,19 +16,61 @@ interface Message {
 }
 
 interface ChatInterfaceProps {
-  onSubmit: (query: string, file?: File) => void;
+  onSubmit: (query: string, credentials?: AnalysisCredentials) => void;
   loading?: boolean;
+  progress?: number; // 0-100, reported by the backend job
+  progressMessage?: string; // Current backend stage description
   onStopGeneration?: () => void;
   initialValue?: string; // For setting value from example prompts
   onInputChange?: (value: string) => void; // To sync with parent state
+  selectedAreas?: GeometryAreaOfInterest[]; // Areas of interest sent with the query
+  onRemoveArea?: (id: string) => void;
+  isMapOpen?: boolean;
+  onToggleMap?: () => void;
+  analysisMode?: AnalysisMode;
+  interval?: TimeSeriesInterval; // Time-series mode only
+  onAnalysisModeChange?: (mode: AnalysisMode, interval: TimeSeriesInterval) => void;
 }
 
-export default function ChatInterface({ onSubmit, loading = false, onStopGeneration, initialValue = '', onInputChange }: ChatInterfaceProps) {
+const areaSourceLabels: Record<GeometryAreaOfInterest['source'], string> = {
+  rectangle: 'Rectangle',
+  polygon: 'Polygon',
+  circle: 'Circle',
+  upload: 'Boundary',
+  place: 'Place',
+};
+
+const intervalLabels: Record<TimeSeriesInterval, string> = {
+  annual: 'Annual',
+  seasonal: 'Seasonal',
+  monthly: 'Monthly',
+};
+
+const formatArea = (areaKm2?: number): string => {
+  if (areaKm2 === undefined) return '';
+  return areaKm2 >= 100 ? `${Math.round(areaKm2).toLocaleString()} km²` : `${areaKm2.toFixed(2)} km²`;
+};
+
+export default function ChatInterface({
+  onSubmit,
+  loading = false,
+  progress,
+  progressMessage,
+  onStopGeneration,
+  initialValue = '',
+  onInputChange,
+  selectedAreas = [],
+  onRemoveArea,
+  isMapOpen = false,
+  onToggleMap,
+  analysisMode = 'change',
+  interval = 'annual',
+  onAnalysisModeChange
+}: ChatInterfaceProps) {
   const [input, setInput] = useState(initialValue);
-  const [credentialsFile, setCredentialsFile] = useState<File | null>(null);
-  const [dragActive, setDragActive] = useState(false);
+  const [credentials, setCredentials] = useState<SelectedCredentials | null>(null);
+  const [credentialsPrompt, setCredentialsPrompt] = useState(false); // Sent without a credential
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Sync with parent state when initialValue changes
   useEffect(() => {
@@ -42,8 +87,13 @@ export default function ChatInterface({ onSubmit, loading = false, onStopGenerat
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || loading) return;
+    // Keep the query until a credential is chosen to run it with
+    if (!credentials) {
+      setCredentialsPrompt(true);
+      return;
+    }
 
-    onSubmit(input.trim(), credentialsFile || undefined);
+    onSubmit(input.trim(), credentials?.credentials);
     setInput('');
     onInputChange?.(''); // Clear parent state too
   };
@@ -55,37 +105,9 @@ export default function ChatInterface({ onSubmit, loading = false, onStopGenerat
     }
   };
 
-  const handleDrag = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    if (e.type === 'dragenter' || e.type === 'dragover') {
-      setDragActive(true);
-    } else if (e.type === 'dragleave') {
-      setDragActive(false);
-    }
-  };
-
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setDragActive(false);
-
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.type === 'application/json' || file.name.endsWith('.json')) {
-        setCredentialsFile(file);
-      }
-    }
-  };
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (file.type === 'application/json' || file.name.endsWith('.json')) {
-        setCredentialsFile(file);
-      }
-    }
-  };
+  useEffect(() => {
+    if (credentials) setCredentialsPrompt(false);
+  }, [credentials]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -97,69 +119,86 @@ export default function ChatInterface({ onSubmit, loading = false, onStopGenerat
 
   return (
     <div className="w-full max-w-4xl mx-auto">
-      {/* Credentials Upload Area */}
-      {!credentialsFile && (
-        <div
-          className={`mb-6 p-6 border-2 border-dashed rounded-xl transition-all duration-300 ${
-            dragActive
-              ? 'border-blue-400 bg-blue-50/50 dark:bg-blue-900/20'
-              : 'border-gray-300 dark:border-gray-600 bg-gray-50/50 dark:bg-gray-800/50'
-          }`}
-          onDragEnter={handleDrag}
-          onDragLeave={handleDrag}
-          onDragOver={handleDrag}
-          onDrop={handleDrop}
-        >
-          <div className="text-center">
-            <Upload className="mx-auto h-8 w-8 text-gray-400 dark:text-gray-500 mb-3" />
-            <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
-              Upload your Google Earth Engine credentials (JSON file)
-            </p>
-            <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
-              Drag and drop or click to browse
-            </p>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => fileInputRef.current?.click()}
-              className="text-sm"
-            >
-              Choose File
-            </Button>
-          </div>
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".json"
-            onChange={handleFileChange}
-            className="hidden"
-          />
-        </div>
-      )}
-
-      {/* Credentials Status */}
-      {credentialsFile && (
-        <div className="mb-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span className="text-sm text-green-700 dark:text-green-300">
-                Credentials: {credentialsFile.name}
-              </span>
-            </div>
-            <button
-              onClick={() => setCredentialsFile(null)}
-              className="text-green-700 dark:text-green-300 hover:text-green-900 dark:hover:text-green-100 text-sm"
-            >
-              Remove
-            </button>
-          </div>
-        </div>
-      )}
+      {/* Credentials: upload or unlock a saved key */}
+      <CredentialsManager
+        selected={credentials}
+        onSelect={setCredentials}
+        disabled={loading}
+        className="mb-4"
+      />
 
       {/* Main Input Form */}
       <form onSubmit={handleSubmit} className="relative">
         <div className="relative bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-2xl shadow-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-all duration-200">
+          {/* Area of interest chips */}
+          {(selectedAreas.length > 0 || onToggleMap || onAnalysisModeChange) && (
+            <div className="flex flex-wrap items-center gap-2 px-6 pt-4">
+              {selectedAreas.map(area => (
+                <span key={area.id} className="inline-flex items-center space-x-2 pl-3 pr-1 py-1 text-sm bg-[#43978D]/10 text-[#264D59] border border-[#43978D]/30 rounded-full">
+                  <MapPin className="w-4 h-4" />
+                  <span className="font-medium">
+                    {area.name || areaSourceLabels[area.source]}
+                  </span>
+                  {area.area_km2 !== undefined && (
+                    <span className="text-xs opacity-80">{formatArea(area.area_km2)}</span>
+                  )}
+                  {onRemoveArea && (
+                    <button
+                      type="button"
+                      onClick={() => onRemoveArea(area.id)}
+                      disabled={loading}
+                      className="p-0.5 rounded-full hover:bg-[#43978D]/20 transition-colors disabled:opacity-50"
+                      title="Remove area"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </span>
+              ))}
+              {onToggleMap && (
+                <button
+                  type="button"
+                  onClick={onToggleMap}
+                  className="inline-flex items-center space-x-1 px-3 py-1 text-sm text-gray-600 dark:text-gray-300 border border-dashed border-gray-300 dark:border-gray-600 rounded-full hover:border-[#43978D] hover:text-[#264D59] transition-colors"
+                >
+                  <MapPin className="w-4 h-4" />
+                  <span>{isMapOpen ? 'Hide map' : selectedAreas.length > 0 ? 'Edit areas' : 'Select area on map'}</span>
+                </button>
+              )}
+              {onAnalysisModeChange && (
+                <span className="inline-flex items-center space-x-1 ml-auto text-sm">
+                  <button
+                    type="button"
+                    onClick={() => onAnalysisModeChange(analysisMode === 'timeseries' ? 'change' : 'timeseries', interval)}
+                    disabled={loading}
+                    className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full border transition-colors disabled:opacity-50 ${
+                      analysisMode === 'timeseries'
+                        ? 'bg-[#43978D]/10 text-[#264D59] border-[#43978D]/30'
+                        : 'text-gray-600 dark:text-gray-300 border-dashed border-gray-300 dark:border-gray-600 hover:border-[#43978D] hover:text-[#264D59]'
+                    }`}
+                    title={analysisMode === 'timeseries' ? 'Switch to start/end comparison' : 'Analyse every period between the years'}
+                  >
+                    <LineChart className="w-4 h-4" />
+                    <span>Time series</span>
+                  </button>
+                  {analysisMode === 'timeseries' && (
+                    <select
+                      value={interval}
+                      onChange={(e) => onAnalysisModeChange('timeseries', e.target.value as TimeSeriesInterval)}
+                      disabled={loading}
+                      className="px-2 py-1 text-sm bg-transparent border border-gray-300 dark:border-gray-600 rounded-full text-gray-700 dark:text-gray-300"
+                      aria-label="Time-series interval"
+                    >
+                      {(Object.keys(intervalLabels) as TimeSeriesInterval[]).map(option => (
+                        <option key={option} value={option}>{intervalLabels[option]}</option>
+                      ))}
+                    </select>
+                  )}
+                </span>
+              )}
+            </div>
+          )}
+
           <textarea
             ref={textareaRef}
             value={input}
@@ -191,7 +230,7 @@ export default function ChatInterface({ onSubmit, loading = false, onStopGenerat
                 type="submit"
                 variant="primary"
                 size="sm"
-                disabled={!input.trim() || !credentialsFile}
+                disabled={!input.trim() || !credentials}
                 className="h-10 w-10 rounded-full p-0 disabled:opacity-50"
               >
                 <Send className="h-5 w-5" />
@@ -203,9 +242,14 @@ export default function ChatInterface({ onSubmit, loading = false, onStopGenerat
         {/* Helper Text */}
         <div className="mt-3 px-2 text-xs text-gray-500 dark:text-gray-400 flex items-center justify-between">
           <span>Press Enter to send, Shift + Enter for new line</span>
-          {!credentialsFile && (
-            <span className="text-orange-500 dark:text-orange-400">
-              ⚠ Credentials required for analysis
+          {!credentials && (
+            <span className={credentialsPrompt
+              ? 'font-medium text-red-600 dark:text-red-400'
+              : 'text-orange-500 dark:text-orange-400'
+            } role={credentialsPrompt ? 'alert' : undefined}>
+              {credentialsPrompt
+                ? '⚠ Choose a credential above to run this query'
+                : '⚠ Credentials required for analysis'}
             </span>
           )}
         </div>
@@ -213,10 +257,25 @@ export default function ChatInterface({ onSubmit, loading = false, onStopGenerat
 
       {/* Loading State */}
       {loading && (
-        <div className="mt-6 flex items-center justify-center space-x-3 text-gray-600 dark:text-gray-300">
-          <Loader2 className="h-5 w-5 animate-spin" />
-          <span className="text-sm">Analyzing with GeoLLM...</span>
-        </div>
+        progress !== undefined ? (
+          <div className="mt-6 max-w-md mx-auto text-gray-600 dark:text-gray-300">
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span>{progressMessage || 'Analyzing with GeoLLM...'}</span>
+              <span className="font-medium">{Math.round(progress)}%</span>
+            </div>
+            <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-[#43978D] to-[#F9AD6A] rounded-full transition-all duration-500"
+                style={{ width: `${Math.min(Math.max(progress, 0), 100)}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="mt-6 flex items-center justify-center space-x-3 text-gray-600 dark:text-gray-300">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            <span className="text-sm">Analyzing with GeoLLM...</span>
+          </div>
+        )
       )}
     </div>
   );
@@ -0,0 +1,456 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Upload, KeyRound, Lock, Trash2, CheckCircle, AlertCircle, X, Server } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import Button from '../ui/Button';
+import { SavedCredential, SelectedCredentials, ServerCredential, ServiceAccountKey } from '@/types/credentials';
+import { USE_CREDENTIAL_PROXY, formatApiError, listServerCredentials } from '@/utils/api';
+import { checkCredentialsFile } from '@/utils/credentials';
+import { credentialVault, CredentialVaultError, MIN_PASSPHRASE_LENGTH } from '@/utils/credential-vault';
+import { authStore } from '@/utils/auth-store';
+import { cn } from '@/utils/cn';
+
+interface CredentialsManagerProps {
+  selected: SelectedCredentials | null;
+  onSelect: (credentials: SelectedCredentials | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#43978D]';
+
+const describeVaultError = (error: unknown): string =>
+  error instanceof CredentialVaultError ? error.message : 'Something went wrong with the saved credentials.';
+
+/**
+ * Pick the Earth Engine service account for an analysis: upload a key file,
+ * or unlock one saved earlier. Uploaded keys are only saved, encrypted,
+ * when the user opts in. Behind the credential proxy, only the service
+ * accounts registered on the server can be picked.
+ */
+const CredentialsManager: React.FC<CredentialsManagerProps> = ({
+  selected,
+  onSelect,
+  disabled = false,
+  className
+}) => {
+  const [saved, setSaved] = useState<SavedCredential[]>([]);
+  const [dragActive, setDragActive] = useState(false);
+  const [uploadError, setUploadError] = useState<{ message: string; issues: string[] } | null>(null);
+  // Parsed key of the current upload, kept until it is saved or replaced
+  const [uploadedKey, setUploadedKey] = useState<ServiceAccountKey | null>(null);
+
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+
+  const [consent, setConsent] = useState(false);
+  const [label, setLabel] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [serverCredentials, setServerCredentials] = useState<ServerCredential[] | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+  // Undefined until the session has been read
+  const [accountId, setAccountId] = useState<string | null | undefined>(undefined);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Server accounts depend on who is signed in
+  useEffect(() => {
+    if (!USE_CREDENTIAL_PROXY) return;
+    const update = () => {
+      const session = authStore.get();
+      setAccountId(session ? session.user.id : null);
+    };
+    update();
+    return authStore.subscribe(update);
+  }, []);
+
+  // Read saved credentials on the client only
+  useEffect(() => {
+    if (!USE_CREDENTIAL_PROXY) {
+      setSaved(credentialVault.list());
+      return;
+    }
+    if (accountId === undefined) return;
+
+    setServerCredentials(null);
+    setServerError(null);
+    if (!accountId) {
+      setServerError('Sign in to use the service accounts registered for you or your organization.');
+      return;
+    }
+
+    const controller = new AbortController();
+    listServerCredentials(controller.signal)
+      .then(setServerCredentials)
+      .catch(error => {
+        if (!controller.signal.aborted) setServerError(formatApiError(error));
+      });
+    return () => controller.abort();
+  }, [accountId]);
+
+  const resetSaveForm = () => {
+    setConsent(false);
+    setLabel('');
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setSaveError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    setUploadError(null);
+    const check = await checkCredentialsFile(file);
+    if (!check.valid) {
+      setUploadError({ message: check.error, issues: check.issues });
+      return;
+    }
+
+    resetSaveForm();
+    setUploadedKey(check.key);
+    onSelect({ credentials: file, label: file.name, summary: check.summary });
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === 'dragenter' || e.type === 'dragover') {
+      setDragActive(true);
+    } else if (e.type === 'dragleave') {
+      setDragActive(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    if (!disabled && e.dataTransfer.files && e.dataTransfer.files[0]) {
+      handleFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      handleFile(e.target.files[0]);
+    }
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!unlockingId) return;
+
+    setIsBusy(true);
+    setUnlockError(null);
+    try {
+      const credentials = await credentialVault.unlock(unlockingId, unlockPassphrase);
+      setUnlockingId(null);
+      setUnlockPassphrase('');
+      setUploadedKey(null);
+      setSaved(credentialVault.list());
+      onSelect(credentials);
+    } catch (error) {
+      setUnlockError(describeVaultError(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !uploadedKey) return;
+
+    if (passphrase !== confirmPassphrase) {
+      setSaveError('The passphrases do not match.');
+      return;
+    }
+
+    setIsBusy(true);
+    setSaveError(null);
+    try {
+      const entry = await credentialVault.save(uploadedKey, passphrase, label, selected.label);
+      setSaved(credentialVault.list());
+      setUploadedKey(null);
+      resetSaveForm();
+      onSelect({ ...selected, label: entry.label, saved_id: entry.id });
+    } catch (error) {
+      setSaveError(describeVaultError(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemoveSaved = (id: string) => {
+    credentialVault.remove(id);
+    setSaved(credentialVault.list());
+    if (unlockingId === id) setUnlockingId(null);
+    if (selected?.saved_id === id) onSelect(null);
+  };
+
+  const handleClearSelection = () => {
+    setUploadedKey(null);
+    resetSaveForm();
+    onSelect(null);
+  };
+
+  const handleSelectServer = (credential: ServerCredential) => {
+    onSelect({
+      credentials: { credential_id: credential.id },
+      label: credential.label,
+      summary: credential,
+    });
+  };
+
+  if (selected) {
+    return (
+      <div className={cn('p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg', className)}>
+        <div className="flex items-start justify-between">
+          <div className="flex items-start space-x-2 min-w-0">
+            <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-green-600" />
+            <div className="min-w-0 text-sm">
+              <p className="text-green-800 dark:text-green-200 font-medium truncate">
+                Project: {selected.summary.project_id}
+              </p>
+              <p className="text-xs text-green-700 dark:text-green-300 truncate">
+                {selected.summary.client_email}
+              </p>
+              <p className="text-xs text-green-600 dark:text-green-400 truncate">
+                {selected.saved_id ? `Saved as "${selected.label}"` : selected.label}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleClearSelection}
+            disabled={disabled}
+            className="text-green-700 dark:text-green-300 hover:text-green-900 dark:hover:text-green-100 text-sm disabled:opacity-50"
+          >
+            Change
+          </button>
+        </div>
+
+        {/* Opt-in encrypted storage for a fresh upload */}
+        {uploadedKey && !selected.saved_id && (
+          <form onSubmit={handleSave} className="mt-3 pt-3 border-t border-green-200 dark:border-green-800 space-y-2">
+            <label className="flex items-start space-x-2 text-xs text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={consent}
+                onChange={(e) => setConsent(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                Remember this key in this browser, encrypted with a passphrase. The passphrase cannot be recovered,
+                and anyone who knows it can use the key on this device.
+              </span>
+            </label>
+
+            {consent && (
+              <>
+                <input
+                  type="text"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder={`Label (default: ${selected.summary.project_id})`}
+                  className={inputClassName}
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <input
+                    type="password"
+                    required
+                    minLength={MIN_PASSPHRASE_LENGTH}
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Passphrase"
+                    autoComplete="new-password"
+                    className={inputClassName}
+                  />
+                  <input
+                    type="password"
+                    required
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    placeholder="Repeat passphrase"
+                    autoComplete="new-password"
+                    className={inputClassName}
+                  />
+                </div>
+                {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+                <Button type="submit" size="sm" variant="outline" loading={isBusy} disabled={isBusy}>
+                  <Lock className="w-4 h-4 mr-2" />
+                  Save encrypted
+                </Button>
+              </>
+            )}
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  if (USE_CREDENTIAL_PROXY) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        <p className="text-xs font-medium text-gray-600 dark:text-gray-300">Service accounts managed by your organization</p>
+        {serverError && (
+          <p className="text-sm text-red-600">{serverError}</p>
+        )}
+        {!serverError && !serverCredentials && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading service accounts...</p>
+        )}
+        {serverCredentials && serverCredentials.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No service accounts are registered for you or your organization yet. Ask an administrator to add one.
+          </p>
+        )}
+        {serverCredentials && serverCredentials.map(credential => (
+          <button
+            key={credential.id}
+            onClick={() => handleSelectServer(credential)}
+            disabled={disabled}
+            className="w-full flex items-center space-x-2 p-3 text-left border border-gray-200 dark:border-gray-700 bg-white/70 dark:bg-gray-800/70 rounded-lg hover:border-[#43978D] transition-colors disabled:opacity-50"
+          >
+            <Server className="w-4 h-4 flex-shrink-0 text-[#43978D]" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate">{credential.label}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {credential.project_id} · {credential.client_email}
+              </p>
+            </div>
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* Saved credentials */}
+      {saved.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-600 dark:text-gray-300">Saved credentials</p>
+          {saved.map(credential => (
+            <div
+              key={credential.id}
+              className="p-3 border border-gray-200 dark:border-gray-700 bg-white/70 dark:bg-gray-800/70 rounded-lg"
+            >
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => {
+                    setUnlockingId(unlockingId === credential.id ? null : credential.id);
+                    setUnlockPassphrase('');
+                    setUnlockError(null);
+                  }}
+                  disabled={disabled}
+                  className="flex items-center space-x-2 min-w-0 text-left disabled:opacity-50"
+                >
+                  <KeyRound className="w-4 h-4 flex-shrink-0 text-[#43978D]" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate">{credential.label}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {credential.project_id} · {credential.client_email}
+                      {credential.last_used_at && ` · used ${formatDistanceToNow(new Date(credential.last_used_at), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleRemoveSaved(credential.id)}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Forget these credentials"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {unlockingId === credential.id && (
+                <form onSubmit={handleUnlock} className="mt-2 flex items-center space-x-2">
+                  <input
+                    type="password"
+                    autoFocus
+                    required
+                    value={unlockPassphrase}
+                    onChange={(e) => setUnlockPassphrase(e.target.value)}
+                    placeholder="Passphrase"
+                    autoComplete="current-password"
+                    className={inputClassName}
+                  />
+                  <Button type="submit" size="sm" loading={isBusy} disabled={isBusy}>
+                    Unlock
+                  </Button>
+                </form>
+              )}
+              {unlockingId === credential.id && unlockError && (
+                <p className="mt-1 text-xs text-red-600">{unlockError}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Upload area */}
+      <div
+        className={`p-6 border-2 border-dashed rounded-xl transition-all duration-300 ${
+          dragActive
+            ? 'border-blue-400 bg-blue-50/50 dark:bg-blue-900/20'
+            : 'border-gray-300 dark:border-gray-600 bg-gray-50/50 dark:bg-gray-800/50'
+        }`}
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+      >
+        <div className="text-center">
+          <Upload className="mx-auto h-8 w-8 text-gray-400 dark:text-gray-500 mb-3" />
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+            {saved.length > 0 ? 'Or upload another' : 'Upload your'} Google Earth Engine service-account key (JSON file)
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+            Drag and drop or click to browse
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="text-sm"
+          >
+            Choose File
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {uploadError && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <div>
+                <p>{uploadError.message}</p>
+                {uploadError.issues.length > 0 && (
+                  <ul className="mt-1 list-disc list-inside text-xs">
+                    {uploadError.issues.map(issue => <li key={issue}>{issue}</li>)}
+                  </ul>
+                )}
+              </div>
+            </div>
+            <button onClick={() => setUploadError(null)} aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CredentialsManager;
@@ -9,9 +9,9 @@ import {
   Share2, 
   Eye, 
   Download,
-  Lock,
   Globe,
   Building,
+  Check,
   ExternalLink,
   MoreVertical,
   BarChart3,
@@ -21,9 +21,19 @@ import {
   ImageIcon
 } from 'lucide-react';
 import { format } from 'date-fns';
-import { AnalysisCard as AnalysisCardType } from '@/types/analysis';
+import {
+  AnalysisCard as AnalysisCardType,
+  AnalysisVisibility,
+  VisibilityUpdate,
+  isListedVisibility
+} from '@/types/analysis';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
+import VisibilityBadge, { VISIBILITY_LEVELS, VISIBILITY_OPTIONS } from './VisibilityBadge';
+import PublishDialog from './PublishDialog';
+import useEngagement, { toggleAnalysisLike } from '@/hooks/useEngagement';
+import useResultFileUrl from '@/hooks/useResultFileUrl';
+import { openResultFile } from '@/utils/api';
 import { cn } from '@/utils/cn';
 
 interface QuickAction {
@@ -36,8 +46,10 @@ interface QuickAction {
 interface AnalysisCardProps {
   analysis: AnalysisCardType;
   onView?: (analysis: AnalysisCardType) => void;
-  onLike?: (analysisId: string) => void;
+  onLike?: (analysis: AnalysisCardType) => void;   // Toggles and reports failures; liked in place otherwise
   onShare?: (analysis: AnalysisCardType) => void;
+  // Owners only; publishing asks for confirmation first
+  onVisibilityChange?: (analysis: AnalysisCardType, update: VisibilityUpdate) => Promise<void>;
   className?: string;
   quickActions?: QuickAction[];
   showQuickActions?: boolean;
@@ -48,21 +60,26 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
   onView,
   onLike,
   onShare,
+  onVisibilityChange,
   className,
   quickActions = [],
   showQuickActions = true
 }) => {
-  const [isLiked, setIsLiked] = useState(false);
-  const [likeCount, setLikeCount] = useState(analysis.likes);
+  const engagement = useEngagement(analysis);
+  const thumbnailUrl = useResultFileUrl(analysis.thumbnail_url, analysis.visibility);
   const [showMenu, setShowMenu] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
+  const [publishingAs, setPublishingAs] = useState<AnalysisVisibility | null>(null);
 
   const handleLike = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsLiked(!isLiked);
-    setLikeCount(prev => isLiked ? prev - 1 : prev + 1);
-    onLike?.(analysis.id);
+    if (onLike) {
+      onLike(analysis);
+    } else {
+      // Rolled back on failure
+      toggleAnalysisLike(analysis).catch(() => {});
+    }
   };
 
   const handleShare = (e: React.MouseEvent) => {
@@ -74,6 +91,34 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
     onView?.(analysis);
   };
 
+  const { download_url: downloadUrl, map_url: mapUrl } = analysis;
+
+  // Private files are fetched with the viewer's session before the tab shows them
+  const handleOpenFile = (e: React.MouseEvent, url: string) => {
+    e.stopPropagation();
+    setShowMenu(false);
+    openResultFile(url, analysis.visibility).catch(error => {
+      console.error('Could not open result file:', error);
+    });
+  };
+
+  const handleVisibilitySelect = (visibility: AnalysisVisibility) => {
+    setShowMenu(false);
+    if (!onVisibilityChange || visibility === analysis.visibility) return;
+
+    if (isListedVisibility(visibility)) {
+      setPublishingAs(visibility);
+    } else {
+      // The caller reports failures
+      onVisibilityChange(analysis, { visibility }).catch(() => {});
+    }
+  };
+
+  const handlePublishConfirm = async (update: VisibilityUpdate) => {
+    await onVisibilityChange?.(analysis, update);
+    setPublishingAs(null);
+  };
+
   const getCategoryIcon = () => {
     switch (analysis.category) {
       case 'community_research':
@@ -138,7 +183,7 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
             
             {!imageError ? (
               <img
-                src={analysis.thumbnail_url}
+                src={thumbnailUrl}
                 alt={analysis.title}
                 className={cn(
                   "w-full h-full object-cover group-hover:scale-105 transition-transform duration-500",
@@ -176,17 +221,9 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
           </div>
         </div>
 
-        {/* Privacy indicator */}
+        {/* Visibility */}
         <div className="absolute top-3 right-3">
-          {analysis.is_public ? (
-            <div className="p-1.5 rounded-full bg-white/90 backdrop-blur-sm shadow-sm">
-              <Globe className="w-4 h-4 text-green-600" />
-            </div>
-          ) : (
-            <div className="p-1.5 rounded-full bg-white/90 backdrop-blur-sm shadow-sm">
-              <Lock className="w-4 h-4 text-orange-600" />
-            </div>
-          )}
+          <VisibilityBadge visibility={analysis.visibility} className="shadow-sm" />
         </div>
 
         {/* Session ID indicator (for debugging) */}
@@ -265,7 +302,7 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
                   className="fixed inset-0 z-10" 
                   onClick={() => setShowMenu(false)} 
                 />
-                <Card className="absolute right-0 top-full mt-1 w-40 z-20 py-1 shadow-xl" padding="none">
+                <Card className="absolute right-0 top-full mt-1 w-44 z-20 py-1 shadow-xl" padding="none">
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -278,13 +315,9 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
                     <span>Share</span>
                   </button>
                   
-                  {analysis.download_url && (
+                  {downloadUrl && (
                     <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        window.open(analysis.download_url, '_blank');
-                        setShowMenu(false);
-                      }}
+                      onClick={(e) => handleOpenFile(e, downloadUrl)}
                       className="w-full flex items-center space-x-2 px-3 py-2 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors"
                     >
                       <Download className="w-4 h-4" />
@@ -292,19 +325,38 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
                     </button>
                   )}
                   
-                  {analysis.map_url && (
+                  {mapUrl && (
                     <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        window.open(analysis.map_url, '_blank');
-                        setShowMenu(false);
-                      }}
+                      onClick={(e) => handleOpenFile(e, mapUrl)}
                       className="w-full flex items-center space-x-2 px-3 py-2 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors"
                     >
                       <ExternalLink className="w-4 h-4" />
                       <span>Open Map</span>
                     </button>
                   )}
+
+                  {onVisibilityChange && (
+                    <div className="border-t border-slate-100 mt-1 pt-1">
+                      <p className="px-3 py-1 text-xs font-semibold text-slate-400 uppercase">Visibility</p>
+                      {VISIBILITY_LEVELS.map((visibility) => {
+                        const { label, icon: Icon } = VISIBILITY_OPTIONS[visibility];
+                        return (
+                          <button
+                            key={visibility}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleVisibilitySelect(visibility);
+                            }}
+                            className="w-full flex items-center space-x-2 px-3 py-2 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+                          >
+                            <Icon className="w-4 h-4" />
+                            <span className="flex-1">{label}</span>
+                            {visibility === analysis.visibility && <Check className="w-4 h-4 text-green-600" />}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
                 </Card>
               </>
             )}
@@ -379,25 +431,27 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
           <div className="flex items-center space-x-4 text-xs text-slate-500">
             <div className="flex items-center space-x-1">
               <Eye className="w-3 h-3" />
-              <span>{analysis.views.toLocaleString()}</span>
+              <span>{engagement.views.toLocaleString()}</span>
             </div>
             <div className="flex items-center space-x-1">
               <Share2 className="w-3 h-3" />
-              <span>{analysis.shares}</span>
+              <span>{engagement.shares}</span>
             </div>
           </div>
           
           <button
             onClick={handleLike}
+            aria-pressed={engagement.liked}
+            title={engagement.liked ? 'Remove from favorites' : 'Add to favorites'}
             className={cn(
               'flex items-center space-x-1 px-2 py-1 rounded-md text-xs font-medium transition-all duration-200 hover:scale-105',
-              isLiked 
+              engagement.liked 
                 ? 'text-red-600 bg-red-50 hover:bg-red-100' 
                 : 'text-slate-500 hover:text-red-600 hover:bg-red-50'
             )}
           >
-            <Heart className={cn('w-3 h-3', isLiked && 'fill-current')} />
-            <span>{likeCount}</span>
+            <Heart className={cn('w-3 h-3', engagement.liked && 'fill-current')} />
+            <span>{engagement.likes}</span>
           </button>
         </div>
 
@@ -409,6 +463,13 @@ const AnalysisCard: React.FC<AnalysisCardProps> = ({
         )}
       </div>
 
+      <PublishDialog
+        analysis={analysis}
+        visibility={publishingAs}
+        onConfirm={handlePublishConfirm}
+        onCancel={() => setPublishingAs(null)}
+      />
+
       {/* Hover effect overlay */}
       <div className="absolute inset-0 bg-gradient-to-r from-[#43978D]/5 via-[#F9AD6A]/5 to-[#43978D]/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none" />
     </Card>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   Search, 
   Filter, 
@@ -22,37 +22,69 @@ import {
   Building,
   Sparkles
 } from 'lucide-react';
-import { AnalysisCard as AnalysisCardType } from '@/types/analysis';
+import {
+  AnalysisCard as AnalysisCardType,
+  CommunityCategory,
+  GallerySort,
+  VisibilityUpdate
+} from '@/types/analysis';
+import { AnalysisModalView } from '@/types/ui';
 import AnalysisCard from './AnalysisCard';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
 import LoadingSpinner from '../ui/LoadingSpinner';
 import { cn } from '@/utils/cn';
 import { 
-  openAnalysisMap, 
   downloadAnalysisZip, 
   getAnalysisPreviewUrl, 
-  getAnalysisChartUrl 
+  getAnalysisChartUrl,
+  openResultFile
 } from '@/utils/api';
 import useToast from '@/hooks/useToast';
+import useVirtualGrid from '@/hooks/useVirtualGrid';
 
 interface AnalysisGalleryProps {
   analyses: AnalysisCardType[];
   title: string;
   description?: string;
   loading?: boolean;
-  onAnalysisView?: (analysis: AnalysisCardType) => void;
-  onAnalysisLike?: (analysisId: string) => void;
+  onAnalysisView?: (analysis: AnalysisCardType, view?: AnalysisModalView) => void;
+  onAnalysisLike?: (analysis: AnalysisCardType) => void;
   onAnalysisShare?: (analysis: AnalysisCardType) => void;
+  onAnalysisVisibilityChange?: (analysis: AnalysisCardType, update: VisibilityUpdate) => Promise<void>;
   onRefresh?: () => void;
   className?: string;
   showControls?: boolean;
   emptyStateMessage?: string;
+  // Server-side search and sort: `analyses` arrive already filtered and ordered
+  onSearchChange?: (query: string) => void;
+  onSortChange?: (sort: GallerySort) => void;
+  categories?: { value: CommunityCategory; label: string }[];
+  selectedCategory?: CommunityCategory;
+  onCategoryChange?: (category?: CommunityCategory) => void;
+  // Paged collections
+  totalCount?: number;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-type SortOption = 'newest' | 'oldest' | 'popular' | 'title' | 'location';
 type ViewMode = 'grid' | 'list';
 
+const SEARCH_DEBOUNCE_MS = 300;
+// Smaller collections render every card
+const VIRTUALIZE_AFTER = 60;
+// Start the next page this far before the end comes into view
+const LOAD_MORE_MARGIN = '800px';
+
+// Columns of the grid classes below at a viewport width
+const getGridColumns = (width: number): number => {
+  if (width >= 1280) return 4;
+  if (width >= 1024) return 3;
+  if (width >= 640) return 2;
+  return 1;
+};
+
 const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
   analyses,
   title,
@@ -61,18 +93,42 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
   onAnalysisView,
   onAnalysisLike,
   onAnalysisShare,
+  onAnalysisVisibilityChange,
   onRefresh,
   className,
   showControls = true,
-  emptyStateMessage
+  emptyStateMessage,
+  onSearchChange,
+  onSortChange,
+  categories,
+  selectedCategory,
+  onCategoryChange,
+  totalCount,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>('newest');
+  const [sortBy, setSortBy] = useState<GallerySort>('newest');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [showFilters, setShowFilters] = useState(false);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [gridColumns, setGridColumns] = useState(1);
+  const [autoLoadMore, setAutoLoadMore] = useState(true);
+  const lengthBeforeLoadRef = useRef<number | null>(null);
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
 
   const { showToast } = useToast();
+  const serverSearch = Boolean(onSearchChange);
+  const onSearchChangeRef = useRef(onSearchChange);
+  onSearchChangeRef.current = onSearchChange;
+
+  // Ask the server once typing pauses
+  useEffect(() => {
+    if (!serverSearch) return;
+    const timer = setTimeout(() => onSearchChangeRef.current?.(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery, serverSearch]);
 
   // Extract unique tags from all analyses
   const availableTags = useMemo(() => {
@@ -88,7 +144,7 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
     let filtered = analyses;
 
     // Apply search filter
-    if (searchQuery.trim()) {
+    if (searchQuery.trim() && !serverSearch) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(analysis => 
         analysis.title.toLowerCase().includes(query) ||
@@ -108,6 +164,10 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
     }
 
     // Apply sorting
+    if (onSortChange) {
+      return filtered;
+    }
+
     const sorted = [...filtered].sort((a, b) => {
       switch (sortBy) {
         case 'newest':
@@ -126,7 +186,65 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
     });
 
     return sorted;
-  }, [analyses, searchQuery, sortBy, selectedTags]);
+  }, [analyses, searchQuery, sortBy, selectedTags, serverSearch, onSortChange]);
+
+  useEffect(() => {
+    const updateColumns = () => setGridColumns(getGridColumns(window.innerWidth));
+    updateColumns();
+    window.addEventListener('resize', updateColumns);
+    return () => window.removeEventListener('resize', updateColumns);
+  }, []);
+
+  const { containerRef, start, end, paddingTop, paddingBottom } = useVirtualGrid({
+    count: filteredAndSortedAnalyses.length,
+    columns: viewMode === 'grid' ? gridColumns : 1,
+    gap: viewMode === 'grid' ? 24 : 16,
+    estimatedRowHeight: 440,
+    enabled: filteredAndSortedAnalyses.length > VIRTUALIZE_AFTER
+  });
+  const visibleAnalyses = filteredAndSortedAnalyses.slice(start, end);
+
+  // A page that failed or added nothing would be asked for again at once;
+  // wait for the button instead
+  useEffect(() => {
+    if (loadingMore) {
+      lengthBeforeLoadRef.current = analyses.length;
+      return;
+    }
+    if (lengthBeforeLoadRef.current !== null) {
+      setAutoLoadMore(analyses.length > lengthBeforeLoadRef.current);
+      lengthBeforeLoadRef.current = null;
+    }
+  }, [loadingMore, analyses.length]);
+
+  const handleLoadMore = () => {
+    setAutoLoadMore(true);
+    onLoadMore?.();
+  };
+
+  // Infinite scroll: fetch the next page as the end of the list comes near.
+  // A new observer reports at once, so short pages keep loading until the
+  // sentinel leaves the margin.
+  const canLoadMore = Boolean(onLoadMore) && hasMore && autoLoadMore && !loadingMore && !loading;
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!canLoadMore || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMoreRef.current?.();
+      }
+    }, { rootMargin: LOAD_MORE_MARGIN });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, filteredAndSortedAnalyses.length]);
+
+  const isFiltered = filteredAndSortedAnalyses.length !== analyses.length
+    || (serverSearch && searchQuery.trim() !== '')
+    || selectedCategory !== undefined;
 
   const handleTagToggle = (tag: string) => {
     setSelectedTags(prev => 
@@ -139,7 +257,13 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
   const clearFilters = () => {
     setSearchQuery('');
     setSelectedTags([]);
-    setSortBy('newest');
+    handleSortChange('newest');
+    onCategoryChange?.(undefined);
+  };
+
+  const handleSortChange = (sort: GallerySort) => {
+    setSortBy(sort);
+    onSortChange?.(sort);
   };
 
   const getSortIcon = () => {
@@ -161,15 +285,16 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
   // Enhanced analysis actions
   const handleQuickView = (analysis: AnalysisCardType, type: 'map' | 'chart') => {
     try {
-      if (type === 'map' && analysis.map_url) {
-        openAnalysisMap(analysis.session_id);
-        showToast({
-          type: 'info',
-          title: 'Opening Map',
-          message: `Interactive map for ${analysis.location_name}`
-        });
+      if (type === 'map' && analysis.session_id) {
+        onAnalysisView?.(analysis, 'map');
       } else if (type === 'chart' && analysis.chart_url) {
-        window.open(analysis.chart_url, '_blank');
+        openResultFile(analysis.chart_url, analysis.visibility).catch(() => {
+          showToast({
+            type: 'error',
+            title: 'Failed to Open',
+            message: 'Could not access the requested file'
+          });
+        });
         showToast({
           type: 'info',
           title: 'Opening Chart',
@@ -209,7 +334,8 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
     }
   };
 
-  if (loading) {
+  // Server-side galleries keep their controls while results load
+  if (loading && !serverSearch) {
     return (
       <div className={cn('space-y-6', className)}>
         <Card className="text-center py-16">
@@ -233,8 +359,8 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
             <p className="text-slate-600 mb-4">{description}</p>
           )}
           <div className="flex items-center justify-center space-x-4 text-sm text-slate-500">
-            <span>{filteredAndSortedAnalyses.length} of {analyses.length} analyses</span>
-            {filteredAndSortedAnalyses.length !== analyses.length && (
+            <span>{filteredAndSortedAnalyses.length} of {totalCount !== undefined ? totalCount : analyses.length} analyses</span>
+            {isFiltered && (
               <span className="text-[#43978D] font-medium">• Filtered</span>
             )}
           </div>
@@ -279,7 +405,7 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
               <div className="relative">
                 <select
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as SortOption)}
+                  onChange={(e) => handleSortChange(e.target.value as GallerySort)}
                   className="appearance-none bg-white border border-slate-200 rounded-xl px-4 py-3 pr-8 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 min-w-[140px]"
                 >
                   <option value="newest">Newest First</option>
@@ -336,6 +462,26 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
             </div>
           </div>
 
+          {/* Categories */}
+          {categories && categories.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {[{ value: undefined, label: 'All' }, ...categories].map(({ value, label }) => (
+                <button
+                  key={label}
+                  onClick={() => onCategoryChange?.(value)}
+                  className={cn(
+                    'px-3 py-1.5 text-sm rounded-full border transition-colors',
+                    selectedCategory === value
+                      ? 'bg-[#43978D] text-white border-[#43978D]'
+                      : 'bg-white text-slate-700 border-slate-200 hover:border-[#43978D]/50'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Expanded Filters */}
           {showFilters && (
             <div className="mt-4 pt-4 border-t border-slate-200">
@@ -345,7 +491,7 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
                     <Sparkles className="w-4 h-4 mr-2 text-green-500" />
                     Filter by Tags
                   </h4>
-                  {(selectedTags.length > 0 || searchQuery) && (
+                  {(selectedTags.length > 0 || searchQuery || selectedCategory) && (
                     <Button
                       variant="ghost"
                       size="sm"
@@ -383,28 +529,32 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
       )}
 
       {/* Results */}
-      {filteredAndSortedAnalyses.length === 0 ? (
+      {loading ? (
+        <Card className="text-center py-16">
+          <LoadingSpinner size="lg" className="mx-auto mb-4" />
+          <p className="text-gray-600">Loading analyses...</p>
+        </Card>
+      ) : filteredAndSortedAnalyses.length === 0 ? (
         <Card className="text-center py-16">
           <div className="w-20 h-20 bg-gradient-to-br from-slate-400 to-slate-600 rounded-full flex items-center justify-center mx-auto mb-6">
             <Search className="w-10 h-10 text-white" />
           </div>
           <h3 className="text-2xl font-bold text-slate-900 mb-4">
-            {analyses.length === 0 ? 'No analyses yet' : 'No matching analyses'}
+            {analyses.length === 0 && !isFiltered ? 'No analyses yet' : 'No matching analyses'}
           </h3>
           <p className="text-slate-600 mb-6 max-w-md mx-auto">
-            {emptyStateMessage || 
-             (searchQuery || selectedTags.length > 0
+            {isFiltered
               ? 'Try adjusting your search criteria or clearing filters.'
-              : 'Create your first NDVI analysis to see results here.'
-            )}
+              : emptyStateMessage || 'Create your first NDVI analysis to see results here.'
+            }
           </p>
           <div className="flex flex-col sm:flex-row gap-3 justify-center">
-            {(searchQuery || selectedTags.length > 0) && (
+            {isFiltered && (
               <Button variant="outline" onClick={clearFilters}>
                 Clear Filters
               </Button>
             )}
-            {analyses.length === 0 && (
+            {analyses.length === 0 && !isFiltered && (
               <Button variant="primary" onClick={() => window.location.reload()}>
                 <Sparkles className="w-4 h-4 mr-2" />
                 Create Analysis
@@ -416,19 +566,22 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
         <>
           {/* Gallery Grid */}
           <div 
+            ref={containerRef}
             className={cn(
               viewMode === 'grid' 
                 ? 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6' 
                 : 'space-y-4'
             )}
+            style={{ paddingTop, paddingBottom }}
           >
-            {filteredAndSortedAnalyses.map((analysis) => (
+            {visibleAnalyses.map((analysis) => (
               <AnalysisCard
                 key={analysis.id}
                 analysis={analysis}
                 onView={onAnalysisView}
                 onLike={onAnalysisLike}
                 onShare={onAnalysisShare}
+                onVisibilityChange={onAnalysisVisibilityChange}
                 className={cn(
                   'group relative',
                   viewMode === 'list' ? 'max-w-none' : ''
@@ -458,8 +611,17 @@ const AnalysisGallery: React.FC<AnalysisGalleryProps> = ({
             ))}
           </div>
 
+          {/* Next page; the button remains for browsers without IntersectionObserver */}
+          {onLoadMore && hasMore && (
+            <div ref={loadMoreSentinelRef} className="flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} loading={loadingMore} disabled={loadingMore}>
+                Load more
+              </Button>
+            </div>
+          )}
+
           {/* Load more hint (for future pagination) */}
-          {filteredAndSortedAnalyses.length >= 20 && (
+          {!onLoadMore && filteredAndSortedAnalyses.length >= 20 && (
             <Card className="text-center py-8 bg-gradient-to-r from-slate-50 to-orange-50 border-[#43978D]/30">
               <p className="text-slate-600 mb-4">
                 Showing {filteredAndSortedAnalyses.length} analyses
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { AnalysisCard, AnalysisVisibility, VisibilityUpdate } from '@/types/analysis';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import { VISIBILITY_OPTIONS } from './VisibilityBadge';
+
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_DESCRIPTION_LENGTH = 500;
+
+interface PublishDialogProps {
+  analysis: AnalysisCard;
+  visibility: AnalysisVisibility | null;   // Level being published to; null hides the dialog
+  onConfirm: (update: VisibilityUpdate) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation before an analysis is listed for others, with the title and
+ * description they will see
+ */
+const PublishDialog: React.FC<PublishDialogProps> = ({
+  analysis,
+  visibility,
+  onConfirm,
+  onCancel
+}) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from the current values every time the dialog opens
+  useEffect(() => {
+    if (visibility) {
+      setTitle(analysis.title);
+      setDescription(analysis.description);
+    }
+  }, [visibility, analysis.title, analysis.description]);
+
+  if (!visibility) return null;
+
+  const option = VISIBILITY_OPTIONS[visibility];
+  const Icon = option.icon;
+  const audience = visibility === 'public'
+    ? 'everyone in the community gallery'
+    : 'members of your organization';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onConfirm({ visibility, title: title.trim(), description: description.trim() });
+    } catch {
+      // The caller reports the failure; keep the dialog open to retry
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#43978D]';
+
+  // Portalled: blurred and clipped cards would trap a fixed overlay.
+  // React still bubbles its events to the card or modal, so they stop here.
+  return createPortal(
+    <div className="fixed inset-0 z-[60] overflow-y-auto cursor-default" onClick={(e) => e.stopPropagation()}>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onCancel} />
+
+      <div className="relative min-h-screen flex items-center justify-center p-4">
+        <Card className="relative w-full max-w-lg" padding="none">
+          <div className="flex items-center justify-between p-6 border-b border-slate-200">
+            <h2 className="text-xl font-bold text-slate-900 flex items-center">
+              <Icon className="w-5 h-5 mr-2" />
+              Publish as {option.label}
+            </h2>
+            <button
+              onClick={onCancel}
+              className="p-2 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <p className="text-sm text-slate-600">
+              This analysis, its map, charts and files will be listed for {audience}.
+              You can make it private again at any time.
+            </p>
+
+            <div>
+              <label htmlFor="publish-title" className="block text-sm font-medium text-slate-700 mb-1">Title</label>
+              <input
+                id="publish-title"
+                type="text"
+                required
+                maxLength={MAX_TITLE_LENGTH}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="publish-description" className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+              <textarea
+                id="publish-description"
+                required
+                rows={4}
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" loading={isSubmitting} disabled={isSubmitting || !title.trim()}>
+                Publish
+              </Button>
+            </div>
+          </form>
+        </Card>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PublishDialog;
@@ -0,0 +1,67 @@
+'use client';
+
+import { Lock, Link2, Building, Globe } from 'lucide-react';
+import { AnalysisVisibility } from '@/types/analysis';
+import { cn } from '@/utils/cn';
+
+export const VISIBILITY_OPTIONS: Record<AnalysisVisibility, {
+  label: string;
+  description: string;
+  icon: React.ComponentType<{ className?: string }>;
+  className: string;
+}> = {
+  private: {
+    label: 'Private',
+    description: 'Only you can open it',
+    icon: Lock,
+    className: 'text-slate-700 bg-slate-100',
+  },
+  unlisted: {
+    label: 'Unlisted',
+    description: 'Anyone with the link can open it',
+    icon: Link2,
+    className: 'text-blue-700 bg-blue-100',
+  },
+  organization: {
+    label: 'Organization',
+    description: 'Listed for members of your organization',
+    icon: Building,
+    className: 'text-purple-700 bg-purple-100',
+  },
+  public: {
+    label: 'Public',
+    description: 'Listed in the community gallery for everyone',
+    icon: Globe,
+    className: 'text-green-700 bg-green-100',
+  },
+};
+
+export const VISIBILITY_LEVELS: AnalysisVisibility[] = ['private', 'unlisted', 'organization', 'public'];
+
+interface VisibilityBadgeProps {
+  visibility: AnalysisVisibility;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const VisibilityBadge: React.FC<VisibilityBadgeProps> = ({ visibility, size = 'sm', className }) => {
+  const option = VISIBILITY_OPTIONS[visibility];
+  const Icon = option.icon;
+
+  return (
+    <div
+      className={cn(
+        'inline-flex items-center space-x-1 rounded-full font-medium backdrop-blur-sm',
+        size === 'sm' ? 'px-2 py-1 text-xs' : 'px-3 py-1 text-sm',
+        option.className,
+        className
+      )}
+      title={option.description}
+    >
+      <Icon className={size === 'sm' ? 'w-3 h-3' : 'w-4 h-4'} />
+      <span>{option.label}</span>
+    </div>
+  );
+};
+
+export default VisibilityBadge;
@@ -0,0 +1,184 @@
+'use client';
+
+import {
+  Activity,
+  CheckCircle,
+  AlertCircle,
+  XCircle,
+  Loader2,
+  ExternalLink,
+  RotateCcw,
+  StopCircle,
+  Trash2
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { TrackedJob } from '@/types/analysis';
+import { isJobActive } from '@/utils/job-registry';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import { cn } from '@/utils/cn';
+
+interface RunningJobsPanelProps {
+  jobs: TrackedJob[];
+  onOpen?: (job: TrackedJob) => void;
+  onCancel?: (id: string) => void;
+  onRetry?: (job: TrackedJob) => void;
+  onRemove?: (id: string) => void;
+  onClearFinished?: () => void;
+  className?: string;
+}
+
+const RunningJobsPanel: React.FC<RunningJobsPanelProps> = ({
+  jobs,
+  onOpen,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFinished,
+  className
+}) => {
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(isJobActive).length;
+  const hasFinished = activeCount < jobs.length;
+
+  const getStatusIcon = (job: TrackedJob) => {
+    switch (job.status) {
+      case 'completed':
+        return <CheckCircle className="w-5 h-5 text-green-600" />;
+      case 'failed':
+        return <AlertCircle className="w-5 h-5 text-red-600" />;
+      case 'cancelled':
+        return <XCircle className="w-5 h-5 text-slate-500" />;
+      default:
+        return <Loader2 className="w-5 h-5 text-[#43978D] animate-spin" />;
+    }
+  };
+
+  const getStatusLabel = (job: TrackedJob) => {
+    switch (job.status) {
+      case 'submitting':
+        return 'Submitting';
+      case 'queued':
+        return 'Queued';
+      case 'running':
+        return 'Running';
+      case 'completed':
+        return 'Completed';
+      case 'failed':
+        return 'Failed';
+      case 'cancelled':
+        return 'Cancelled';
+      default:
+        return job.status;
+    }
+  };
+
+  return (
+    <Card padding="sm" className={cn('backdrop-blur-xl bg-white/90 text-left', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-slate-900 flex items-center">
+          <Activity className="w-5 h-5 mr-2 text-[#43978D]" />
+          Running jobs
+          {activeCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 text-xs bg-[#43978D]/10 text-[#264D59] rounded-full">
+              {activeCount} active
+            </span>
+          )}
+        </h3>
+        {hasFinished && onClearFinished && (
+          <Button variant="ghost" size="sm" onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </div>
+
+      <ul className="space-y-3">
+        {jobs.map((job) => (
+          <li key={job.id} className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+            <div className="flex items-start space-x-3">
+              <div className="flex-shrink-0 mt-0.5">{getStatusIcon(job)}</div>
+
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-900 line-clamp-2">{job.query}</p>
+                <div className="flex items-center space-x-2 mt-1 text-xs text-slate-500">
+                  <span className="font-medium">{getStatusLabel(job)}</span>
+                  <span>•</span>
+                  <span>
+                    {formatDistanceToNow(new Date(job.finished_at || job.created_at), { addSuffix: true })}
+                  </span>
+                  {job.session_id && (
+                    <>
+                      <span>•</span>
+                      <code className="font-mono">{job.session_id.substring(0, 8)}</code>
+                    </>
+                  )}
+                </div>
+
+                {isJobActive(job) && (
+                  <div className="mt-2">
+                    <div className="flex items-center justify-between text-xs text-slate-600 mb-1">
+                      <span className="truncate">{job.message || 'Waiting for backend...'}</span>
+                      <span className="ml-2">{Math.round(job.progress)}%</span>
+                    </div>
+                    <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-[#43978D] to-[#F9AD6A] rounded-full transition-all duration-500"
+                        style={{ width: `${Math.min(Math.max(job.progress, 0), 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {job.status === 'failed' && job.error && (
+                  <p className="mt-1 text-xs text-red-600">{job.error}</p>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                {job.status === 'completed' && (job.result || job.session_id) && onOpen && (
+                  <button
+                    onClick={() => onOpen(job)}
+                    className="p-1.5 rounded-md text-slate-600 hover:text-[#264D59] hover:bg-white transition-colors"
+                    title="Open analysis"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </button>
+                )}
+                {isJobActive(job) && onCancel && (
+                  <button
+                    onClick={() => onCancel(job.id)}
+                    className="p-1.5 rounded-md text-slate-600 hover:text-red-600 hover:bg-white transition-colors"
+                    title="Cancel analysis"
+                  >
+                    <StopCircle className="w-4 h-4" />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && onRetry && (
+                  <button
+                    onClick={() => onRetry(job)}
+                    className="p-1.5 rounded-md text-slate-600 hover:text-[#264D59] hover:bg-white transition-colors"
+                    title="Retry analysis"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+                {!isJobActive(job) && onRemove && (
+                  <button
+                    onClick={() => onRemove(job.id)}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-white transition-colors"
+                    title="Remove from list"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+};
+
+export default RunningJobsPanel;
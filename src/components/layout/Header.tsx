@@ -11,16 +11,20 @@ import {
   X,
   Satellite,
   History,
+  Heart,
   Database,
   DollarSign,
   Github,
   Sparkles,
   LogOut,
+  LogIn,
   Settings
 } from 'lucide-react';
 import Button from '../ui/Button';
 import Card from '../ui/Card';
-import { getUserId } from '@/utils/api';
+import SignInModal from '../auth/SignInModal';
+import { clearUserData, getApiCapabilities, getUserId } from '@/utils/api';
+import useAuth from '@/hooks/useAuth';
 
 interface HeaderProps {
   activeTab?: string;
@@ -30,12 +34,31 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange }) => {
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSignInOpen, setIsSignInOpen] = useState(false);
+  const [authAvailable, setAuthAvailable] = useState(false);
+  const [favoritesAvailable, setFavoritesAvailable] = useState(false);
   const [userId, setUserId] = useState<string>('');
   const router = useRouter();
+  const { user, isSignedIn, signIn, signUp, signInWithProvider, signOut } = useAuth();
 
   // Initialize user ID on client side only
   useEffect(() => {
     setUserId(getUserId());
+  }, [user]);
+
+  // Backends without accounts keep the anonymous session only, and those
+  // without likes have no favorites
+  useEffect(() => {
+    let active = true;
+    getApiCapabilities().then(capabilities => {
+      if (active) {
+        setAuthAvailable(capabilities.auth);
+        setFavoritesAvailable(capabilities.engagement);
+      }
+    });
+    return () => {
+      active = false;
+    };
   }, []);
 
   // Simplified navigation - only core features
@@ -47,6 +70,13 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange }) => {
       description: 'Your analysis history',
       color: 'from-[#43978D] to-[#F9AD6A]'
     },
+    {
+      id: 'favorites',
+      label: 'My Favorites',
+      icon: Heart,
+      description: 'Analyses you liked',
+      color: 'from-[#43978D] to-[#F9AD6A]'
+    },
     {
       id: 'community',
       label: 'Community Research',
@@ -61,7 +91,7 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange }) => {
       description: 'Plans and pricing',
       color: 'from-[#43978D] to-[#F9AD6A]'
     },
-  ];
+  ].filter(item => item.id !== 'favorites' || favoritesAvailable);
 
   const handleTabClick = (tabId: string) => {
     if (onTabChange) {
@@ -75,10 +105,21 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange }) => {
   };
 
   const handleClearUserData = () => {
-    localStorage.removeItem('geoanalytics_user_id');
+    clearUserData();
     window.location.reload();
   };
 
+  const handleSignOut = async () => {
+    setIsProfileOpen(false);
+    await signOut();
+  };
+
+  const openSignIn = () => {
+    setIsProfileOpen(false);
+    setIsMobileMenuOpen(false);
+    setIsSignInOpen(true);
+  };
+
   const handleGitHubClick = () => {
     window.open('https://github.com/yourusername/geoanalytics-platform', '_blank');
   };
@@ -126,6 +167,13 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange }) => {
                 <Globe className="w-5 h-5" />
               </button>
 
+              {authAvailable && !isSignedIn && (
+                <Button size="sm" variant="ghost" onClick={openSignIn} className="hidden sm:inline-flex">
+                  <LogIn className="w-4 h-4 mr-2" />
+                  Sign in
+                </Button>
+              )}
+
               {/* Profile dropdown */}
               <div className="relative">
                 <button
@@ -154,12 +202,23 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange }) => {
                           <div className="w-12 h-12 bg-gradient-to-br from-slate-400 to-slate-600 rounded-xl flex items-center justify-center shadow-lg">
                             <User className="w-6 h-6 text-white" />
                           </div>
-                          <div>
-                            <p className="font-semibold text-slate-900">Research User</p>
-                            <p className="text-sm text-slate-600 font-mono">{userId || 'Loading...'}</p>
+                          <div className="min-w-0">
+                            {isSignedIn && user ? (
+                              <>
+                                <p className="font-semibold text-slate-900 truncate">{user.name || user.email}</p>
+                                <p className="text-sm text-slate-600 truncate">{user.email}</p>
+                              </>
+                            ) : (
+                              <>
+                                <p className="font-semibold text-slate-900">Research User</p>
+                                <p className="text-sm text-slate-600 font-mono">{userId || 'Loading...'}</p>
+                              </>
+                            )}
                             <div className="flex items-center space-x-1 mt-1">
                               <div className="w-2 h-2 bg-[#43978D] rounded-full" />
-                              <span className="text-xs text-[#264D59] font-medium">Session Active</span>
+                              <span className="text-xs text-[#264D59] font-medium">
+                                {isSignedIn ? 'Signed In' : 'Anonymous Session'}
+                              </span>
                             </div>
                           </div>
                         </div>
@@ -192,20 +251,52 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange }) => {
                             </div>
                           </button>
                           
-                          {/* Clear user data */}
                           <hr className="my-2 border-slate-200" />
-                          <button 
-                            onClick={handleClearUserData}
-                            className="w-full flex items-center space-x-3 px-3 py-3 text-left text-red-700 hover:bg-red-50 rounded-lg transition-all duration-200 group"
-                          >
-                            <div className="p-1.5 bg-red-100 rounded-lg">
-                              <LogOut className="w-4 h-4 text-red-600" />
-                            </div>
-                            <div>
-                              <div className="font-medium">Reset Session</div>
-                              <div className="text-xs text-red-600">Clear user data & reload</div>
-                            </div>
-                          </button>
+                          {isSignedIn ? (
+                            <button
+                              onClick={handleSignOut}
+                              className="w-full flex items-center space-x-3 px-3 py-3 text-left text-red-700 hover:bg-red-50 rounded-lg transition-all duration-200 group"
+                            >
+                              <div className="p-1.5 bg-red-100 rounded-lg">
+                                <LogOut className="w-4 h-4 text-red-600" />
+                              </div>
+                              <div>
+                                <div className="font-medium">Sign Out</div>
+                                <div className="text-xs text-red-600">End your session on this device</div>
+                              </div>
+                            </button>
+                          ) : (
+                            <>
+                              {authAvailable && (
+                                <button
+                                  onClick={openSignIn}
+                                  className="w-full flex items-center space-x-3 px-3 py-3 text-left text-slate-700 hover:bg-slate-100/80 rounded-lg transition-all duration-200 group"
+                                >
+                                  <div className="p-1.5 bg-gradient-to-r from-[#43978D] to-[#F9AD6A] rounded-lg">
+                                    <LogIn className="w-4 h-4 text-white" />
+                                  </div>
+                                  <div>
+                                    <div className="font-medium group-hover:text-slate-900">Sign In</div>
+                                    <div className="text-xs text-slate-500">Keep your analyses across devices</div>
+                                  </div>
+                                </button>
+                              )}
+
+                              {/* Clear user data */}
+                              <button
+                                onClick={handleClearUserData}
+                                className="w-full flex items-center space-x-3 px-3 py-3 text-left text-red-700 hover:bg-red-50 rounded-lg transition-all duration-200 group"
+                              >
+                                <div className="p-1.5 bg-red-100 rounded-lg">
+                                  <LogOut className="w-4 h-4 text-red-600" />
+                                </div>
+                                <div>
+                                  <div className="font-medium">Reset Session</div>
+                                  <div className="text-xs text-red-600">Clear user data & reload</div>
+                                </div>
+                              </button>
+                            </>
+                          )}
                         </div>
                       </div>
                     </Card>
@@ -260,12 +351,41 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange }) => {
             {/* Mobile user info */}
             <div className="mt-4 pt-4 border-t border-slate-200">
               <div className="px-4 py-3 text-sm text-slate-600">
-                User ID: {userId ? userId.substring(0, 12) + '...' : 'Loading...'}
+                {isSignedIn && user
+                  ? `Signed in as ${user.email}`
+                  : `User ID: ${userId ? userId.substring(0, 12) + '...' : 'Loading...'}`}
               </div>
+              {isSignedIn ? (
+                <button
+                  onClick={handleSignOut}
+                  className="w-full text-left px-4 py-3 rounded-lg text-red-700 hover:bg-red-50 transition-colors"
+                >
+                  Sign out
+                </button>
+              ) : authAvailable && (
+                <button
+                  onClick={openSignIn}
+                  className="w-full text-left px-4 py-3 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
+                >
+                  Sign in
+                </button>
+              )}
             </div>
           </Card>
         </>
       )}
+
+      <SignInModal
+        isOpen={isSignInOpen}
+        onClose={() => setIsSignInOpen(false)}
+        onSignIn={async (email, password) => {
+          await signIn({ email, password });
+        }}
+        onRegister={async (email, password, name) => {
+          await signUp({ email, password, name: name || undefined });
+        }}
+        onProviderSignIn={signInWithProvider}
+      />
     </header>
   );
 };
@@ -0,0 +1,45 @@
+'use client';
+
+import { TileLayer, WMSTileLayer } from 'react-leaflet';
+import { BasemapDefinition } from '@/types/map';
+import { getWMTSTemplate } from '@/utils/basemaps';
+
+interface BasemapLayerProps {
+  basemap: BasemapDefinition;
+}
+
+/**
+ * Renders an XYZ, WMS or WMTS basemap as a leaflet tile layer
+ */
+const BasemapLayer: React.FC<BasemapLayerProps> = ({ basemap }) => {
+  // Tile layer options are only read on creation, so remount when the source changes
+  const key = [basemap.id, basemap.kind, basemap.url, basemap.layers, basemap.tileMatrixSet].join('|');
+
+  if (basemap.kind === 'wms') {
+    return (
+      <WMSTileLayer
+        key={key}
+        url={basemap.url}
+        attribution={basemap.attribution}
+        maxZoom={basemap.maxZoom || 19}
+        params={{
+          layers: basemap.layers || '',
+          format: basemap.format || 'image/png',
+          transparent: false,
+        }}
+      />
+    );
+  }
+
+  return (
+    <TileLayer
+      key={key}
+      url={basemap.kind === 'wmts' ? getWMTSTemplate(basemap) : basemap.url}
+      attribution={basemap.attribution}
+      maxZoom={basemap.maxZoom || 19}
+      subdomains={basemap.subdomains || 'abc'}
+    />
+  );
+};
+
+export default BasemapLayer;
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Layers, X } from 'lucide-react';
+import { BasemapDefinition, BasemapKind, BasemapPreference } from '@/types/map';
+import { CUSTOM_BASEMAP_ID, getBuiltInBasemaps, resolveBasemap, validateBasemap } from '@/utils/basemaps';
+import { cn } from '@/utils/cn';
+import Button from '../ui/Button';
+import Card from '../ui/Card';
+
+interface BasemapSwitcherProps {
+  preference: BasemapPreference;
+  onChange: (preference: BasemapPreference) => void;
+  className?: string;
+}
+
+const kindLabels: Record<BasemapKind, string> = {
+  xyz: 'XYZ',
+  wms: 'WMS',
+  wmts: 'WMTS',
+};
+
+const urlPlaceholders: Record<BasemapKind, string> = {
+  xyz: 'http://localhost:8080/tiles/{z}/{x}/{y}.png',
+  wms: 'https://example.com/geoserver/wms',
+  wmts: 'https://example.com/wmts/{Layer}/default/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.png',
+};
+
+const inputClassName = 'w-full px-2 py-1.5 text-xs border border-primary-200 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-accent-500';
+
+/**
+ * Basemap picker with built-in layers and a user-defined XYZ/WMS/WMTS source
+ */
+const BasemapSwitcher: React.FC<BasemapSwitcherProps> = ({
+  preference,
+  onChange,
+  className = ''
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<BasemapDefinition>(preference.custom || {
+    id: CUSTOM_BASEMAP_ID,
+    name: 'Custom layer',
+    kind: 'xyz',
+    url: '',
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const builtIns = getBuiltInBasemaps();
+  const active = resolveBasemap(preference);
+  const activeId = preference.basemapId === CUSTOM_BASEMAP_ID && preference.custom
+    ? CUSTOM_BASEMAP_ID
+    : active?.id;
+
+  const updateDraft = (patch: Partial<BasemapDefinition>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setError(null);
+  };
+
+  const handleApplyCustom = () => {
+    const custom = { ...draft, url: draft.url.trim(), layers: draft.layers?.trim() || undefined };
+    const validationError = validateBasemap(custom);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onChange({ basemapId: CUSTOM_BASEMAP_ID, custom });
+  };
+
+  return (
+    <div className={className}>
+      {isOpen ? (
+        <Card glass padding="sm" className="w-72 max-h-[360px] overflow-y-auto">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium text-primary-900 text-sm">Basemap</h4>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="p-1 rounded text-primary-500 hover:text-primary-800"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            {builtIns.map(basemap => (
+              <button
+                key={basemap.id}
+                type="button"
+                onClick={() => onChange({ ...preference, basemapId: basemap.id })}
+                className={cn(
+                  'w-full flex items-center justify-between px-2 py-1.5 rounded-md text-sm text-left transition-colors',
+                  activeId === basemap.id
+                    ? 'bg-accent-100 text-accent-900'
+                    : 'text-primary-700 hover:bg-primary-50'
+                )}
+              >
+                <span>{basemap.name}</span>
+                {activeId === basemap.id && <Check className="w-4 h-4" />}
+              </button>
+            ))}
+            {preference.custom && (
+              <button
+                type="button"
+                onClick={() => onChange({ ...preference, basemapId: CUSTOM_BASEMAP_ID })}
+                className={cn(
+                  'w-full flex items-center justify-between px-2 py-1.5 rounded-md text-sm text-left transition-colors',
+                  activeId === CUSTOM_BASEMAP_ID
+                    ? 'bg-accent-100 text-accent-900'
+                    : 'text-primary-700 hover:bg-primary-50'
+                )}
+              >
+                <span className="truncate">{preference.custom.name} ({kindLabels[preference.custom.kind]})</span>
+                {activeId === CUSTOM_BASEMAP_ID && <Check className="w-4 h-4 flex-shrink-0" />}
+              </button>
+            )}
+          </div>
+
+          {/* Custom layer */}
+          <div className="mt-3 pt-3 border-t border-primary-100 space-y-2">
+            <p className="text-xs font-medium text-primary-700">Custom layer or local tile server</p>
+
+            <div className="flex space-x-1">
+              {(Object.keys(kindLabels) as BasemapKind[]).map(kind => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => updateDraft({ kind })}
+                  className={cn(
+                    'flex-1 px-2 py-1 text-xs rounded-md border transition-colors',
+                    draft.kind === kind
+                      ? 'border-accent-500 bg-accent-50 text-accent-800'
+                      : 'border-primary-200 text-primary-600 hover:bg-primary-50'
+                  )}
+                >
+                  {kindLabels[kind]}
+                </button>
+              ))}
+            </div>
+
+            <input
+              type="url"
+              value={draft.url}
+              onChange={(e) => updateDraft({ url: e.target.value })}
+              placeholder={urlPlaceholders[draft.kind]}
+              className={inputClassName}
+            />
+
+            {draft.kind !== 'xyz' && (
+              <input
+                type="text"
+                value={draft.layers || ''}
+                onChange={(e) => updateDraft({ layers: e.target.value })}
+                placeholder={draft.kind === 'wms' ? 'Layer names, comma separated' : 'Layer identifier'}
+                className={inputClassName}
+              />
+            )}
+
+            {draft.kind === 'wmts' && (
+              <input
+                type="text"
+                value={draft.tileMatrixSet || ''}
+                onChange={(e) => updateDraft({ tileMatrixSet: e.target.value })}
+                placeholder="Tile matrix set (default GoogleMapsCompatible)"
+                className={inputClassName}
+              />
+            )}
+
+            <input
+              type="text"
+              value={draft.attribution || ''}
+              onChange={(e) => updateDraft({ attribution: e.target.value || undefined })}
+              placeholder="Attribution (optional)"
+              className={inputClassName}
+            />
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            <Button size="sm" fullWidth onClick={handleApplyCustom} disabled={!draft.url.trim()}>
+              Use custom layer
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsOpen(true)}
+          className="flex items-center space-x-2 px-3 py-2 bg-white/90 backdrop-blur-sm rounded-lg shadow-lg border border-primary-200 text-sm text-primary-800 hover:bg-white transition-colors"
+          title="Change basemap"
+        >
+          <Layers className="w-4 h-4" />
+          <span>{activeId === CUSTOM_BASEMAP_ID ? preference.custom?.name : active?.name || 'Basemap'}</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BasemapSwitcher;
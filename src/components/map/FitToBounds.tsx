@@ -0,0 +1,26 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+
+interface FitToBoundsProps {
+  bounds: L.LatLngBounds | null;
+}
+
+/**
+ * Fit the surrounding map to the given bounds whenever they change
+ */
+const FitToBounds: React.FC<FitToBoundsProps> = ({ bounds }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (bounds && bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [16, 16] });
+    }
+  }, [map, bounds]);
+
+  return null;
+};
+
+export default FitToBounds;
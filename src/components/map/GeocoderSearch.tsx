@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, MapPin, Search, X } from 'lucide-react';
+import { GeocodeResult, Geocoder } from '@/types/map';
+import Card from '../ui/Card';
+
+interface GeocoderSearchProps {
+  geocoder: Geocoder;
+  onPreview: (result: GeocodeResult | null) => void;
+  onUseArea: (result: GeocodeResult, useBoundary: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Place-name search that previews a result and proposes it as an area of interest
+ * Searches on submit only; public Nominatim does not allow search-as-you-type
+ */
+const GeocoderSearch: React.FC<GeocoderSearchProps> = ({
+  geocoder,
+  onPreview,
+  onUseArea,
+  className = ''
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodeResult[] | null>(null);
+  const [selected, setSelected] = useState<GeocodeResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    setSelected(null);
+    onPreview(null);
+
+    try {
+      const found = await geocoder.search(trimmed, { signal: controller.signal });
+      setResults(found);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Place search failed:', err);
+      setError('Place search is unavailable right now. Draw the area instead.');
+      setResults(null);
+    } finally {
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const handleSelect = (result: GeocodeResult) => {
+    setSelected(result);
+    setResults(null);
+    onPreview(result);
+  };
+
+  const handleDismiss = () => {
+    setSelected(null);
+    onPreview(null);
+  };
+
+  const handleUse = (useBoundary: boolean) => {
+    if (!selected) return;
+    onUseArea(selected, useBoundary);
+    setSelected(null);
+    setQuery('');
+    onPreview(null);
+  };
+
+  return (
+    <div className={className}>
+      <form onSubmit={handleSearch} className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-primary-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search a place, e.g. Lake Tahoe"
+          className="w-full pl-9 pr-9 py-2 text-sm bg-white/95 backdrop-blur-sm border border-primary-200 rounded-lg shadow-lg focus:outline-none focus:ring-2 focus:ring-accent-500"
+        />
+        {loading && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-accent-600 animate-spin" />
+        )}
+      </form>
+
+      {error && (
+        <Card padding="sm" className="mt-2 border border-red-200 bg-red-50">
+          <p className="text-xs text-red-700">{error}</p>
+        </Card>
+      )}
+
+      {results && (
+        <Card glass padding="none" className="mt-2 overflow-hidden">
+          {results.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-primary-600">No places found for "{query.trim()}"</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto divide-y divide-primary-100">
+              {results.map(result => (
+                <li key={result.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(result)}
+                    className="w-full px-3 py-2 text-left hover:bg-primary-50 transition-colors"
+                  >
+                    <p className="text-sm font-medium text-primary-900">{result.name}</p>
+                    <p className="text-xs text-primary-600 truncate">{result.display_name}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      )}
+
+      {selected && (
+        <Card glass padding="sm" className="mt-2">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-2 min-w-0">
+              <MapPin className="w-4 h-4 text-accent-600 mt-0.5 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-primary-900">{selected.name}</p>
+                <p className="text-xs text-primary-600 truncate">{selected.display_name}</p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={handleDismiss}
+              className="p-1 rounded text-primary-500 hover:text-primary-800"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {selected.geometry && (
+              <button
+                type="button"
+                onClick={() => handleUse(true)}
+                className="px-2 py-1 text-xs font-medium rounded-md bg-accent-600 text-white hover:bg-accent-700 transition-colors"
+              >
+                Use boundary
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => handleUse(false)}
+              className="px-2 py-1 text-xs font-medium rounded-md border border-accent-500 text-accent-700 hover:bg-accent-50 transition-colors"
+            >
+              Use bounding box
+            </button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default GeocoderSearch;
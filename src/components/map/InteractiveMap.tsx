@@ -1,14 +1,30 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import { MapContainer, TileLayer, useMapEvents } from 'react-leaflet';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MapContainer } from 'react-leaflet';
 import { FeatureGroup } from 'react-leaflet';
 import { EditControl } from 'react-leaflet-draw';
 import L from 'leaflet';
+import type { Polygon } from 'geojson';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet-draw/dist/leaflet.draw.css';
-import { Coordinates, AreaOfInterest } from '@/types/analysis';
-import { Calculator, MapPin, Trash2 } from 'lucide-react';
+import { AOIGeometry, GeometryAreaOfInterest } from '@/types/analysis';
+import { Calculator, FileUp, Focus, MapPin, Trash2, X } from 'lucide-react';
+import {
+  boundsToPolygon,
+  circleToPolygon,
+  createGeometryArea,
+  getTotalAreaKm2,
+  updateAreaGeometry
+} from '@/utils/geometry';
+import { AOI_FILE_ACCEPT, parseAOIFile } from '@/utils/aoi-import';
+import { BASEMAP_STORAGE_KEY, getDefaultBasemapId, resolveBasemap } from '@/utils/basemaps';
+import { getDefaultGeocoder } from '@/utils/geocoding';
+import { BasemapPreference, GeocodeResult, Geocoder } from '@/types/map';
+import useLocalStorage from '@/hooks/useLocalStorage';
+import BasemapLayer from './BasemapLayer';
+import BasemapSwitcher from './BasemapSwitcher';
+import GeocoderSearch from './GeocoderSearch';
 import Button from '../ui/Button';
 import Card from '../ui/Card';
 
@@ -21,187 +37,421 @@ L.Icon.Default.mergeOptions({
 });
 
 interface InteractiveMapProps {
-  onAreaSelect: (area: AreaOfInterest) => void;
-  selectedArea?: AreaOfInterest | null;
+  areas: GeometryAreaOfInterest[];
+  onAreasChange: (areas: GeometryAreaOfInterest[]) => void;
+  geocoder?: Geocoder;        // Place search backend, defaults to the deployment's geocoder
   className?: string;
 }
 
-// Component to handle map events
-const MapEventHandler = ({ onAreaSelect }: { onAreaSelect: (area: AreaOfInterest) => void }) => {
-  const map = useMapEvents({});
+const shapeOptions = {
+  color: '#f37d16',
+  weight: 2,
+  fillOpacity: 0.2,
+};
 
-  useEffect(() => {
-    const handleDrawCreated = (e: any) => {
-      const { layer } = e;
-      if (layer instanceof L.Rectangle) {
-        const bounds = layer.getBounds();
-        const coordinates: Coordinates = {
-          southwest_lat: bounds.getSouth(),
-          southwest_lon: bounds.getWest(),
-          northeast_lat: bounds.getNorth(),
-          northeast_lon: bounds.getEast(),
-        };
-
-        const center = bounds.getCenter();
-        const area_km2 = calculateAreaKm2(coordinates);
-
-        const areaOfInterest: AreaOfInterest = {
-          coordinates,
-          area_km2,
-          center: {
-            lat: center.lat,
-            lng: center.lng,
-          },
-        };
-
-        onAreaSelect(areaOfInterest);
-      }
-    };
+const sourceLabels: Record<GeometryAreaOfInterest['source'], string> = {
+  rectangle: 'Rectangle',
+  polygon: 'Polygon',
+  circle: 'Circle',
+  upload: 'Uploaded boundary',
+  place: 'Place boundary',
+};
 
-    map.on('draw:created', handleDrawCreated);
+const previewOptions = {
+  color: '#2563eb',
+  weight: 2,
+  dashArray: '6, 6',
+  fillOpacity: 0.1,
+};
 
-    return () => {
-      map.off('draw:created', handleDrawCreated);
-    };
-  }, [map, onAreaSelect]);
+const formatKm = (value?: number, unit: string = 'km'): string => {
+  if (value === undefined) return '-';
+  return value >= 100 ? `${Math.round(value).toLocaleString()} ${unit}` : `${value.toFixed(2)} ${unit}`;
+};
+
+// Outline of a drawn or edited layer; circles become polygons since GeoJSON has none
+const layerToGeometry = (layer: L.Layer): AOIGeometry | null => {
+  if (layer instanceof L.Circle) {
+    return circleToPolygon(layer.getLatLng(), layer.getRadius());
+  }
+
+  if (layer instanceof L.Polygon) {
+    return layer.toGeoJSON().geometry as AOIGeometry;
+  }
 
   return null;
 };
 
-// Calculate area in square kilometers
-const calculateAreaKm2 = (coords: Coordinates): number => {
-  const R = 6371; // Earth's radius in km
-  const dLat = (coords.northeast_lat - coords.southwest_lat) * Math.PI / 180;
-  const dLon = (coords.northeast_lon - coords.southwest_lon) * Math.PI / 180;
-  const avgLat = (coords.northeast_lat + coords.southwest_lat) / 2 * Math.PI / 180;
-  
-  const latDistance = R * dLat;
-  const lonDistance = R * dLon * Math.cos(avgLat);
-  
-  return Math.abs(latDistance * lonDistance);
+// Rectangles are polygons in leaflet, so check them first
+const layerSource = (layer: L.Layer): GeometryAreaOfInterest['source'] => {
+  if (layer instanceof L.Circle) return 'circle';
+  if (layer instanceof L.Rectangle) return 'rectangle';
+  return 'polygon';
+};
+
+// One editable layer per polygon: Leaflet.draw cannot edit a multipolygon layer
+const areaToLayers = (area: GeometryAreaOfInterest): L.Layer[] => {
+  const { geometry } = area;
+  const polygons = geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates];
+  return polygons.map(coordinates => {
+    const polygon: Polygon = { type: 'Polygon', coordinates };
+    return L.geoJSON(polygon, { style: shapeOptions }).getLayers()[0];
+  });
+};
+
+// Outline of an area from the layers of its parts
+const layersToGeometry = (layers: L.Layer[]): AOIGeometry | null => {
+  const polygons: Polygon['coordinates'][] = [];
+  layers.forEach(layer => {
+    const geometry = layerToGeometry(layer);
+    if (!geometry) return;
+    if (geometry.type === 'MultiPolygon') {
+      geometry.coordinates.forEach(coordinates => polygons.push(coordinates));
+    } else {
+      polygons.push(geometry.coordinates);
+    }
+  });
+
+  if (polygons.length === 0) return null;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
 };
 
-const InteractiveMap: React.FC<InteractiveMapProps> = ({ 
-  onAreaSelect, 
-  selectedArea, 
-  className = '' 
+const flatten = (groups: L.Layer[][]): L.Layer[] =>
+  groups.reduce<L.Layer[]>((all, layers) => all.concat(layers), []);
+
+const InteractiveMap: React.FC<InteractiveMapProps> = ({
+  areas,
+  onAreasChange,
+  geocoder = getDefaultGeocoder(),
+  className = ''
 }) => {
-  const [mapKey, setMapKey] = useState(0);
+  const [map, setMap] = useState<L.Map | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [placePreview, setPlacePreview] = useState<GeocodeResult | null>(null);
   const featureGroupRef = useRef<L.FeatureGroup>(null);
-  
-  const handleClearSelection = () => {
-    if (featureGroupRef.current) {
-      featureGroupRef.current.clearLayers();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const layersRef = useRef<Map<string, L.Layer[]>>(new Map());   // Area id to the layers of its parts
+  const [basemapPreference, setBasemapPreference] = useLocalStorage<BasemapPreference>(
+    BASEMAP_STORAGE_KEY,
+    { basemapId: getDefaultBasemapId() }
+  );
+  const basemap = resolveBasemap(basemapPreference);
+
+  // EditControl never unbinds replaced handlers, so they must stay stable and read the latest props
+  const areasRef = useRef(areas);
+  areasRef.current = areas;
+  const onAreasChangeRef = useRef(onAreasChange);
+  onAreasChangeRef.current = onAreasChange;
+
+  const findAreaId = (layer: L.Layer): string | undefined => {
+    let found: string | undefined;
+    layersRef.current.forEach((parts, id) => {
+      if (parts.indexOf(layer) !== -1) found = id;
+    });
+    return found;
+  };
+
+  const fitLayers = (layers: L.Layer[]) => {
+    const bounds = L.featureGroup(layers).getBounds();
+    if (map && bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [24, 24] });
     }
-    onAreaSelect({
-      coordinates: {
-        southwest_lat: 0,
-        southwest_lon: 0,
-        northeast_lat: 0,
-        northeast_lon: 0,
-      },
+  };
+
+  // Outline a searched place, outside the editable feature group, until it is used or dismissed
+  useEffect(() => {
+    if (!map || !placePreview) return;
+
+    const layer = L.geoJSON(placePreview.geometry || boundsToPolygon(placePreview.bounds), {
+      style: previewOptions,
+      interactive: false,
+    }).addTo(map);
+
+    const { bounds } = placePreview;
+    map.fitBounds(
+      [[bounds.southwest_lat, bounds.southwest_lon], [bounds.northeast_lat, bounds.northeast_lon]],
+      { padding: [24, 24] }
+    );
+
+    return () => {
+      layer.remove();
+    };
+  }, [map, placePreview]);
+
+  // Keep the map in sync with areas added, restored or removed elsewhere
+  useEffect(() => {
+    const featureGroup = featureGroupRef.current;
+    if (!map || !featureGroup) return;
+
+    const layers = layersRef.current;
+    const ids = new Set(areas.map(area => area.id));
+
+    layers.forEach((parts, id) => {
+      if (!ids.has(id)) {
+        parts.forEach(layer => featureGroup.removeLayer(layer));
+        layers.delete(id);
+      }
     });
-    setMapKey(prev => prev + 1); // Force re-render
+
+    let added = false;
+    areas.forEach(area => {
+      if (layers.has(area.id)) return;
+      const parts = areaToLayers(area);
+      parts.forEach(layer => featureGroup.addLayer(layer));
+      layers.set(area.id, parts);
+      added = true;
+    });
+
+    // Drawn shapes are registered before they reach the parent, so only zoom to outside additions
+    if (added) {
+      fitLayers(flatten(Array.from(layers.values())));
+    }
+  }, [map, areas]);
+
+  const handleClearSelection = () => {
+    setImportError(null);
+    onAreasChange([]);
   };
-  
+
+  const handleCreated = useCallback((e: any) => {
+    const { layer } = e;
+    const geometry = layerToGeometry(layer);
+    if (!geometry) return;
+
+    const current = areasRef.current;
+    const area = createGeometryArea(geometry, layerSource(layer), `Area ${current.length + 1}`);
+    layersRef.current.set(area.id, [layer]);
+
+    setImportError(null);
+    onAreasChangeRef.current([...current, area]);
+  }, []);
+
+  // Parts are edited on their own; their area gets the outline of all of them
+  const handleEdited = useCallback((e: any) => {
+    const edited = new Map<string, AOIGeometry>();
+    (e.layers as L.LayerGroup).eachLayer(layer => {
+      const id = findAreaId(layer);
+      const geometry = id ? layersToGeometry(layersRef.current.get(id) || []) : null;
+      if (id && geometry) edited.set(id, geometry);
+    });
+    if (edited.size === 0) return;
+
+    onAreasChangeRef.current(areasRef.current.map(area => {
+      const geometry = edited.get(area.id);
+      return geometry ? updateAreaGeometry(area, geometry) : area;
+    }));
+  }, []);
+
+  // Deleting some parts of an area keeps the others
+  const handleDeleted = useCallback((e: any) => {
+    const changed = new Set<string>();
+    (e.layers as L.LayerGroup).eachLayer(layer => {
+      const id = findAreaId(layer);
+      const parts = id ? layersRef.current.get(id) : undefined;
+      if (id && parts) {
+        parts.splice(parts.indexOf(layer), 1);
+        changed.add(id);
+      }
+    });
+    if (changed.size === 0) return;
+
+    const remaining: GeometryAreaOfInterest[] = [];
+    areasRef.current.forEach(area => {
+      if (!changed.has(area.id)) {
+        remaining.push(area);
+        return;
+      }
+      const geometry = layersToGeometry(layersRef.current.get(area.id) || []);
+      if (geometry) {
+        remaining.push(updateAreaGeometry(area, geometry));
+      } else {
+        layersRef.current.delete(area.id);
+      }
+    });
+    onAreasChangeRef.current(remaining);
+  }, []);
+
+  const handleRename = (id: string, name: string) => {
+    onAreasChange(areas.map(area => area.id === id ? { ...area, name } : area));
+  };
+
+  const handleRemove = (id: string) => {
+    onAreasChange(areas.filter(area => area.id !== id));
+  };
+
+  const handleZoomTo = (id: string) => {
+    const parts = layersRef.current.get(id);
+    if (parts) fitLayers(parts);
+  };
+
+  const handleUsePlace = (result: GeocodeResult, useBoundary: boolean) => {
+    const area = useBoundary && result.geometry
+      ? createGeometryArea(result.geometry, 'place', result.name)
+      : createGeometryArea(boundsToPolygon(result.bounds), 'rectangle', result.name);
+
+    onAreasChange([...areas, area]);
+  };
+
+  const handleFileImport = async (file: File) => {
+    setImporting(true);
+    setImportError(null);
+
+    try {
+      const area = await parseAOIFile(file);
+      onAreasChange([...areas, area]);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import boundary file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === 'dragenter' || e.type === 'dragover') {
+      setDragActive(true);
+    } else if (e.type === 'dragleave' && e.currentTarget === e.target) {
+      setDragActive(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      handleFileImport(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      handleFileImport(e.target.files[0]);
+    }
+    e.target.value = '';
+  };
+
   // Default map center (Zurich)
   const defaultCenter: [number, number] = [47.3769, 8.5417];
-  
+
   return (
     <div className={`relative ${className}`}>
       {/* Map container */}
-      <div className="relative rounded-lg overflow-hidden shadow-soft border border-primary-200">
+      <div
+        className="relative rounded-lg overflow-hidden shadow-soft border border-primary-200"
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+      >
         <MapContainer
-          key={mapKey}
+          ref={setMap}
           center={defaultCenter}
           zoom={10}
           className="h-full w-full min-h-[400px]"
           zoomControl={true}
         >
-          <TileLayer
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          />
-          
-          {/* Satellite layer option */}
-          <TileLayer
-            attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
-            url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-            opacity={0}
-          />
-          
+          {basemap && <BasemapLayer basemap={basemap} />}
+
           <FeatureGroup ref={featureGroupRef}>
             <EditControl
               position="topright"
-              onCreated={(e: any) => {
-                // Handle the created event
-                const { layer } = e;
-                if (layer instanceof L.Rectangle) {
-                  const bounds = layer.getBounds();
-                  const coordinates: Coordinates = {
-                    southwest_lat: bounds.getSouth(),
-                    southwest_lon: bounds.getWest(),
-                    northeast_lat: bounds.getNorth(),
-                    northeast_lon: bounds.getEast(),
-                  };
-                  
-                  const center = bounds.getCenter();
-                  const area_km2 = calculateAreaKm2(coordinates);
-                  
-                  const areaOfInterest: AreaOfInterest = {
-                    coordinates,
-                    area_km2,
-                    center: {
-                      lat: center.lat,
-                      lng: center.lng,
-                    },
-                  };
-                  
-                  onAreaSelect(areaOfInterest);
-                }
-              }}
+              onCreated={handleCreated}
+              onEdited={handleEdited}
+              onDeleted={handleDeleted}
               draw={{
                 rectangle: {
-                  shapeOptions: {
-                    color: '#f37d16',
-                    weight: 2,
-                    fillOpacity: 0.2,
-                  },
+                  shapeOptions,
+                },
+                polygon: {
+                  allowIntersection: false,
+                  showArea: true,
+                  shapeOptions,
+                },
+                circle: {
+                  shapeOptions,
                 },
-                polygon: false,
-                circle: false,
                 circlemarker: false,
                 marker: false,
                 polyline: false,
               }}
               edit={{
-                edit: false,
-                remove: false,
+                edit: {
+                  selectedPathOptions: {
+                    ...shapeOptions,
+                    dashArray: '6, 6',
+                    fillOpacity: 0.3,
+                  },
+                },
               }}
             />
           </FeatureGroup>
-          
-          <MapEventHandler onAreaSelect={onAreaSelect} />
         </MapContainer>
-        
+
         {/* Map overlay with instructions */}
-        <div className="absolute top-4 left-4 z-[1000]">
-          <Card glass padding="sm" className="max-w-xs">
+        <div className="absolute top-4 left-4 z-[1000] w-72 space-y-2">
+          <GeocoderSearch
+            geocoder={geocoder}
+            onPreview={setPlacePreview}
+            onUseArea={handleUsePlace}
+          />
+
+          <Card glass padding="sm">
             <div className="flex items-start space-x-2">
               <MapPin className="w-5 h-5 text-accent-600 mt-0.5 flex-shrink-0" />
               <div>
                 <h4 className="font-medium text-primary-900 text-sm">Select Analysis Area</h4>
                 <p className="text-xs text-primary-600 mt-1">
-                  Use the rectangle tool (📦) to draw your area of interest on the map
+                  Search a place, draw rectangles, polygons or circles, or drop a GeoJSON, KML or zipped Shapefile on the map. Use the edit tool to move vertices.
                 </p>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={importing}
+                  className="mt-2 inline-flex items-center text-xs font-medium text-accent-700 hover:text-accent-900 disabled:opacity-50"
+                >
+                  <FileUp className="w-3 h-3 mr-1" />
+                  {importing ? 'Importing...' : 'Import boundary file'}
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={AOI_FILE_ACCEPT}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
               </div>
             </div>
           </Card>
         </div>
-        
+
+        {/* Basemap switcher */}
+        <BasemapSwitcher
+          preference={basemapPreference}
+          onChange={setBasemapPreference}
+          className="absolute bottom-8 left-4 z-[1000]"
+        />
+
+        {/* Drop overlay */}
+        {dragActive && (
+          <div className="absolute inset-0 z-[1001] bg-blue-50/80 border-2 border-dashed border-blue-400 flex items-center justify-center pointer-events-none">
+            <div className="text-center text-blue-800">
+              <FileUp className="w-10 h-10 mx-auto mb-2" />
+              <p className="font-medium">Drop boundary file to add it as an analysis area</p>
+              <p className="text-xs mt-1">GeoJSON, KML or zipped Shapefile</p>
+            </div>
+          </div>
+        )}
+
         {/* Clear button */}
-        {selectedArea && selectedArea.coordinates.northeast_lat !== 0 && (
-          <div className="absolute top-4 right-4 z-[1000]">
+        {areas.length > 0 && (
+          <div className="absolute bottom-4 right-4 z-[1000]">
             <Button
               variant="error"
               size="sm"
@@ -209,39 +459,84 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
               className="shadow-lg"
             >
               <Trash2 className="w-4 h-4 mr-1" />
-              Clear
+              Clear all
             </Button>
           </div>
         )}
       </div>
-      
-      {/* Selected area information */}
-      {selectedArea && selectedArea.coordinates.northeast_lat !== 0 && (
+
+      {/* Import error */}
+      {importError && (
+        <Card className="mt-4 border border-red-200 bg-red-50" padding="sm">
+          <p className="text-sm text-red-700">{importError}</p>
+        </Card>
+      )}
+
+      {/* Selected areas information */}
+      {areas.length > 0 && (
         <Card className="mt-4" padding="sm">
-          <div className="flex items-center justify-between">
+          <div className="flex items-center justify-between mb-3">
             <div className="flex items-center space-x-2">
               <Calculator className="w-5 h-5 text-accent-600" />
-              <div>
-                <h4 className="font-medium text-primary-900">Selected Area</h4>
-                <p className="text-sm text-primary-600">
-                  {selectedArea.area_km2?.toFixed(2)} km² selected for analysis
-                </p>
-              </div>
-            </div>
-            <div className="text-right">
-              <p className="text-xs text-primary-500">Coordinates</p>
-              <p className="text-xs font-mono text-primary-700">
-                {selectedArea.coordinates.southwest_lat.toFixed(4)}, {selectedArea.coordinates.southwest_lon.toFixed(4)}
-              </p>
-              <p className="text-xs font-mono text-primary-700">
-                to {selectedArea.coordinates.northeast_lat.toFixed(4)}, {selectedArea.coordinates.northeast_lon.toFixed(4)}
-              </p>
+              <h4 className="font-medium text-primary-900">
+                {areas.length === 1 ? '1 area' : `${areas.length} areas`} selected for analysis
+              </h4>
             </div>
+            <p className="text-sm text-primary-600">
+              Total {formatKm(getTotalAreaKm2(areas), 'km²')}
+            </p>
           </div>
+
+          <ul className="divide-y divide-primary-100">
+            {areas.map((area, index) => (
+              <li key={area.id} className="flex items-center justify-between py-2 gap-3">
+                <div className="min-w-0 flex-1">
+                  <input
+                    type="text"
+                    value={area.name ?? ''}
+                    placeholder={`Area ${index + 1}`}
+                    onChange={(e) => handleRename(area.id, e.target.value)}
+                    className="w-full bg-transparent font-medium text-sm text-primary-900 border-b border-transparent hover:border-primary-200 focus:border-accent-500 focus:outline-none"
+                  />
+                  <p className="text-xs text-primary-600 mt-0.5">
+                    {sourceLabels[area.source]}
+                    {area.geometry.type === 'MultiPolygon' && ` (${area.geometry.coordinates.length} parts)`}
+                    {' • '}
+                    {formatKm(area.area_km2, 'km²')}
+                    {' • '}
+                    {formatKm(area.perimeter_km)} perimeter
+                  </p>
+                  <p className="text-xs font-mono text-primary-500 mt-0.5">
+                    {area.coordinates.southwest_lat.toFixed(4)}, {area.coordinates.southwest_lon.toFixed(4)}
+                    {' to '}
+                    {area.coordinates.northeast_lat.toFixed(4)}, {area.coordinates.northeast_lon.toFixed(4)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleZoomTo(area.id)}
+                    className="p-1.5 rounded text-primary-500 hover:text-accent-700 hover:bg-primary-50"
+                    title="Zoom to area"
+                  >
+                    <Focus className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(area.id)}
+                    className="p-1.5 rounded text-primary-500 hover:text-red-600 hover:bg-red-50"
+                    title="Remove area"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
         </Card>
       )}
     </div>
   );
 };
 
-export default InteractiveMap;
\ No newline at end of file
+export default InteractiveMap;
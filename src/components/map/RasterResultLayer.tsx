@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import GeoRasterLayer from 'georaster-layer-for-leaflet';
+import type { GeoRaster } from 'georaster-layer-for-leaflet';
+import { AnalysisVisibility, ResultLayer } from '@/types/analysis';
+import { DEFAULT_NDVI_LEGEND, createColorScale } from '@/utils/colormap';
+import { isNoData, loadGeoRaster } from '@/utils/raster';
+
+interface RasterResultLayerProps {
+  layer: ResultLayer;
+  opacity: number;
+  analysisVisibility?: AnalysisVisibility; // Private and organization rasters load with the viewer's session
+  onLoad?: (layerId: string, georaster: GeoRaster) => void;
+  onError?: (layerId: string, message: string) => void;
+  onReady?: (gridLayer: L.GridLayer | null) => void; // Leaflet layer once added, null when removed
+}
+
+/**
+ * GeoTIFF / COG result layer drawn with georaster-layer-for-leaflet
+ */
+const RasterResultLayer: React.FC<RasterResultLayerProps> = ({
+  layer,
+  opacity,
+  analysisVisibility,
+  onLoad,
+  onError,
+  onReady
+}) => {
+  const map = useMap();
+  const gridLayerRef = useRef<L.GridLayer | null>(null);
+  const opacityRef = useRef(opacity);
+  opacityRef.current = opacity;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadGeoRaster(layer.url, analysisVisibility)
+      .then(georaster => {
+        if (cancelled) return;
+
+        const band = layer.band || 0;
+        const noData = layer.nodata ?? georaster.noDataValue;
+        // Multi-band rasters without a legend are true-colour composites
+        const isComposite = !layer.legend && georaster.numberOfRasters >= 3;
+        const colorScale = createColorScale(layer.legend || DEFAULT_NDVI_LEGEND);
+
+        const gridLayer = new GeoRasterLayer({
+          georaster,
+          opacity: opacityRef.current,
+          resolution: 256,
+          // An empty colour leaves the pixel transparent
+          pixelValuesToColorFn: isComposite
+            ? undefined
+            : (values: number[]) => isNoData(values[band], noData) ? '' : colorScale(values[band]) || '',
+        });
+
+        gridLayer.addTo(map);
+        gridLayerRef.current = gridLayer;
+        onLoad?.(layer.id, georaster);
+        onReady?.(gridLayer);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error(`Failed to load raster layer ${layer.id}:`, error);
+        onError?.(layer.id, 'Raster could not be loaded');
+      });
+
+    return () => {
+      cancelled = true;
+      if (gridLayerRef.current) {
+        gridLayerRef.current.remove();
+        gridLayerRef.current = null;
+        onReady?.(null);
+      }
+    };
+  }, [map, layer, analysisVisibility]);
+
+  useEffect(() => {
+    gridLayerRef.current?.setOpacity(opacity);
+  }, [opacity]);
+
+  return null;
+};
+
+export default RasterResultLayer;
@@ -0,0 +1,436 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import GeoRasterLayer from 'georaster-layer-for-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { AlertCircle, Columns, Diff, SplitSquareHorizontal } from 'lucide-react';
+import { AnalysisVisibility, ResultLayer } from '@/types/analysis';
+import { BasemapDefinition } from '@/types/map';
+import { DEFAULT_DIFFERENCE_LEGEND, DEFAULT_NDVI_LEGEND, createColorScale } from '@/utils/colormap';
+import { isNoData, isSameGrid, loadGeoRaster } from '@/utils/raster';
+import { getEpochLabel, getEpochLayers } from '@/utils/result-layers';
+import { cn } from '@/utils/cn';
+import BasemapLayer from './BasemapLayer';
+import FitToBounds from './FitToBounds';
+import RasterResultLayer from './RasterResultLayer';
+import ResultLegend from './ResultLegend';
+import ResultTileLayer from './ResultTileLayer';
+
+type CompareMode = 'side-by-side' | 'swipe' | 'difference';
+
+interface ResultCompareViewerProps {
+  layers: ResultLayer[];
+  startYear?: number;
+  endYear?: number;
+  bounds: L.LatLngBounds | null;
+  basemap: BasemapDefinition | null;
+  analysisVisibility?: AnalysisVisibility;
+  className?: string;
+}
+
+const DEFAULT_OPACITY = 0.9;
+
+const MODES: Array<{ id: CompareMode; label: string; icon: React.ElementType }> = [
+  { id: 'side-by-side', label: 'Side by side', icon: Columns },
+  { id: 'swipe', label: 'Swipe', icon: SplitSquareHorizontal },
+  { id: 'difference', label: 'Difference', icon: Diff },
+];
+
+/**
+ * One epoch as a raster or tile layer, reporting the leaflet layer for clipping
+ */
+const EpochLayer: React.FC<{
+  layer: ResultLayer;
+  opacity: number;
+  analysisVisibility?: AnalysisVisibility;
+  onReady?: (gridLayer: L.GridLayer | null) => void;
+  onError?: (layerId: string, message: string) => void;
+}> = ({ layer, opacity, analysisVisibility, onReady, onError }) => {
+  if (layer.type === 'raster') {
+    return (
+      <RasterResultLayer
+        layer={layer}
+        opacity={opacity}
+        analysisVisibility={analysisVisibility}
+        onReady={onReady}
+        onError={onError}
+      />
+    );
+  }
+  return <ResultTileLayer layer={layer} opacity={opacity} analysisVisibility={analysisVisibility} onReady={onReady} />;
+};
+
+/**
+ * Clip two layers to either side of a vertical split, like leaflet-side-by-side
+ */
+const SwipeClip: React.FC<{
+  left: L.GridLayer | null;
+  right: L.GridLayer | null;
+  ratio: number;
+}> = ({ left, right, ratio }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const update = () => {
+      const size = map.getSize();
+      const nw = map.containerPointToLayerPoint([0, 0]);
+      const se = map.containerPointToLayerPoint(size);
+      const clipX = nw.x + size.x * ratio;
+
+      const leftContainer = left?.getContainer();
+      const rightContainer = right?.getContainer();
+      if (leftContainer) {
+        leftContainer.style.clip = `rect(${nw.y}px, ${clipX}px, ${se.y}px, ${nw.x}px)`;
+      }
+      if (rightContainer) {
+        rightContainer.style.clip = `rect(${nw.y}px, ${se.x}px, ${se.y}px, ${clipX}px)`;
+      }
+    };
+
+    update();
+    map.on('move resize', update);
+
+    return () => {
+      map.off('move resize', update);
+      const leftContainer = left?.getContainer();
+      const rightContainer = right?.getContainer();
+      if (leftContainer) leftContainer.style.clip = '';
+      if (rightContainer) rightContainer.style.clip = '';
+    };
+  }, [map, left, right, ratio]);
+
+  return null;
+};
+
+/**
+ * End-minus-start change computed in the browser from two rasters on the same grid
+ */
+const ComputedDifferenceLayer: React.FC<{
+  start: ResultLayer;
+  end: ResultLayer;
+  opacity: number;
+  analysisVisibility?: AnalysisVisibility;
+  onError: (message: string) => void;
+}> = ({ start, end, opacity, analysisVisibility, onError }) => {
+  const map = useMap();
+  const gridLayerRef = useRef<L.GridLayer | null>(null);
+  const opacityRef = useRef(opacity);
+  opacityRef.current = opacity;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([loadGeoRaster(start.url, analysisVisibility), loadGeoRaster(end.url, analysisVisibility)])
+      .then(([startRaster, endRaster]) => {
+        if (cancelled) return;
+
+        if (!isSameGrid(startRaster, endRaster)) {
+          onError('The two epochs use different pixel grids, so their difference cannot be computed here.');
+          return;
+        }
+
+        const startBand = start.band || 0;
+        // Band values of both rasters arrive concatenated, start first
+        const endBand = startRaster.numberOfRasters + (end.band || 0);
+        const startNoData = start.nodata ?? startRaster.noDataValue;
+        const endNoData = end.nodata ?? endRaster.noDataValue;
+        const colorScale = createColorScale(DEFAULT_DIFFERENCE_LEGEND);
+
+        const gridLayer = new GeoRasterLayer({
+          georasters: [startRaster, endRaster],
+          opacity: opacityRef.current,
+          resolution: 256,
+          pixelValuesToColorFn: (values: number[]) => {
+            const before = values[startBand];
+            const after = values[endBand];
+            if (isNoData(before, startNoData) || isNoData(after, endNoData)) return '';
+            return colorScale(after - before) || '';
+          },
+        });
+
+        gridLayer.addTo(map);
+        gridLayerRef.current = gridLayer;
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to build difference layer:', error);
+        onError('Epoch rasters could not be loaded.');
+      });
+
+    return () => {
+      cancelled = true;
+      gridLayerRef.current?.remove();
+      gridLayerRef.current = null;
+    };
+  }, [map, start, end, analysisVisibility]);
+
+  useEffect(() => {
+    gridLayerRef.current?.setOpacity(opacity);
+  }, [opacity]);
+
+  return null;
+};
+
+/**
+ * Compare the start and end epochs of an analysis: synchronised maps,
+ * a swipe slider over one map, or a diverging change layer
+ */
+const ResultCompareViewer: React.FC<ResultCompareViewerProps> = ({
+  layers,
+  startYear,
+  endYear,
+  bounds,
+  basemap,
+  analysisVisibility,
+  className = ''
+}) => {
+  const epochs = useMemo(
+    () => getEpochLayers(layers, startYear, endYear),
+    [layers, startYear, endYear]
+  );
+  const hasEpochs = !!(epochs.start && epochs.end);
+
+  const [mode, setMode] = useState<CompareMode>(hasEpochs ? 'swipe' : 'difference');
+  const [opacity, setOpacity] = useState(DEFAULT_OPACITY);
+  const [ratio, setRatio] = useState(0.5);
+  const [error, setError] = useState<string | null>(null);
+  const [leftMap, setLeftMap] = useState<L.Map | null>(null);
+  const [rightMap, setRightMap] = useState<L.Map | null>(null);
+  const [startGrid, setStartGrid] = useState<L.GridLayer | null>(null);
+  const [endGrid, setEndGrid] = useState<L.GridLayer | null>(null);
+
+  const differenceLayer = useMemo(
+    () => epochs.difference
+      ? { ...epochs.difference, legend: epochs.difference.legend || DEFAULT_DIFFERENCE_LEGEND }
+      : null,
+    [epochs.difference]
+  );
+  const canComputeDifference = epochs.start?.type === 'raster' && epochs.end?.type === 'raster';
+
+  useEffect(() => {
+    setError(null);
+  }, [mode]);
+
+  // Keep the side-by-side maps on the same view
+  useEffect(() => {
+    if (mode !== 'side-by-side' || !leftMap || !rightMap) return;
+
+    let syncing = false;
+    const follow = (source: L.Map, target: L.Map) => () => {
+      if (syncing) return;
+      syncing = true;
+      target.setView(source.getCenter(), source.getZoom(), { animate: false });
+      syncing = false;
+    };
+    const leftToRight = follow(leftMap, rightMap);
+    const rightToLeft = follow(rightMap, leftMap);
+
+    leftMap.on('move', leftToRight);
+    rightMap.on('move', rightToLeft);
+    leftToRight();
+
+    return () => {
+      leftMap.off('move', leftToRight);
+      rightMap.off('move', rightToLeft);
+    };
+  }, [mode, leftMap, rightMap]);
+
+  const handleLayerError = (_layerId: string, message: string) => {
+    setError(message);
+  };
+
+  const renderMap = (
+    children: React.ReactNode,
+    ref?: (map: L.Map | null) => void
+  ) => (
+    <MapContainer
+      ref={ref}
+      center={[0, 0]}
+      zoom={2}
+      className="h-full w-full min-h-[420px]"
+      zoomControl={true}
+    >
+      {basemap && <BasemapLayer basemap={basemap} />}
+      <FitToBounds bounds={bounds} />
+      {children}
+    </MapContainer>
+  );
+
+  const epochBadge = (layer: ResultLayer, position: string) => (
+    <span className={cn(
+      'absolute top-3 z-[1000] px-2 py-1 rounded-md bg-slate-900/80 text-white text-xs font-medium pointer-events-none',
+      position
+    )}>
+      {getEpochLabel(layer)}
+    </span>
+  );
+
+  const legend = mode === 'difference'
+    ? differenceLayer?.legend || DEFAULT_DIFFERENCE_LEGEND
+    : epochs.start?.legend || DEFAULT_NDVI_LEGEND;
+
+  return (
+    <div className={`relative h-full ${className}`}>
+      {mode === 'side-by-side' && epochs.start && epochs.end && (
+        <div className="grid grid-cols-2 h-full gap-px bg-slate-200">
+          <div key="start" className="relative">
+            {renderMap(
+              <EpochLayer
+                layer={epochs.start}
+                opacity={opacity}
+                analysisVisibility={analysisVisibility}
+                onError={handleLayerError}
+              />,
+              setLeftMap
+            )}
+            {epochBadge(epochs.start, 'left-14')}
+          </div>
+          <div key="end" className="relative">
+            {renderMap(
+              <EpochLayer
+                layer={epochs.end}
+                opacity={opacity}
+                analysisVisibility={analysisVisibility}
+                onError={handleLayerError}
+              />,
+              setRightMap
+            )}
+            {epochBadge(epochs.end, 'left-14')}
+          </div>
+        </div>
+      )}
+
+      {mode === 'swipe' && epochs.start && epochs.end && (
+        <div className="relative h-full">
+          {renderMap(
+            <>
+              <EpochLayer
+                layer={epochs.start}
+                opacity={opacity}
+                analysisVisibility={analysisVisibility}
+                onReady={setStartGrid}
+                onError={handleLayerError}
+              />
+              <EpochLayer
+                layer={epochs.end}
+                opacity={opacity}
+                analysisVisibility={analysisVisibility}
+                onReady={setEndGrid}
+                onError={handleLayerError}
+              />
+              <SwipeClip left={startGrid} right={endGrid} ratio={ratio} />
+            </>
+          )}
+          <div
+            className="absolute inset-y-0 z-[999] w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.5)] pointer-events-none"
+            style={{ left: `${ratio * 100}%` }}
+          />
+          {epochBadge(epochs.start, 'left-14')}
+          {epochBadge(epochs.end, 'right-[16rem]')}
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(ratio * 100)}
+            onChange={(e) => setRatio(Number(e.target.value) / 100)}
+            className="absolute bottom-2 left-1/2 -translate-x-1/2 z-[1000] w-2/3 accent-blue-600"
+            aria-label="Swipe position"
+          />
+        </div>
+      )}
+
+      {mode === 'difference' && renderMap(
+        differenceLayer ? (
+          differenceLayer.type === 'raster'
+            ? (
+              <RasterResultLayer
+                layer={differenceLayer}
+                opacity={opacity}
+                analysisVisibility={analysisVisibility}
+                onError={handleLayerError}
+              />
+            )
+            : <ResultTileLayer layer={differenceLayer} opacity={opacity} analysisVisibility={analysisVisibility} />
+        ) : canComputeDifference && epochs.start && epochs.end ? (
+          <ComputedDifferenceLayer
+            start={epochs.start}
+            end={epochs.end}
+            opacity={opacity}
+            analysisVisibility={analysisVisibility}
+            onError={setError}
+          />
+        ) : null
+      )}
+
+      {/* Mode and opacity controls */}
+      <div className="absolute top-3 right-3 z-[1000] w-60 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-slate-200 p-3 space-y-3">
+        <div className="grid grid-cols-3 gap-1">
+          {MODES.map(({ id, label, icon: Icon }) => {
+            const disabled = id !== 'difference' && !hasEpochs;
+            return (
+              <button
+                key={id}
+                type="button"
+                disabled={disabled}
+                onClick={() => setMode(id)}
+                className={cn(
+                  'flex flex-col items-center px-1 py-1.5 rounded-md text-[11px] font-medium transition-colors',
+                  mode === id ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100',
+                  disabled && 'opacity-40 cursor-not-allowed hover:bg-transparent'
+                )}
+              >
+                <Icon className="w-4 h-4 mb-0.5" />
+                {label}
+              </button>
+            );
+          })}
+        </div>
+
+        {epochs.start && epochs.end && (
+          <p className="text-xs text-slate-600">
+            {getEpochLabel(epochs.start)} → {getEpochLabel(epochs.end)}
+          </p>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(opacity * 100)}
+            onChange={(e) => setOpacity(Number(e.target.value) / 100)}
+            className="flex-1 accent-blue-600"
+            aria-label="Layer opacity"
+          />
+          <span className="text-[10px] font-mono text-slate-500 w-8 text-right">
+            {Math.round(opacity * 100)}%
+          </span>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="absolute bottom-10 left-3 z-[1000] w-52 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-slate-200 p-3">
+        <ResultLegend legend={legend} />
+        {mode === 'difference' && (
+          <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+            <span>Loss</span>
+            <span>Gain</span>
+          </div>
+        )}
+      </div>
+
+      {(error || (mode === 'difference' && !differenceLayer && !canComputeDifference)) && (
+        <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-[1000] max-w-sm flex items-start space-x-2 bg-white/95 rounded-lg shadow-lg border border-red-200 px-3 py-2 text-xs text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            {error || 'A difference layer needs raster epochs or a difference layer from the backend.'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultCompareViewer;
@@ -0,0 +1,52 @@
+'use client';
+
+import { ResultLegend as ResultLegendType } from '@/types/analysis';
+import { getLegendGradient } from '@/utils/colormap';
+
+interface ResultLegendProps {
+  legend: ResultLegendType;
+  className?: string;
+}
+
+const formatValue = (value?: number): string => {
+  if (value === undefined) return '';
+  return Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : value.toFixed(2);
+};
+
+/**
+ * Colour bar or class swatches for a result layer
+ */
+const ResultLegend: React.FC<ResultLegendProps> = ({ legend, className = '' }) => {
+  return (
+    <div className={className}>
+      <p className="text-xs font-medium text-slate-700 mb-1">
+        {legend.title}
+        {legend.unit && <span className="font-normal text-slate-500"> ({legend.unit})</span>}
+      </p>
+
+      {legend.type === 'continuous' ? (
+        <>
+          <div
+            className="h-2.5 rounded-sm border border-slate-200"
+            style={{ background: getLegendGradient(legend.colors) }}
+          />
+          <div className="flex justify-between text-[10px] font-mono text-slate-600 mt-0.5">
+            <span>{formatValue(legend.min)}</span>
+            <span>{formatValue(legend.max)}</span>
+          </div>
+        </>
+      ) : (
+        <ul className="space-y-0.5">
+          {legend.colors.map((color, index) => (
+            <li key={index} className="flex items-center space-x-2 text-xs text-slate-700">
+              <span className="w-3 h-3 rounded-sm border border-slate-200" style={{ backgroundColor: color }} />
+              <span>{legend.labels?.[index] ?? `Class ${index}`}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ResultLegend;
@@ -0,0 +1,465 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { GeoJSON, MapContainer, Popup, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import type { GeoRaster } from 'georaster-layer-for-leaflet';
+import type { FeatureCollection } from 'geojson';
+import 'leaflet/dist/leaflet.css';
+import { AlertCircle, Crosshair, GitCompare, Layers, Loader2, RefreshCw } from 'lucide-react';
+import { AnalysisVisibility, Coordinates, ResultLayer, convertBackendCoordinates, isOpenVisibility } from '@/types/analysis';
+import { BasemapPreference } from '@/types/map';
+import { getAnalysisLayers, getAnalysisMapUrl, getResultLayerValue, loadResultFileData } from '@/utils/api';
+import { BASEMAP_STORAGE_KEY, getDefaultBasemapId, resolveBasemap } from '@/utils/basemaps';
+import { DEFAULT_NDVI_LEGEND } from '@/utils/colormap';
+import { getRasterValueAt } from '@/utils/raster';
+import { canCompareLayers } from '@/utils/result-layers';
+import { cn } from '@/utils/cn';
+import useLocalStorage from '@/hooks/useLocalStorage';
+import useResultFileUrl from '@/hooks/useResultFileUrl';
+import BasemapLayer from './BasemapLayer';
+import FitToBounds from './FitToBounds';
+import RasterResultLayer from './RasterResultLayer';
+import ResultCompareViewer from './ResultCompareViewer';
+import ResultLegend from './ResultLegend';
+import ResultTileLayer from './ResultTileLayer';
+
+interface ResultMapViewerProps {
+  sessionId: string;
+  fallbackBounds?: Coordinates; // Study area, used when layers carry no bounds
+  startYear?: number;
+  endYear?: number;
+  analysisVisibility?: AnalysisVisibility; // Decides whether result files load with the viewer's session
+  className?: string;
+}
+
+type ViewerMode = 'layers' | 'compare';
+
+interface Inspection {
+  latlng: L.LatLng;
+  loading: boolean;
+  values: Array<{ layer: ResultLayer; value: number | null }>;
+}
+
+const DEFAULT_OPACITY = 0.8;
+
+const toLatLngBounds = (coordinates: Coordinates): L.LatLngBounds => L.latLngBounds(
+  [coordinates.southwest_lat, coordinates.southwest_lon],
+  [coordinates.northeast_lat, coordinates.northeast_lon]
+);
+
+const formatPixelValue = (layer: ResultLayer, value: number | null): string => {
+  if (value === null) return 'No data';
+
+  const legend = layer.legend;
+  if (legend?.type === 'categorical') {
+    return legend.labels?.[Math.round(value)] ?? String(value);
+  }
+
+  const unit = legend?.unit ? ` ${legend.unit}` : '';
+  return `${Number.isInteger(value) ? value : value.toFixed(3)}${unit}`;
+};
+
+// Feature properties as a table, built with DOM nodes so values are never parsed as HTML
+const createPropertiesPopup = (properties: Record<string, unknown> | null): HTMLElement => {
+  const table = document.createElement('table');
+  table.className = 'text-xs';
+
+  Object.keys(properties || {}).forEach(key => {
+    const row = table.insertRow();
+    const name = row.insertCell();
+    const value = row.insertCell();
+    name.className = 'pr-2 font-medium text-slate-600';
+    name.textContent = key;
+    value.textContent = String(properties?.[key] ?? '');
+  });
+
+  return table;
+};
+
+/**
+ * GeoJSON output (e.g. zonal statistics polygons) with a properties popup
+ */
+const VectorResultLayer: React.FC<{
+  layer: ResultLayer;
+  opacity: number;
+  analysisVisibility?: AnalysisVisibility;
+  onError: (layerId: string, message: string) => void;
+}> = ({ layer, opacity, analysisVisibility, onError }) => {
+  const [data, setData] = useState<FeatureCollection | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const request = isOpenVisibility(analysisVisibility)
+      ? fetch(layer.url).then(response => {
+        if (!response.ok) throw new Error(response.statusText);
+        return response.json();
+      })
+      : loadResultFileData(layer.url).then(buffer => JSON.parse(new TextDecoder().decode(buffer)));
+
+    request
+      .then(json => {
+        if (!cancelled) setData(json);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error(`Failed to load vector layer ${layer.id}:`, error);
+        onError(layer.id, 'Vector data could not be loaded');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [layer, analysisVisibility]);
+
+  if (!data) return null;
+
+  const color = layer.legend?.colors[0] || '#2563eb';
+
+  return (
+    <GeoJSON
+      data={data}
+      style={{ color, weight: 2, opacity, fillOpacity: 0.25 * opacity }}
+      onEachFeature={(feature, featureLayer) => {
+        if (feature.properties && Object.keys(feature.properties).length > 0) {
+          featureLayer.bindPopup(createPropertiesPopup(feature.properties));
+        }
+      }}
+    />
+  );
+};
+
+const ClickInspector: React.FC<{ onInspect: (latlng: L.LatLng) => void }> = ({ onInspect }) => {
+  useMapEvents({
+    click: (e) => onInspect(e.latlng),
+  });
+  return null;
+};
+
+/**
+ * In-app viewer for analysis outputs: rasters, tiles and vectors with
+ * legends, per-layer opacity and a click-to-inspect pixel readout, plus a
+ * compare mode for the start and end epochs
+ *
+ * Backends without a layer manifest get their generated HTML map embedded instead.
+ */
+const ResultMapViewer: React.FC<ResultMapViewerProps> = ({
+  sessionId,
+  fallbackBounds,
+  startYear,
+  endYear,
+  analysisVisibility,
+  className = ''
+}) => {
+  const [mode, setMode] = useState<ViewerMode>('layers');
+  const [layers, setLayers] = useState<ResultLayer[] | null>(null);
+  const [isLegacy, setIsLegacy] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [visibility, setVisibility] = useState<Record<string, boolean>>({});
+  const [opacity, setOpacity] = useState<Record<string, number>>({});
+  const [layerErrors, setLayerErrors] = useState<Record<string, string>>({});
+  const [inspection, setInspection] = useState<Inspection | null>(null);
+  const [bounds, setBounds] = useState<L.LatLngBounds | null>(null);
+  const georastersRef = useRef<Map<string, GeoRaster>>(new Map());
+  const legacyMapUrl = useResultFileUrl(isLegacy ? getAnalysisMapUrl(sessionId) : undefined, analysisVisibility);
+
+  const [basemapPreference] = useLocalStorage<BasemapPreference>(
+    BASEMAP_STORAGE_KEY,
+    { basemapId: getDefaultBasemapId() }
+  );
+  const basemap = resolveBasemap(basemapPreference);
+
+  const loadLayers = async () => {
+    setLoading(true);
+    setError(null);
+    setMode('layers');
+    setLayerErrors({});
+    setInspection(null);
+    georastersRef.current.clear();
+
+    try {
+      const result = await getAnalysisLayers(sessionId);
+      if (result === null) {
+        setIsLegacy(true);
+        return;
+      }
+
+      setLayers(result);
+      setVisibility(result.reduce<Record<string, boolean>>((acc, layer, index) => {
+        acc[layer.id] = layer.visible ?? index === 0;
+        return acc;
+      }, {}));
+      setOpacity(result.reduce<Record<string, number>>((acc, layer) => {
+        acc[layer.id] = layer.opacity ?? DEFAULT_OPACITY;
+        return acc;
+      }, {}));
+
+      const layerBounds = result
+        .filter(layer => layer.bounds)
+        .map(layer => toLatLngBounds(convertBackendCoordinates(layer.bounds!)));
+      const combined = layerBounds.reduce<L.LatLngBounds | null>(
+        (acc, next) => acc ? acc.extend(next) : next,
+        null
+      );
+      setBounds(combined || (fallbackBounds ? toLatLngBounds(fallbackBounds) : null));
+    } catch (err) {
+      setError('Result layers could not be loaded.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setIsLegacy(false);
+    setLayers(null);
+    loadLayers();
+  }, [sessionId]);
+
+  const handleLayerError = (layerId: string, message: string) => {
+    setLayerErrors(prev => ({ ...prev, [layerId]: message }));
+  };
+
+  const handleRasterLoad = (layerId: string, georaster: GeoRaster) => {
+    georastersRef.current.set(layerId, georaster);
+  };
+
+  const handleInspect = async (latlng: L.LatLng) => {
+    const inspectable = (layers || []).filter(layer =>
+      visibility[layer.id] && (layer.type === 'raster' || (layer.type === 'tiles' && layer.value_url))
+    );
+    if (inspectable.length === 0) return;
+
+    setInspection({ latlng, loading: true, values: [] });
+
+    const values = await Promise.all(inspectable.map(async layer => {
+      try {
+        if (layer.type === 'raster') {
+          const georaster = georastersRef.current.get(layer.id);
+          if (!georaster) return { layer, value: null };
+          const noData = layer.nodata ?? georaster.noDataValue;
+          return { layer, value: await getRasterValueAt(georaster, latlng.lat, latlng.lng, layer.band || 0, noData) };
+        }
+        return { layer, value: await getResultLayerValue(layer, latlng.lat, latlng.lng) };
+      } catch (err) {
+        console.warn(`Pixel value lookup failed for ${layer.id}:`, err);
+        return { layer, value: null };
+      }
+    }));
+
+    setInspection(current => current && current.latlng === latlng
+      ? { latlng, loading: false, values }
+      : current
+    );
+  };
+
+  if (isLegacy) {
+    return (
+      <div className={`relative rounded-lg overflow-hidden border border-slate-200 ${className}`}>
+        <iframe
+          src={legacyMapUrl}
+          title="Analysis map"
+          className="w-full h-full min-h-[420px] bg-slate-50"
+        />
+      </div>
+    );
+  }
+
+  const visibleLegends = (layers || []).filter(layer =>
+    visibility[layer.id] && (layer.legend || layer.type === 'raster')
+  );
+  const canCompare = !!layers && canCompareLayers(layers, startYear, endYear);
+
+  return (
+    <div className={`relative rounded-lg overflow-hidden border border-slate-200 ${className}`}>
+      {mode === 'compare' && layers ? (
+        <ResultCompareViewer
+          layers={layers}
+          startYear={startYear}
+          endYear={endYear}
+          bounds={bounds}
+          basemap={basemap}
+          analysisVisibility={analysisVisibility}
+        />
+      ) : (
+        <>
+          <MapContainer
+            center={[0, 0]}
+            zoom={2}
+            className="h-full w-full min-h-[420px]"
+            zoomControl={true}
+          >
+            {basemap && <BasemapLayer basemap={basemap} />}
+            <FitToBounds bounds={bounds} />
+            <ClickInspector onInspect={handleInspect} />
+
+            {(layers || []).filter(layer => visibility[layer.id]).map(layer => {
+              const layerOpacity = opacity[layer.id] ?? DEFAULT_OPACITY;
+
+              switch (layer.type) {
+                case 'raster':
+                  return (
+                    <RasterResultLayer
+                      key={layer.id}
+                      layer={layer}
+                      opacity={layerOpacity}
+                      analysisVisibility={analysisVisibility}
+                      onLoad={handleRasterLoad}
+                      onError={handleLayerError}
+                    />
+                  );
+                case 'tiles':
+                  return (
+                    <ResultTileLayer
+                      key={layer.id}
+                      layer={layer}
+                      opacity={layerOpacity}
+                      analysisVisibility={analysisVisibility}
+                    />
+                  );
+                case 'vector':
+                  return (
+                    <VectorResultLayer
+                      key={layer.id}
+                      layer={layer}
+                      opacity={layerOpacity}
+                      analysisVisibility={analysisVisibility}
+                      onError={handleLayerError}
+                    />
+                  );
+              }
+            })}
+
+            {inspection && (
+              <Popup position={inspection.latlng} eventHandlers={{ remove: () => setInspection(null) }}>
+                <div className="text-xs space-y-1 min-w-[140px]">
+                  <p className="font-mono text-slate-500">
+                    {inspection.latlng.lat.toFixed(5)}, {inspection.latlng.lng.toFixed(5)}
+                  </p>
+                  {inspection.loading ? (
+                    <p className="text-slate-600">Reading pixel values...</p>
+                  ) : (
+                    inspection.values.map(({ layer, value }) => (
+                      <p key={layer.id} className="flex justify-between space-x-3">
+                        <span className="text-slate-600">{layer.name}</span>
+                        <span className="font-semibold text-slate-900">{formatPixelValue(layer, value)}</span>
+                      </p>
+                    ))
+                  )}
+                </div>
+              </Popup>
+            )}
+          </MapContainer>
+
+          {/* Layer controls */}
+          {layers && layers.length > 0 && (
+            <div className="absolute top-3 right-3 z-[1000] w-60 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-slate-200 p-3">
+              <h4 className="flex items-center text-sm font-medium text-slate-900 mb-2">
+                <Layers className="w-4 h-4 mr-1.5" />
+                Layers
+              </h4>
+              <div className="space-y-3 max-h-56 overflow-y-auto">
+                {layers.map(layer => (
+                  <div key={layer.id}>
+                    <label className="flex items-center space-x-2 text-sm text-slate-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!visibility[layer.id]}
+                        onChange={(e) => setVisibility(prev => ({ ...prev, [layer.id]: e.target.checked }))}
+                      />
+                      <span className="truncate">{layer.name}</span>
+                    </label>
+                    {visibility[layer.id] && (
+                      <div className="flex items-center space-x-2 mt-1 pl-5">
+                        <input
+                          type="range"
+                          min={0}
+                          max={100}
+                          value={Math.round((opacity[layer.id] ?? DEFAULT_OPACITY) * 100)}
+                          onChange={(e) => setOpacity(prev => ({ ...prev, [layer.id]: Number(e.target.value) / 100 }))}
+                          className="flex-1 accent-blue-600"
+                          aria-label={`${layer.name} opacity`}
+                        />
+                        <span className="text-[10px] font-mono text-slate-500 w-8 text-right">
+                          {Math.round((opacity[layer.id] ?? DEFAULT_OPACITY) * 100)}%
+                        </span>
+                      </div>
+                    )}
+                    {layerErrors[layer.id] && (
+                      <p className="text-[11px] text-red-600 pl-5 mt-0.5">{layerErrors[layer.id]}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="flex items-center text-[11px] text-slate-500 mt-3">
+                <Crosshair className="w-3 h-3 mr-1" />
+                Click the map to read pixel values
+              </p>
+            </div>
+          )}
+
+          {/* Legends */}
+          {visibleLegends.length > 0 && (
+            <div className="absolute bottom-6 left-3 z-[1000] w-52 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-slate-200 p-3 space-y-3">
+              {visibleLegends.map(layer => (
+                <ResultLegend key={layer.id} legend={layer.legend || DEFAULT_NDVI_LEGEND} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Layers / compare toggle */}
+      {canCompare && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] flex bg-white/95 rounded-lg shadow-lg border border-slate-200 p-0.5">
+          {([['layers', 'Layers', Layers], ['compare', 'Compare', GitCompare]] as const).map(([id, label, Icon]) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setMode(id)}
+              className={cn(
+                'flex items-center px-3 py-1 rounded-md text-xs font-medium transition-colors',
+                mode === id ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+              )}
+            >
+              <Icon className="w-3.5 h-3.5 mr-1" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Loading and error states */}
+      {loading && (
+        <div className="absolute inset-0 z-[1001] flex items-center justify-center bg-white/70">
+          <div className="flex items-center space-x-2 text-slate-600 text-sm">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>Loading result layers...</span>
+          </div>
+        </div>
+      )}
+
+      {!loading && (error || layers?.length === 0) && (
+        <div className="absolute inset-0 z-[1001] flex items-center justify-center bg-white/80">
+          <div className="text-center text-slate-600">
+            <AlertCircle className="w-8 h-8 mx-auto mb-2 text-slate-400" />
+            <p className="text-sm mb-3">{error || 'This analysis has no map layers.'}</p>
+            {error && (
+              <button
+                type="button"
+                onClick={loadLayers}
+                className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Try again
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultMapViewer;
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { TileLayer, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { AnalysisVisibility, ResultLayer, isOpenVisibility } from '@/types/analysis';
+import { loadResultFile } from '@/utils/api';
+
+interface ResultTileLayerProps {
+  layer: ResultLayer;
+  opacity: number;
+  analysisVisibility?: AnalysisVisibility; // Private and organization tiles load with the viewer's session
+  onReady?: (gridLayer: L.GridLayer | null) => void; // Leaflet layer once added, null when removed
+}
+
+/**
+ * Tile layer whose tiles are fetched with the viewer's session
+ * <img> tiles send no token, so each one is loaded as an object URL instead.
+ */
+class ViewerTileLayer extends L.TileLayer {
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+
+    loadResultFile(this.getTileUrl(coords))
+      .then(objectUrl => {
+        tile.onload = () => {
+          URL.revokeObjectURL(objectUrl);
+          done(undefined, tile);
+        };
+        tile.onerror = () => {
+          URL.revokeObjectURL(objectUrl);
+          done(new Error('Tile could not be decoded'), tile);
+        };
+        tile.src = objectUrl;
+      })
+      .catch(error => done(error, tile));
+
+    return tile;
+  }
+}
+
+const AuthenticatedTileLayer: React.FC<Omit<ResultTileLayerProps, 'analysisVisibility'>> = ({
+  layer,
+  opacity,
+  onReady
+}) => {
+  const map = useMap();
+  const tileLayerRef = useRef<L.TileLayer | null>(null);
+  const opacityRef = useRef(opacity);
+  opacityRef.current = opacity;
+
+  useEffect(() => {
+    const tileLayer = new ViewerTileLayer(layer.url, { opacity: opacityRef.current, zIndex: 10 });
+    tileLayer.addTo(map);
+    tileLayerRef.current = tileLayer;
+    onReady?.(tileLayer);
+
+    return () => {
+      tileLayer.remove();
+      tileLayerRef.current = null;
+      onReady?.(null);
+    };
+  }, [map, layer.url]);
+
+  useEffect(() => {
+    tileLayerRef.current?.setOpacity(opacity);
+  }, [opacity]);
+
+  return null;
+};
+
+/**
+ * XYZ tile result layer
+ * Tiles of analyses not everyone can open are fetched with the viewer's session.
+ */
+const ResultTileLayer: React.FC<ResultTileLayerProps> = ({
+  layer,
+  opacity,
+  analysisVisibility,
+  onReady
+}) => {
+  if (isOpenVisibility(analysisVisibility)) {
+    return <TileLayer ref={onReady} url={layer.url} opacity={opacity} zIndex={10} />;
+  }
+  return <AuthenticatedTileLayer layer={layer} opacity={opacity} onReady={onReady} />;
+};
+
+export default ResultTileLayer;
@@ -0,0 +1,310 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { MapContainer } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Pause,
+  Play,
+  RefreshCw,
+  TrendingDown,
+  TrendingUp
+} from 'lucide-react';
+import {
+  AnalysisVisibility,
+  Coordinates,
+  NDVIPeriodStatistics,
+  ResultLayer,
+  TimeSeriesInterval,
+  convertBackendCoordinates
+} from '@/types/analysis';
+import { BasemapPreference } from '@/types/map';
+import { getAnalysisLayers, getAnalysisTimeSeries } from '@/utils/api';
+import { BASEMAP_STORAGE_KEY, getDefaultBasemapId, resolveBasemap } from '@/utils/basemaps';
+import { DEFAULT_NDVI_LEGEND } from '@/utils/colormap';
+import { findAnomalies, getLinearTrend, getPeriodLayer, getSlopePerYear } from '@/utils/timeseries';
+import useLocalStorage from '@/hooks/useLocalStorage';
+import NDVITimeSeriesChart from '../charts/NDVITimeSeriesChart';
+import BasemapLayer from './BasemapLayer';
+import FitToBounds from './FitToBounds';
+import RasterResultLayer from './RasterResultLayer';
+import ResultLegend from './ResultLegend';
+import ResultTileLayer from './ResultTileLayer';
+
+interface TimeSeriesViewerProps {
+  sessionId: string;
+  interval?: TimeSeriesInterval;
+  fallbackBounds?: Coordinates; // Study area, used when layers carry no bounds
+  analysisVisibility?: AnalysisVisibility;
+  className?: string;
+}
+
+const PLAY_INTERVAL_MS = 1500;
+const LAYER_OPACITY = 0.85;
+
+const toLatLngBounds = (coordinates: Coordinates): L.LatLngBounds => L.latLngBounds(
+  [coordinates.southwest_lat, coordinates.southwest_lon],
+  [coordinates.northeast_lat, coordinates.northeast_lon]
+);
+
+/**
+ * Time-series results: mean NDVI chart with trend and anomalies, and a
+ * time slider stepping the map through each period's NDVI layer
+ */
+const TimeSeriesViewer: React.FC<TimeSeriesViewerProps> = ({
+  sessionId,
+  interval = 'annual',
+  fallbackBounds,
+  analysisVisibility,
+  className = ''
+}) => {
+  const [series, setSeries] = useState<NDVIPeriodStatistics[] | null>(null);
+  const [layers, setLayers] = useState<ResultLayer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [layerError, setLayerError] = useState<string | null>(null);
+
+  const [basemapPreference] = useLocalStorage<BasemapPreference>(
+    BASEMAP_STORAGE_KEY,
+    { basemapId: getDefaultBasemapId() }
+  );
+  const basemap = resolveBasemap(basemapPreference);
+
+  const loadSeries = async () => {
+    setLoading(true);
+    setError(null);
+    setPlaying(false);
+
+    try {
+      // The map is optional; the chart still works without layers
+      const [timeSeries, resultLayers] = await Promise.all([
+        getAnalysisTimeSeries(sessionId),
+        getAnalysisLayers(sessionId).catch(() => null),
+      ]);
+
+      setSeries(timeSeries);
+      setLayers(resultLayers || []);
+      setIndex(timeSeries && timeSeries.length > 0 ? timeSeries.length - 1 : 0);
+    } catch (err) {
+      setError('The time series could not be loaded.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setSeries(null);
+    loadSeries();
+  }, [sessionId]);
+
+  const trend = useMemo(() => series ? getLinearTrend(series) : null, [series]);
+  const anomalies = useMemo(() => series ? findAnomalies(series) : [], [series]);
+
+  const bounds = useMemo(() => {
+    const layerBounds = layers.find(layer => layer.bounds)?.bounds;
+    if (layerBounds) return toLatLngBounds(convertBackendCoordinates(layerBounds));
+    return fallbackBounds ? toLatLngBounds(fallbackBounds) : null;
+  }, [layers, fallbackBounds]);
+
+  const periodCount = series?.length || 0;
+  const current = series?.[index] || null;
+  const currentLayer = current ? getPeriodLayer(layers, current) : null;
+  const hasMaps = !!series && series.some(period => getPeriodLayer(layers, period));
+
+  // Step through the periods, stopping at the last one
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setInterval(() => {
+      setIndex(prev => Math.min(prev + 1, periodCount - 1));
+    }, PLAY_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [playing, periodCount]);
+
+  useEffect(() => {
+    if (playing && index >= periodCount - 1) {
+      setPlaying(false);
+    }
+  }, [playing, index, periodCount]);
+
+  useEffect(() => {
+    setLayerError(null);
+  }, [currentLayer]);
+
+  const handlePlay = () => {
+    if (!playing && index >= periodCount - 1) {
+      setIndex(0);
+    }
+    setPlaying(prev => !prev);
+  };
+
+  if (loading) {
+    return (
+      <div className={`flex items-center justify-center h-64 text-sm text-slate-600 ${className}`}>
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+        Loading time series...
+      </div>
+    );
+  }
+
+  if (error || !series || series.length === 0) {
+    return (
+      <div className={`flex flex-col items-center justify-center h-48 text-slate-600 ${className}`}>
+        <AlertCircle className="w-8 h-8 mb-2 text-slate-400" />
+        <p className="text-sm mb-3">{error || 'No time series is available for this analysis.'}</p>
+        {error && (
+          <button
+            type="button"
+            onClick={loadSeries}
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Try again
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const slopePerYear = trend ? getSlopePerYear(trend, interval) : 0;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <div className="p-3 bg-slate-50 rounded-lg">
+          <div className="text-slate-600 mb-1">Trend</div>
+          <div className={`flex items-center font-semibold ${slopePerYear < 0 ? 'text-amber-700' : 'text-green-700'}`}>
+            {slopePerYear < 0 ? <TrendingDown className="w-4 h-4 mr-1" /> : <TrendingUp className="w-4 h-4 mr-1" />}
+            {trend ? `${slopePerYear > 0 ? '+' : ''}${slopePerYear.toFixed(4)} / yr` : 'n/a'}
+          </div>
+        </div>
+        <div className="p-3 bg-slate-50 rounded-lg">
+          <div className="text-slate-600 mb-1">Fit (R²)</div>
+          <div className="font-semibold text-slate-900">{trend ? trend.r2.toFixed(2) : 'n/a'}</div>
+        </div>
+        <div className="p-3 bg-slate-50 rounded-lg">
+          <div className="text-slate-600 mb-1">Anomalies</div>
+          <div className="font-semibold text-slate-900">
+            {anomalies.length} of {series.length} periods
+          </div>
+        </div>
+      </div>
+
+      {/* Period map */}
+      {hasMaps && (
+        <div className="relative h-[360px] rounded-lg overflow-hidden border border-slate-200">
+          <MapContainer
+            center={[0, 0]}
+            zoom={2}
+            className="h-full w-full"
+            zoomControl={true}
+          >
+            {basemap && <BasemapLayer basemap={basemap} />}
+            <FitToBounds bounds={bounds} />
+            {currentLayer && (currentLayer.type === 'raster' ? (
+              <RasterResultLayer
+                key={currentLayer.id}
+                layer={currentLayer}
+                opacity={LAYER_OPACITY}
+                analysisVisibility={analysisVisibility}
+                onError={(_layerId, message) => setLayerError(message)}
+              />
+            ) : (
+              <ResultTileLayer
+                key={currentLayer.id}
+                layer={currentLayer}
+                opacity={LAYER_OPACITY}
+                analysisVisibility={analysisVisibility}
+              />
+            ))}
+          </MapContainer>
+
+          <span className="absolute top-3 right-3 z-[1000] px-2 py-1 rounded-md bg-slate-900/80 text-white text-xs font-medium">
+            {current?.period}
+          </span>
+
+          {(layerError || !currentLayer) && (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] flex items-center space-x-1.5 bg-white/95 rounded-lg shadow border border-slate-200 px-3 py-1.5 text-xs text-slate-600">
+              <AlertCircle className="w-3.5 h-3.5" />
+              <span>{layerError || 'No map for this period'}</span>
+            </div>
+          )}
+
+          <div className="absolute bottom-6 left-3 z-[1000] w-52 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-slate-200 p-3">
+            <ResultLegend legend={currentLayer?.legend || DEFAULT_NDVI_LEGEND} />
+          </div>
+        </div>
+      )}
+
+      {/* Time slider */}
+      <div className="flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={handlePlay}
+          disabled={periodCount < 2}
+          className="p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIndex(prev => Math.max(0, prev - 1))}
+          disabled={index === 0}
+          className="p-1 rounded text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+          title="Previous period"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, periodCount - 1)}
+          value={index}
+          onChange={(e) => {
+            setPlaying(false);
+            setIndex(Number(e.target.value));
+          }}
+          className="flex-1 accent-blue-600"
+          aria-label="Period"
+        />
+        <button
+          type="button"
+          onClick={() => setIndex(prev => Math.min(periodCount - 1, prev + 1))}
+          disabled={index >= periodCount - 1}
+          className="p-1 rounded text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+          title="Next period"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <div className="w-28 text-right">
+          <p className="text-sm font-semibold text-slate-900">{current?.period}</p>
+          <p className="text-xs font-mono text-slate-500">{current?.mean.toFixed(3)}</p>
+        </div>
+      </div>
+
+      <NDVITimeSeriesChart
+        series={series}
+        trend={trend}
+        anomalies={anomalies}
+        selectedIndex={index}
+        onSelect={(selected) => {
+          setPlaying(false);
+          setIndex(selected);
+        }}
+        filename={`ndvi_timeseries_${sessionId}`}
+      />
+    </div>
+  );
+};
+
+export default TimeSeriesViewer;
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { AnalysisCard, MetadataUpdate } from '@/types/analysis';
+import Button from '../ui/Button';
+import TagInput from '../ui/TagInput';
+import { MAX_DESCRIPTION_LENGTH, MAX_TITLE_LENGTH } from '../gallery/PublishDialog';
+
+const MAX_TAGS = 10;
+
+interface AnalysisDetailsEditorProps {
+  analysis: AnalysisCard;      // Current values, generated ones included, are the starting point
+  tagSuggestions?: string[];
+  onSave: (update: MetadataUpdate) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Owner form for the title, description and tags of an analysis
+ */
+const AnalysisDetailsEditor: React.FC<AnalysisDetailsEditorProps> = ({
+  analysis,
+  tagSuggestions = [],
+  onSave,
+  onCancel
+}) => {
+  const [title, setTitle] = useState(analysis.title);
+  const [description, setDescription] = useState(analysis.description);
+  const [tags, setTags] = useState(analysis.tags.slice(0, MAX_TAGS));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({ title: title.trim(), description: description.trim(), tags });
+    } catch {
+      // The caller reports the failure; keep the edits to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#43978D]';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="analysis-title" className="block text-sm font-medium text-slate-700 mb-1">Title</label>
+        <input
+          id="analysis-title"
+          type="text"
+          required
+          maxLength={MAX_TITLE_LENGTH}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="analysis-description" className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+        <textarea
+          id="analysis-description"
+          required
+          rows={3}
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="analysis-tags" className="block text-sm font-medium text-slate-700 mb-1">Tags</label>
+        <TagInput
+          id="analysis-tags"
+          tags={tags}
+          onChange={setTags}
+          suggestions={tagSuggestions}
+          maxTags={MAX_TAGS}
+        />
+        <p className="mt-1 text-xs text-slate-500">
+          Press Enter or comma to add a tag. Tags help others find your analysis in the community gallery.
+        </p>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" loading={isSaving} disabled={isSaving || !title.trim()}>
+          Save details
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AnalysisDetailsEditor;
@@ -1,6 +1,7 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import dynamic from 'next/dynamic';
 import { 
   X, 
   Download, 
@@ -23,46 +24,99 @@ import {
   AlertCircle,
   Sparkles,
   Zap,
-  ImageIcon
+  ImageIcon,
+  TrendingUp,
+  Pencil
 } from 'lucide-react';
 import { format } from 'date-fns';
-import { AnalysisCard } from '@/types/analysis';
+import {
+  AnalysisCard,
+  AnalysisMetadata,
+  AnalysisStatistics,
+  AnalysisVisibility,
+  MetadataUpdate,
+  VisibilityUpdate,
+  isListedVisibility
+} from '@/types/analysis';
+import { AnalysisModalView } from '@/types/ui';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
+import VisibilityBadge, { VISIBILITY_LEVELS, VISIBILITY_OPTIONS } from '../gallery/VisibilityBadge';
+import PublishDialog from '../gallery/PublishDialog';
+import AnalysisDetailsEditor from './AnalysisDetailsEditor';
+import NDVIStatisticsChart from '../charts/NDVIStatisticsChart';
 import { cn } from '@/utils/cn';
 import { 
   downloadAnalysisZip, 
-  openAnalysisMap, 
   getAnalysisMetadata,
+  getAnalysisStatistics,
   getAnalysisPreviewUrl,
   getAnalysisChartUrl,
   getAnalysisMapUrl,
   getAnalysisDownloadUrl,
+  getAnalysisShareUrl,
   checkPreviewAvailability
 } from '@/utils/api';
+import { hasClassStatistics } from '@/utils/statistics';
 import useToast from '@/hooks/useToast';
+import useEngagement, { toggleAnalysisLike, trackAnalysisShare, trackAnalysisView } from '@/hooks/useEngagement';
+import useResultFileUrl from '@/hooks/useResultFileUrl';
+
+// Leaflet needs the browser, so the viewer is loaded client-side only
+const ResultMapViewer = dynamic(() => import('../map/ResultMapViewer'), {
+  ssr: false,
+  loading: () => (
+    <div className="h-[480px] flex items-center justify-center bg-slate-50 rounded-lg text-sm text-slate-500">
+      Loading map...
+    </div>
+  ),
+});
+
+const TimeSeriesViewer = dynamic(() => import('../map/TimeSeriesViewer'), {
+  ssr: false,
+  loading: () => (
+    <div className="h-64 flex items-center justify-center text-sm text-slate-500">
+      Loading time series...
+    </div>
+  ),
+});
 
 interface AnalysisModalProps {
   analysis: AnalysisCard | null;
   isOpen: boolean;
+  initialView?: AnalysisModalView;
   onClose: () => void;
-  onLike?: (analysisId: string) => void;
-  onShare?: (analysis: AnalysisCard) => void;
+  onLike?: (analysis: AnalysisCard) => void;      // Toggles and reports failures; liked in place otherwise
+  onShare?: (analysis: AnalysisCard) => void;     // Copies the link and counts the share; done in place otherwise
   onDownload?: (analysis: AnalysisCard) => void;
+  // Owners only; publishing asks for confirmation first
+  onVisibilityChange?: (analysis: AnalysisCard, update: VisibilityUpdate) => Promise<void>;
+  onDetailsChange?: (analysis: AnalysisCard, update: MetadataUpdate) => Promise<void>;
+  tagSuggestions?: string[];    // Tags already used in the galleries, for autocomplete
 }
 
 const AnalysisModal: React.FC<AnalysisModalProps> = ({
   analysis,
   isOpen,
+  initialView = 'overview',
   onClose,
   onLike,
   onShare,
-  onDownload
+  onDownload,
+  onVisibilityChange,
+  onDetailsChange,
+  tagSuggestions
 }) => {
-  const [isLiked, setIsLiked] = useState(false);
-  const [likeCount, setLikeCount] = useState(0);
-  const [metadata, setMetadata] = useState<any>(null);
+  const engagement = useEngagement(analysis);
+  // Sharing settings and details saved from this modal, shown without reloading the analysis
+  const [edits, setEdits] = useState<Partial<Pick<AnalysisCard, 'visibility' | 'title' | 'description' | 'tags'>>>({});
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+  const [publishingAs, setPublishingAs] = useState<AnalysisVisibility | null>(null);
+  const [updatingVisibility, setUpdatingVisibility] = useState(false);
+  const [metadata, setMetadata] = useState<AnalysisMetadata | null>(null);
   const [loadingMetadata, setLoadingMetadata] = useState(false);
+  const [statistics, setStatistics] = useState<AnalysisStatistics | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
@@ -70,18 +124,32 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
   const [imageRetryTimer, setImageRetryTimer] = useState<NodeJS.Timeout | null>(null);
   const [pollTimer, setPollTimer] = useState<NodeJS.Timeout | null>(null);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const [showMap, setShowMap] = useState(initialView === 'map');
 
   const { showToast } = useToast();
 
+  // Previews of analyses not everyone can open are fetched with the viewer's session
+  const fileVisibility = edits.visibility || analysis?.visibility;
+  const thumbnailUrl = useResultFileUrl(
+    analysis?.thumbnail_url && imageRetryCount > 0 ? `${analysis.thumbnail_url}?retry=${imageRetryCount}` : analysis?.thumbnail_url,
+    fileVisibility
+  );
+  const chartFallbackUrl = useResultFileUrl(
+    analysis?.session_id && !loadingMetadata && !statistics ? getAnalysisChartUrl(analysis.session_id) : undefined,
+    fileVisibility
+  );
+
   // Update local state when analysis changes
   useEffect(() => {
     if (analysis) {
-      setIsLiked(false);
-      setLikeCount(analysis.likes);
+      setEdits({});
+      setIsEditingDetails(false);
+      setPublishingAs(null);
       setImageLoading(true);
       setImageError(false);
       setImageRetryCount(0);
       setImageLoaded(false);
+      setShowMap(initialView === 'map');
       
       // Clear any existing timers
       if (imageRetryTimer) {
@@ -100,7 +168,14 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
         startPreviewPolling(analysis.session_id);
       }
     }
-  }, [analysis]);
+  }, [analysis, initialView]);
+
+  // Count a view each time an analysis is opened
+  useEffect(() => {
+    if (isOpen && analysis) {
+      trackAnalysisView(analysis);
+    }
+  }, [isOpen, analysis]);
 
   // Handle escape key and cleanup
   useEffect(() => {
@@ -130,11 +205,28 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
 
   const loadAnalysisMetadata = async (sessionId: string) => {
     setLoadingMetadata(true);
+    setMetadata(null);
+    setStatistics(null);
     try {
-      const meta = await getAnalysisMetadata(sessionId);
-      setMetadata(meta);
-    } catch (error) {
-      console.warn('Could not load metadata:', error);
+      let meta: AnalysisMetadata | null = null;
+      try {
+        meta = await getAnalysisMetadata(sessionId);
+        setMetadata(meta);
+      } catch (error) {
+        console.warn('Could not load metadata:', error);
+      }
+
+      // Older backends only publish statistics through their own endpoint
+      const metaStatistics = meta?.statistics;
+      let stats = hasClassStatistics(metaStatistics) ? metaStatistics : null;
+      if (!stats) {
+        try {
+          stats = await getAnalysisStatistics(sessionId);
+        } catch (error) {
+          console.warn('Could not load statistics:', error);
+        }
+      }
+      setStatistics(stats);
     } finally {
       setLoadingMetadata(false);
     }
@@ -231,28 +323,29 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
   };
 
   const handleLike = () => {
-    setIsLiked(!isLiked);
-    setLikeCount(prev => isLiked ? prev - 1 : prev + 1);
-    onLike?.(analysis.id);
-    
-    showToast({
-      type: isLiked ? 'info' : 'success',
-      title: isLiked ? 'Like Removed' : 'Analysis Liked!',
-      message: isLiked ? 'Removed from favorites' : 'Added to your favorites'
-    });
+    if (onLike) {
+      onLike(analysis);
+    } else {
+      // Rolled back on failure
+      toggleAnalysisLike(analysis).catch(() => {});
+    }
   };
 
   const handleShare = () => {
-    const shareUrl = `${window.location.origin}/?analysis=${analysis.session_id}`;
+    if (onShare) {
+      onShare(analysis);
+      return;
+    }
+
+    const shareUrl = getAnalysisShareUrl(analysis.session_id);
     navigator.clipboard.writeText(shareUrl);
+    trackAnalysisShare(analysis);
     
     showToast({
       type: 'success',
       title: 'Link Copied!',
       message: 'Analysis link copied to clipboard'
     });
-    
-    onShare?.(analysis);
   };
 
   const handleDownload = async () => {
@@ -283,14 +376,57 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
     }
   };
 
-  const handleOpenMap = () => {
+  const current: AnalysisCard = { ...analysis, ...edits };
+
+  const saveVisibility = async (update: VisibilityUpdate) => {
+    if (!onVisibilityChange) return;
+
+    setUpdatingVisibility(true);
+    try {
+      await onVisibilityChange(current, update);
+      setEdits(prev => ({
+        ...prev,
+        visibility: update.visibility,
+        title: update.title || current.title,
+        description: update.description || current.description,
+      }));
+    } finally {
+      setUpdatingVisibility(false);
+    }
+  };
+
+  const handleVisibilitySelect = (visibility: AnalysisVisibility) => {
+    if (visibility === current.visibility) return;
+
+    if (isListedVisibility(visibility)) {
+      setPublishingAs(visibility);
+    } else {
+      // The caller reports failures
+      saveVisibility({ visibility }).catch(() => {});
+    }
+  };
+
+  const handlePublishConfirm = async (update: VisibilityUpdate) => {
+    await saveVisibility(update);
+    setPublishingAs(null);
+  };
+
+  const handleDetailsSave = async (update: MetadataUpdate) => {
+    if (!onDetailsChange) return;
+
+    await onDetailsChange(current, update);
+    setEdits(prev => ({
+      ...prev,
+      title: update.title || current.title,
+      description: update.description || current.description,
+      tags: update.tags || current.tags,
+    }));
+    setIsEditingDetails(false);
+  };
+
+  const handleToggleMap = () => {
     if (analysis.session_id) {
-      openAnalysisMap(analysis.session_id);
-      showToast({
-        type: 'info',
-        title: 'Opening Interactive Map',
-        message: `${analysis.location_name} analysis map`
-      });
+      setShowMap(prev => !prev);
     }
   };
 
@@ -377,6 +513,7 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                     {analysis.category.replace('_', ' ')}
                   </span>
                 </div>
+                <VisibilityBadge visibility={current.visibility} size="md" />
                 {analysis.session_id && (
                   <div className="px-3 py-1 bg-slate-100 rounded-full text-sm font-mono text-slate-600">
                     {analysis.session_id.substring(0, 8)}...
@@ -384,26 +521,49 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                 )}
               </div>
               
-              <h2 className="text-3xl font-bold text-slate-900 mb-3">
-                {analysis.title}
-              </h2>
-              <p className="text-slate-600 text-lg">
-                {analysis.description}
-              </p>
+              {isEditingDetails ? (
+                <AnalysisDetailsEditor
+                  analysis={current}
+                  tagSuggestions={tagSuggestions}
+                  onSave={handleDetailsSave}
+                  onCancel={() => setIsEditingDetails(false)}
+                />
+              ) : (
+                <>
+                  <div className="flex items-start space-x-3 mb-3">
+                    <h2 className="text-3xl font-bold text-slate-900">
+                      {current.title}
+                    </h2>
+                    {onDetailsChange && (
+                      <button
+                        onClick={() => setIsEditingDetails(true)}
+                        className="mt-1 p-2 text-slate-500 hover:text-slate-700 hover:bg-white/60 rounded-lg transition-colors"
+                        title="Edit title, description and tags"
+                        aria-label="Edit details"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-slate-600 text-lg">
+                    {current.description}
+                  </p>
+                </>
+              )}
 
               {/* Quick stats */}
               <div className="flex items-center space-x-6 mt-4 text-sm text-slate-500">
                 <div className="flex items-center space-x-1">
                   <Eye className="w-4 h-4" />
-                  <span>{analysis.views.toLocaleString()} views</span>
+                  <span>{engagement.views.toLocaleString()} views</span>
                 </div>
                 <div className="flex items-center space-x-1">
                   <Heart className="w-4 h-4" />
-                  <span>{likeCount} likes</span>
+                  <span>{engagement.likes} likes</span>
                 </div>
                 <div className="flex items-center space-x-1">
                   <Share2 className="w-4 h-4" />
-                  <span>{analysis.shares} shares</span>
+                  <span>{engagement.shares} shares</span>
                 </div>
               </div>
             </div>
@@ -420,6 +580,18 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
           <div className="overflow-y-auto max-h-[calc(95vh-200px)]">
             <div className="p-6 space-y-8">
               
+              {/* Result map viewer */}
+              {showMap && analysis.session_id && (
+                <ResultMapViewer
+                  sessionId={analysis.session_id}
+                  fallbackBounds={analysis.coordinates}
+                  startYear={analysis.start_year}
+                  endYear={analysis.end_year}
+                  analysisVisibility={current.visibility}
+                  className="h-[480px]"
+                />
+              )}
+
               {/* Main content grid */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 
@@ -445,7 +617,7 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                           
                           {!imageError ? (
                             <img
-                              src={imageRetryCount > 0 ? `${analysis.thumbnail_url}?retry=${imageRetryCount}&t=${Date.now()}` : analysis.thumbnail_url}
+                              src={thumbnailUrl}
                               alt={analysis.title}
                               className={cn(
                                 "w-full h-full object-cover",
@@ -484,17 +656,17 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                   <div className="grid grid-cols-2 gap-3">
                     <Button
                       variant="primary"
-                      onClick={handleOpenMap}
+                      onClick={handleToggleMap}
                       className="flex items-center justify-center space-x-2"
                       disabled={!analysis.session_id}
                     >
                       <Map className="w-5 h-5" />
-                      <span>Open Interactive Map</span>
+                      <span>{showMap ? 'Hide Result Map' : 'Show Result Map'}</span>
                     </Button>
                     
                     <Button
                       variant="outline"
-                      onClick={() => analysis.session_id && window.open(getAnalysisChartUrl(analysis.session_id), '_blank')}
+                      onClick={() => chartRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })}
                       className="flex items-center justify-center space-x-2"
                       disabled={!analysis.session_id}
                     >
@@ -562,6 +734,41 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                     </Card>
                   )}
 
+                  {/* Visibility */}
+                  {onVisibilityChange && (
+                    <Card>
+                      <h3 className="font-semibold text-slate-900 mb-3 flex items-center">
+                        <Globe className="w-5 h-5 mr-2 text-green-600" />
+                        Who can see this analysis
+                      </h3>
+                      <div className="grid grid-cols-2 gap-2">
+                        {VISIBILITY_LEVELS.map((visibility) => {
+                          const { label, description, icon: Icon } = VISIBILITY_OPTIONS[visibility];
+                          const selected = visibility === current.visibility;
+                          return (
+                            <button
+                              key={visibility}
+                              onClick={() => handleVisibilitySelect(visibility)}
+                              disabled={updatingVisibility}
+                              className={cn(
+                                'p-3 rounded-lg border text-left transition-colors disabled:opacity-50',
+                                selected
+                                  ? 'border-[#43978D] bg-[#43978D]/10'
+                                  : 'border-slate-200 hover:border-[#43978D]/50'
+                              )}
+                            >
+                              <div className="flex items-center space-x-2 font-medium text-slate-900">
+                                <Icon className="w-4 h-4" />
+                                <span>{label}</span>
+                              </div>
+                              <p className="text-xs text-slate-500 mt-1">{description}</p>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </Card>
+                  )}
+
                   {/* Key Details */}
                   <Card>
                     <h3 className="font-semibold text-slate-900 mb-4">Analysis Details</h3>
@@ -617,13 +824,13 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                         <div className="p-3 bg-slate-50 rounded-lg">
                           <div className="text-slate-600 mb-1">Southwest</div>
                           <div className="text-slate-900 font-semibold">
-                            {metadata.coordinates?.latitude?.min?.toFixed(4)}, {metadata.coordinates?.longitude?.min?.toFixed(4)}
+                            {metadata.coordinates.latitude.min.toFixed(4)}, {metadata.coordinates.longitude.min.toFixed(4)}
                           </div>
                         </div>
                         <div className="p-3 bg-slate-50 rounded-lg">
                           <div className="text-slate-600 mb-1">Northeast</div>
                           <div className="text-slate-900 font-semibold">
-                            {metadata.coordinates?.latitude?.max?.toFixed(4)}, {metadata.coordinates?.longitude?.max?.toFixed(4)}
+                            {metadata.coordinates.latitude.max.toFixed(4)}, {metadata.coordinates.longitude.max.toFixed(4)}
                           </div>
                         </div>
                       </div>
@@ -631,14 +838,14 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                   )}
 
                   {/* Tags */}
-                  {analysis.tags.length > 0 && (
+                  {current.tags.length > 0 && (
                     <Card>
                       <h3 className="font-semibold text-slate-900 mb-3 flex items-center">
                         <Tag className="w-5 h-5 mr-2 text-blue-600" />
                         Research Tags
                       </h3>
                       <div className="flex flex-wrap gap-2">
-                        {analysis.tags.map((tag, index) => (
+                        {current.tags.map((tag, index) => (
                           <span
                             key={index}
                             className="inline-flex items-center px-3 py-1 text-sm font-medium bg-blue-100 text-blue-800 rounded-full hover:bg-blue-200 transition-colors"
@@ -685,6 +892,44 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                   )}
                 </div>
               </div>
+
+              {/* NDVI time series */}
+              {analysis.session_id && analysis.analysis_type === 'timeseries' && (
+                <div ref={chartRef}>
+                  <Card>
+                    <h3 className="font-semibold text-slate-900 mb-4 flex items-center">
+                      <TrendingUp className="w-5 h-5 mr-2 text-green-600" />
+                      NDVI Time Series
+                    </h3>
+                    <TimeSeriesViewer
+                      key={analysis.session_id}
+                      sessionId={analysis.session_id}
+                      interval={analysis.interval}
+                      fallbackBounds={analysis.coordinates}
+                      analysisVisibility={current.visibility}
+                    />
+                  </Card>
+                </div>
+              )}
+
+              {/* NDVI statistics */}
+              {analysis.session_id && analysis.analysis_type !== 'timeseries' && (
+                <div ref={chartRef}>
+                  <Card>
+                    <h3 className="font-semibold text-slate-900 mb-4 flex items-center">
+                      <BarChart3 className="w-5 h-5 mr-2 text-green-600" />
+                      NDVI Statistics
+                    </h3>
+                    <NDVIStatisticsChart
+                      key={analysis.session_id}
+                      statistics={statistics}
+                      loading={loadingMetadata}
+                      fallbackImageUrl={chartFallbackUrl}
+                      filename={`ndvi_statistics_${analysis.session_id}`}
+                    />
+                  </Card>
+                </div>
+              )}
             </div>
           </div>
 
@@ -695,13 +940,14 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
                 variant="ghost"
                 size="sm"
                 onClick={handleLike}
+                aria-pressed={engagement.liked}
                 className={cn(
                   'flex items-center space-x-2',
-                  isLiked ? 'text-red-600' : 'text-slate-600'
+                  engagement.liked ? 'text-red-600' : 'text-slate-600'
                 )}
               >
-                <Heart className={cn('w-4 h-4', isLiked && 'fill-current')} />
-                <span>{isLiked ? 'Liked' : 'Like'} ({likeCount})</span>
+                <Heart className={cn('w-4 h-4', engagement.liked && 'fill-current')} />
+                <span>{engagement.liked ? 'Liked' : 'Like'} ({engagement.likes})</span>
               </Button>
               
               <Button
@@ -729,18 +975,25 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({
               <Button
                 variant="primary"
                 size="sm"
-                onClick={handleOpenMap}
+                onClick={handleToggleMap}
                 className="flex items-center space-x-2"
                 disabled={!analysis.session_id}
               >
-                <ExternalLink className="w-4 h-4" />
-                <span>Open Full Analysis</span>
+                <Map className="w-4 h-4" />
+                <span>{showMap ? 'Hide Map' : 'View on Map'}</span>
               </Button>
             </div>
           </div>
         </Card>
       </div>
 
+      <PublishDialog
+        analysis={current}
+        visibility={publishingAs}
+        onConfirm={handlePublishConfirm}
+        onCancel={() => setPublishingAs(null)}
+      />
+
       {/* Custom animations */}
       <style jsx global>{`
         .animate-scale-in {
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTag } from '@/types/analysis';
+import { cn } from '@/utils/cn';
+
+const MAX_SUGGESTIONS = 8;
+
+interface TagInputProps {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];     // Known tags offered while typing, most used first
+  maxTags?: number;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Tag chips with a text field; Enter or comma adds a tag, Backspace on an
+ * empty field removes the last one
+ */
+const TagInput: React.FC<TagInputProps> = ({
+  id,
+  tags,
+  onChange,
+  suggestions = [],
+  maxTags = 10,
+  placeholder = 'Add a tag',
+  className
+}) => {
+  const [value, setValue] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const isFull = tags.length >= maxTags;
+  const query = normalizeTag(value);
+  const matches = query && !isFull
+    ? suggestions.filter(tag => tag.indexOf(query) !== -1 && !tags.includes(tag)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setValue('');
+    setHighlighted(0);
+    if (!tag || isFull || tags.includes(tag)) return;
+    onChange([...tags, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(item => item !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(index => (index + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(index => (index - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === ',') {
+      // Keep Enter from submitting the surrounding form
+      if (value.trim() || e.key === ',') e.preventDefault();
+      if (value.trim()) addTag(matches[highlighted] || value);
+    } else if (e.key === 'Backspace' && !value && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'Escape' && value) {
+      // Clear the field without closing the modal around it
+      e.stopPropagation();
+      setValue('');
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-slate-300 rounded-lg bg-white focus-within:ring-2 focus-within:ring-[#43978D]">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2 py-0.5 text-sm font-medium bg-blue-100 text-blue-800 rounded-full"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ml-1 p-0.5 rounded-full hover:bg-blue-200 transition-colors"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={value}
+          disabled={isFull}
+          placeholder={isFull ? `Up to ${maxTags} tags` : placeholder}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (value.trim()) addTag(value);
+          }}
+          className="flex-1 min-w-[8rem] text-sm bg-transparent focus:outline-none disabled:cursor-not-allowed"
+          autoComplete="off"
+        />
+      </div>
+
+      {isFocused && matches.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-1 z-10 max-h-48 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg py-1" role="listbox">
+          {matches.map((tag, index) => (
+            <li key={tag} role="option" aria-selected={index === highlighted}>
+              <button
+                type="button"
+                // Before the input loses focus and adds what was typed
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+                className={cn(
+                  'w-full text-left px-3 py-1.5 text-sm transition-colors',
+                  index === highlighted ? 'bg-slate-100 text-slate-900' : 'text-slate-700 hover:bg-slate-50'
+                )}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
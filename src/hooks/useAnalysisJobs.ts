@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AnalysisQuery, SessionAnalysis, TrackedJob } from '@/types/analysis';
+import { AnalysisCredentials } from '@/types/credentials';
+import {
+  submitAnalysis,
+  watchAnalysisJob,
+  cancelAnalysisJob,
+  formatApiError,
+  ProgressCallback
+} from '@/utils/api';
+import { AbortedError } from '@/utils/api-errors';
+import { jobRegistry, isJobActive } from '@/utils/job-registry';
+
+const isCancelled = (id: string): boolean => jobRegistry.get(id)?.status === 'cancelled';
+
+interface UseAnalysisJobsOptions {
+  userId?: string; // Whose jobs are listed and resumed; none until it is known
+  // Called when a job resumed after a page reload finishes
+  onJobComplete?: (session: SessionAnalysis, job: TrackedJob) => void;
+  onJobError?: (error: unknown, job: TrackedJob) => void;
+}
+
+interface UseAnalysisJobsReturn {
+  jobs: TrackedJob[];
+  submitJob: (
+    request: AnalysisQuery,
+    credentials: AnalysisCredentials,
+    userId: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ) => Promise<SessionAnalysis>;
+  cancelJob: (id: string) => Promise<void>;
+  removeJob: (id: string) => void;
+  clearFinishedJobs: () => void;
+}
+
+/**
+ * Submits analyses through the persistent job registry and resumes
+ * watching unfinished jobs after a reload
+ */
+const useAnalysisJobs = (options: UseAnalysisJobsOptions = {}): UseAnalysisJobsReturn => {
+  const { userId } = options;
+  const [jobs, setJobs] = useState<TrackedJob[]>([]);
+  const watchersRef = useRef<Map<string, AbortController>>(new Map());
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const refreshJobs = useCallback(() => {
+    setJobs(userId ? jobRegistry.list(userId) : []);
+  }, [userId]);
+
+  const updateJob = useCallback((id: string, patch: Partial<TrackedJob>) => {
+    const updated = jobRegistry.update(id, patch);
+    refreshJobs();
+    return updated;
+  }, [refreshJobs]);
+
+  const markFinished = useCallback((id: string, error: unknown, result?: SessionAnalysis) => {
+    if (result) {
+      return updateJob(id, {
+        status: 'completed',
+        progress: 100,
+        message: 'Analysis ready!',
+        session_id: result.session_id,
+        result,
+        finished_at: new Date().toISOString(),
+      });
+    }
+
+    // A cancelled job rejects its watcher too; keep the cancelled state.
+    // Other aborts (unmount) only stop watching; the job resumes on the next mount
+    if (isCancelled(id) || error instanceof AbortedError) {
+      return jobRegistry.get(id);
+    }
+
+    return updateJob(id, {
+      status: 'failed',
+      error: formatApiError(error),
+      finished_at: new Date().toISOString(),
+    });
+  }, [updateJob]);
+
+  // Resume watching jobs that were still running when the page was left,
+  // or when their user signs back in
+  useEffect(() => {
+    const watchers = watchersRef.current;
+    const resumed: string[] = [];
+
+    (userId ? jobRegistry.list(userId) : []).filter(isJobActive).forEach(job => {
+      // Already watched by this page, e.g. a submission still in flight
+      if (watchers.has(job.id)) return;
+
+      if (!job.job_id) {
+        // Synchronous submissions die with the page that made them
+        jobRegistry.update(job.id, {
+          status: 'failed',
+          error: 'Interrupted by a page reload before the backend accepted the job.',
+          finished_at: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const controller = new AbortController();
+      watchers.set(job.id, controller);
+      resumed.push(job.id);
+
+      watchAnalysisJob(
+        job.job_id,
+        (update) => {
+          if (isCancelled(job.id)) return;
+          updateJob(job.id, {
+            status: update.status,
+            progress: update.progress,
+            message: update.message,
+          });
+        },
+        controller.signal
+      )
+        .then(session => {
+          const finished = markFinished(job.id, null, session);
+          optionsRef.current.onJobComplete?.(session, finished || job);
+        })
+        .catch(error => {
+          if (error instanceof AbortedError) return;
+          const finished = markFinished(job.id, error);
+          optionsRef.current.onJobError?.(error, finished || job);
+        })
+        .finally(() => {
+          if (watchers.get(job.id) === controller) {
+            watchers.delete(job.id);
+          }
+        });
+    });
+
+    refreshJobs();
+
+    return () => {
+      resumed.forEach(id => {
+        watchers.get(id)?.abort();
+        watchers.delete(id);
+      });
+    };
+  }, [userId, refreshJobs, updateJob, markFinished]);
+
+  // Unmounting stops every watcher, submissions included
+  useEffect(() => {
+    const watchers = watchersRef.current;
+    return () => {
+      watchers.forEach(controller => controller.abort());
+      watchers.clear();
+    };
+  }, []);
+
+  const cancelJob = useCallback(async (id: string) => {
+    const job = jobRegistry.get(id);
+    if (!job || !isJobActive(job)) return;
+
+    updateJob(id, {
+      status: 'cancelled',
+      message: 'Cancelled',
+      finished_at: new Date().toISOString(),
+    });
+
+    watchersRef.current.get(id)?.abort();
+
+    if (job.job_id) {
+      try {
+        await cancelAnalysisJob(job.job_id);
+      } catch (error) {
+        console.warn('Backend did not confirm job cancellation:', error);
+      }
+    }
+  }, [updateJob]);
+
+  const submitJob = useCallback(async (
+    request: AnalysisQuery,
+    credentials: AnalysisCredentials,
+    userId: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SessionAnalysis> => {
+    const entry = jobRegistry.add({
+      query: request.query,
+      coordinates: request.coordinates,
+      geometry: request.geometry,
+      areas: request.areas,
+      mode: request.mode,
+      interval: request.interval,
+      user_id: userId,
+      status: 'submitting',
+      progress: 0,
+    });
+    refreshJobs();
+
+    // Aborting the caller's signal cancels the job, like the jobs panel does
+    const controller = new AbortController();
+    watchersRef.current.set(entry.id, controller);
+    const handleAbort = () => {
+      cancelJob(entry.id);
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    if (signal?.aborted) {
+      handleAbort();
+    }
+
+    try {
+      const session = await submitAnalysis(
+        { download_data: true, ...request },
+        credentials,
+        userId,
+        (progress, message, stage) => {
+          if (!isCancelled(entry.id)) {
+            updateJob(entry.id, {
+              status: stage === 'submitting' ? 'submitting' : 'running',
+              progress,
+              message,
+            });
+          }
+          onProgress?.(progress, message, stage);
+        },
+        (job) => {
+          if (!isCancelled(entry.id)) {
+            updateJob(entry.id, { job_id: job.job_id, status: job.status });
+            return;
+          }
+
+          // Cancelled while the submission was in flight
+          updateJob(entry.id, { job_id: job.job_id });
+          cancelAnalysisJob(job.job_id).catch(error => {
+            console.warn('Backend did not confirm job cancellation:', error);
+          });
+        },
+        controller.signal
+      );
+
+      markFinished(entry.id, null, session);
+      return session;
+    } catch (error) {
+      markFinished(entry.id, error);
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', handleAbort);
+      watchersRef.current.delete(entry.id);
+    }
+  }, [refreshJobs, updateJob, markFinished, cancelJob]);
+
+  const removeJob = useCallback((id: string) => {
+    watchersRef.current.get(id)?.abort();
+    jobRegistry.remove(id);
+    refreshJobs();
+  }, [refreshJobs]);
+
+  const clearFinishedJobs = useCallback(() => {
+    if (userId) {
+      jobRegistry.clearFinished(userId);
+    }
+    refreshJobs();
+  }, [userId, refreshJobs]);
+
+  return {
+    jobs,
+    submitJob,
+    cancelJob,
+    removeJob,
+    clearFinishedJobs,
+  };
+};
+
+export default useAnalysisJobs;
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AuthSession, AuthUser, SignInCredentials } from '@/types/auth';
+import {
+  signIn as signInRequest,
+  signUp as signUpRequest,
+  signOut as signOutRequest,
+  getOidcSignInUrl,
+  claimAnonymousAnalyses,
+} from '@/utils/api';
+import { authStore } from '@/utils/auth-store';
+
+interface UseAuthReturn {
+  user: AuthUser | null;
+  isSignedIn: boolean;
+  signIn: (credentials: SignInCredentials) => Promise<number>;
+  signUp: (credentials: SignInCredentials) => Promise<number>;
+  signInWithProvider: () => void;
+  signOut: () => Promise<void>;
+}
+
+export const OIDC_CALLBACK_PATH = '/auth/callback';
+
+/**
+ * Move anonymous analyses into the account that was just signed in to
+ * A failed claim keeps the anonymous id so it can be retried on the next sign-in
+ */
+export async function migrateAnonymousAnalyses(): Promise<number> {
+  try {
+    return await claimAnonymousAnalyses();
+  } catch (error) {
+    console.warn('Failed to move anonymous analyses to the account:', error);
+    return 0;
+  }
+}
+
+/**
+ * Signed-in user, kept in sync with sign-in and sign-out in any component or tab
+ * signIn and signUp resolve with the number of anonymous analyses moved into the account
+ */
+const useAuth = (): UseAuthReturn => {
+  const [session, setSession] = useState<AuthSession | null>(null);
+
+  // Read the session on the client only, like the user id
+  useEffect(() => {
+    setSession(authStore.get());
+    return authStore.subscribe(setSession);
+  }, []);
+
+  const signIn = useCallback(async (credentials: SignInCredentials) => {
+    await signInRequest(credentials);
+    return migrateAnonymousAnalyses();
+  }, []);
+
+  const signUp = useCallback(async (credentials: SignInCredentials) => {
+    await signUpRequest(credentials);
+    return migrateAnonymousAnalyses();
+  }, []);
+
+  const signInWithProvider = useCallback(() => {
+    window.location.assign(getOidcSignInUrl(`${window.location.origin}${OIDC_CALLBACK_PATH}`));
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await signOutRequest();
+  }, []);
+
+  return {
+    user: session?.user || null,
+    isSignedIn: session !== null,
+    signIn,
+    signUp,
+    signInWithProvider,
+    signOut,
+  };
+};
+
+export default useAuth;
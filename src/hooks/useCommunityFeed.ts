@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  AnalysisCard,
+  CommunityCategory,
+  CommunityItem,
+  GallerySort,
+  communityItemToAnalysisCard
+} from '@/types/analysis';
+import { getCommunityFeed, fixThumbnailUrl } from '@/utils/api';
+import { AbortedError } from '@/utils/api-errors';
+
+interface UseCommunityFeedOptions {
+  enabled: boolean;           // Fetch only while the feed is on screen
+  query: string;
+  category?: CommunityCategory;
+  sort: GallerySort;
+  userId?: string;            // Viewer, so cards show what they liked
+}
+
+interface UseCommunityFeedReturn {
+  analyses: AnalysisCard[];
+  total: number;
+  loading: boolean;           // First page of the current query
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: unknown;
+  loadMore: () => void;
+  refresh: () => void;
+}
+
+const toCard = (item: CommunityItem): AnalysisCard => ({
+  ...communityItemToAnalysisCard(item),
+  thumbnail_url: fixThumbnailUrl(item.session_id),
+});
+
+/**
+ * Pages through the public community feed
+ * A new query, category or sort starts again from the first page; pages
+ * that arrive for an outdated query are dropped.
+ */
+const useCommunityFeed = ({ enabled, query, category, sort, userId }: UseCommunityFeedOptions): UseCommunityFeedReturn => {
+  const [analyses, setAnalyses] = useState<AnalysisCard[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const requestRef = useRef(0);
+  const loadMoreRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const request = ++requestRef.current;
+    const controller = new AbortController();
+    loadMoreRef.current?.abort();
+    setLoading(true);
+    setLoadingMore(false);
+    setError(null);
+
+    getCommunityFeed({ q: query, category, sort, user_id: userId, offset: 0 }, controller.signal)
+      .then(page => {
+        if (request !== requestRef.current) return;
+        setAnalyses(page.items.map(toCard));
+        setTotal(page.total);
+      })
+      .catch(feedError => {
+        if (request !== requestRef.current || feedError instanceof AbortedError) return;
+        console.error('Failed to load community feed:', feedError);
+        setError(feedError);
+        setAnalyses([]);
+        setTotal(0);
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [enabled, query, category, sort, userId, reloadKey]);
+
+  const hasMore = analyses.length < total;
+
+  const loadMore = useCallback(() => {
+    if (loading || loadingMore || !hasMore) return;
+
+    const request = requestRef.current;
+    const controller = new AbortController();
+    loadMoreRef.current = controller;
+    setLoadingMore(true);
+
+    getCommunityFeed({ q: query, category, sort, user_id: userId, offset: analyses.length }, controller.signal)
+      .then(page => {
+        if (request !== requestRef.current) return;
+        // Analyses published meanwhile shift the offsets; skip repeats
+        setAnalyses(prev => {
+          const seen = new Set(prev.map(analysis => analysis.id));
+          return prev.concat(page.items.filter(item => !seen.has(item.session_id)).map(toCard));
+        });
+        setTotal(page.total);
+      })
+      .catch(feedError => {
+        if (request !== requestRef.current || feedError instanceof AbortedError) return;
+        console.error('Failed to load more community analyses:', feedError);
+        setError(feedError);
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoadingMore(false);
+      });
+  }, [loading, loadingMore, hasMore, query, category, sort, userId, analyses.length]);
+
+  const refresh = useCallback(() => {
+    setReloadKey(key => key + 1);
+  }, []);
+
+  return { analyses, total, loading, loadingMore, hasMore, error, loadMore, refresh };
+};
+
+export default useCommunityFeed;
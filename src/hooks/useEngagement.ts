@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { AnalysisCard, EngagementStats } from '@/types/analysis';
+import {
+  getUserId,
+  likeAnalysis,
+  unlikeAnalysis,
+  recordAnalysisView,
+  recordAnalysisShare
+} from '@/utils/api';
+import { UnsupportedError } from '@/utils/api-errors';
+import { engagementStore } from '@/utils/engagement-store';
+
+type UseEngagementReturn = Omit<EngagementStats, 'session_id'>;
+
+// Likes in flight; a second click waits for the first to settle
+const pendingLikes = new Set<string>();
+// Views are counted once per analysis and page load
+const viewedSessions = new Set<string>();
+
+/**
+ * Counts of an analysis: the latest from the store, else those it was loaded with
+ */
+export function getEngagement(analysis: AnalysisCard): EngagementStats {
+  return engagementStore.get(analysis.session_id) || {
+    session_id: analysis.session_id,
+    likes: analysis.likes,
+    views: analysis.views,
+    shares: analysis.shares,
+    liked: analysis.liked,
+  };
+}
+
+/**
+ * Like or unlike an analysis for the current user
+ * The change shows at once and is rolled back if the backend refuses it;
+ * the error is rethrown for the caller to report. Resolves with null when a
+ * like of the same analysis is still in flight and nothing changed.
+ */
+export async function toggleAnalysisLike(analysis: AnalysisCard): Promise<EngagementStats | null> {
+  const sessionId = analysis.session_id;
+  if (pendingLikes.has(sessionId)) return null;
+
+  const previous = getEngagement(analysis);
+  const liked = !previous.liked;
+  engagementStore.set({ ...previous, liked, likes: Math.max(0, previous.likes + (liked ? 1 : -1)) });
+  pendingLikes.add(sessionId);
+
+  try {
+    const stats = liked
+      ? await likeAnalysis(sessionId, getUserId())
+      : await unlikeAnalysis(sessionId, getUserId());
+    engagementStore.set(stats);
+    return stats;
+  } catch (error) {
+    // Views or shares may have changed meanwhile; undo the like only
+    const current = getEngagement(analysis);
+    engagementStore.set({ ...current, liked: previous.liked, likes: previous.likes });
+    throw error;
+  } finally {
+    pendingLikes.delete(sessionId);
+  }
+}
+
+/**
+ * Add one to a counter right away, then settle on the backend's counts
+ * Failures only undo the increment: the view or share already happened.
+ */
+async function trackEngagement(
+  analysis: AnalysisCard,
+  counter: 'views' | 'shares',
+  record: (sessionId: string, userId: string) => Promise<EngagementStats>
+): Promise<void> {
+  const previous = getEngagement(analysis);
+  engagementStore.set({ ...previous, [counter]: previous[counter] + 1 });
+
+  try {
+    engagementStore.set(await record(analysis.session_id, getUserId()));
+  } catch (error) {
+    const current = getEngagement(analysis);
+    engagementStore.set({ ...current, [counter]: Math.max(0, current[counter] - 1) });
+    if (!(error instanceof UnsupportedError)) {
+      console.warn(`Failed to record ${counter === 'views' ? 'view' : 'share'} of ${analysis.session_id}:`, error);
+    }
+  }
+}
+
+export function trackAnalysisView(analysis: AnalysisCard): Promise<void> {
+  if (viewedSessions.has(analysis.session_id)) return Promise.resolve();
+  viewedSessions.add(analysis.session_id);
+  return trackEngagement(analysis, 'views', recordAnalysisView);
+}
+
+export function trackAnalysisShare(analysis: AnalysisCard): Promise<void> {
+  return trackEngagement(analysis, 'shares', recordAnalysisShare);
+}
+
+/**
+ * Live likes, views and shares of an analysis, updated by every card and
+ * modal showing it
+ */
+const useEngagement = (analysis: AnalysisCard | null): UseEngagementReturn => {
+  const [, setVersion] = useState(0);
+  const sessionId = analysis ? analysis.session_id : null;
+
+  useEffect(() => {
+    if (!sessionId) return;
+    return engagementStore.subscribe(changed => {
+      if (changed === null || changed === sessionId) {
+        setVersion(version => version + 1);
+      }
+    });
+  }, [sessionId]);
+
+  if (!analysis) {
+    return { likes: 0, views: 0, shares: 0, liked: false };
+  }
+
+  const { likes, views, shares, liked } = getEngagement(analysis);
+  return { likes, views, shares, liked };
+};
+
+export default useEngagement;
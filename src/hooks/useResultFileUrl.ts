@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { AnalysisVisibility, isOpenVisibility } from '@/types/analysis';
+import { loadResultFile } from '@/utils/api';
+
+interface LoadedFile {
+  source: string;
+  url: string;
+}
+
+/**
+ * Address an <img> or <iframe> can load a result file from
+ * Files of public and unlisted analyses load by URL. Others need the viewer's
+ * session, so they are fetched and served from an object URL; undefined until
+ * then. A failed fetch gives back the plain URL, for the element's own error
+ * handling to take over.
+ */
+const useResultFileUrl = (url: string | undefined, visibility?: AnalysisVisibility): string | undefined => {
+  const direct = !url || isOpenVisibility(visibility);
+  const [loaded, setLoaded] = useState<LoadedFile | null>(null);
+
+  useEffect(() => {
+    if (direct || !url) return;
+
+    const controller = new AbortController();
+    let objectUrl: string | null = null;
+
+    loadResultFile(url, controller.signal)
+      .then(next => {
+        if (controller.signal.aborted) {
+          URL.revokeObjectURL(next);
+          return;
+        }
+        objectUrl = next;
+        setLoaded({ source: url, url: next });
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.warn(`Could not load ${url}:`, error);
+        setLoaded({ source: url, url });
+      });
+
+    return () => {
+      controller.abort();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url, direct]);
+
+  if (direct) return url;
+  return loaded && loaded.source === url ? loaded.url : undefined;
+};
+
+export default useResultFileUrl;
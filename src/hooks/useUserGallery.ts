@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  AnalysisCard,
+  GalleryItem,
+  GalleryPage,
+  GallerySort,
+  galleryItemToAnalysisCard
+} from '@/types/analysis';
+import { GALLERY_PAGE_SIZE, getUserGallery, fixThumbnailUrl } from '@/utils/api';
+import { AbortedError } from '@/utils/api-errors';
+
+interface UseUserGalleryOptions {
+  enabled: boolean;           // Fetch only while the gallery is on screen
+  userId: string;
+  query: string;              // Ignored by backends that do not page
+  sort: GallerySort;
+}
+
+interface UseUserGalleryReturn {
+  analyses: AnalysisCard[];
+  total: number | undefined;  // Unknown on backends that do not page
+  loading: boolean;           // First page of the current query
+  loadingMore: boolean;
+  hasMore: boolean;
+  serverSide: boolean;        // Search and sort happen on the backend
+  error: unknown;
+  loadMore: () => void;
+  refresh: () => void;
+  addAnalysis: (analysis: AnalysisCard) => void;
+  updateAnalysis: (id: string, changes: Partial<AnalysisCard>) => void;
+}
+
+/**
+ * Pages through a user's analyses
+ * Follows the backend cursor when it gives one and offsets otherwise. A new
+ * query or sort starts again from the first page; pages that arrive for an
+ * outdated one are dropped.
+ */
+const useUserGallery = ({ enabled, userId, query, sort }: UseUserGalleryOptions): UseUserGalleryReturn => {
+  const [analyses, setAnalyses] = useState<AnalysisCard[]>([]);
+  const [total, setTotal] = useState<number | undefined>(undefined);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [lastPageFull, setLastPageFull] = useState(false);
+  const [serverSide, setServerSide] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const requestRef = useRef(0);
+  const analysesRef = useRef(analyses);
+  analysesRef.current = analyses;
+  const loadMoreRef = useRef<AbortController | null>(null);
+
+  const toCard = useCallback((item: GalleryItem): AnalysisCard => ({
+    ...galleryItemToAnalysisCard(item, userId),
+    thumbnail_url: fixThumbnailUrl(item.session_id),
+  }), [userId]);
+
+  const applyPage = (page: GalleryPage) => {
+    setTotal(page.total);
+    setNextCursor(page.next_cursor);
+    setLastPageFull(page.items.length >= GALLERY_PAGE_SIZE);
+    setServerSide(page.total !== undefined);
+  };
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    const request = ++requestRef.current;
+    const controller = new AbortController();
+    loadMoreRef.current?.abort();
+    setLoading(true);
+    setLoadingMore(false);
+    setError(null);
+
+    getUserGallery(userId, { q: query, sort, offset: 0 }, controller.signal)
+      .then(page => {
+        if (request !== requestRef.current) return;
+        setAnalyses(page.items.map(toCard));
+        applyPage(page);
+      })
+      .catch(galleryError => {
+        if (request !== requestRef.current || galleryError instanceof AbortedError) return;
+        console.error('Failed to load user analyses:', galleryError);
+        setError(galleryError);
+        setAnalyses([]);
+        setTotal(undefined);
+        setNextCursor(undefined);
+        setLastPageFull(false);
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [enabled, userId, query, sort, toCard, reloadKey]);
+
+  const hasMore = nextCursor !== undefined
+    || (total !== undefined ? analyses.length < total : lastPageFull);
+
+  const loadMore = useCallback(() => {
+    if (loading || loadingMore || !hasMore) return;
+
+    const request = requestRef.current;
+    const controller = new AbortController();
+    loadMoreRef.current = controller;
+    setLoadingMore(true);
+
+    getUserGallery(
+      userId,
+      { q: query, sort, cursor: nextCursor, offset: analyses.length },
+      controller.signal
+    )
+      .then(page => {
+        if (request !== requestRef.current) return;
+        // New analyses shift the offsets; skip repeats
+        setAnalyses(prev => {
+          const seen = new Set(prev.map(analysis => analysis.id));
+          return prev.concat(page.items.filter(item => !seen.has(item.session_id)).map(toCard));
+        });
+        applyPage(page);
+      })
+      .catch(galleryError => {
+        if (request !== requestRef.current || galleryError instanceof AbortedError) return;
+        console.error('Failed to load more analyses:', galleryError);
+        setError(galleryError);
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoadingMore(false);
+      });
+  }, [loading, loadingMore, hasMore, userId, query, sort, nextCursor, analyses.length, toCard]);
+
+  const refresh = useCallback(() => {
+    setReloadKey(key => key + 1);
+  }, []);
+
+  // A finished analysis is shown before the next reload lists it
+  const addAnalysis = useCallback((analysis: AnalysisCard) => {
+    if (analysesRef.current.some(item => item.id === analysis.id)) return;
+    setAnalyses(prev => [analysis, ...prev]);
+    setTotal(count => count !== undefined ? count + 1 : count);
+  }, []);
+
+  const updateAnalysis = useCallback((id: string, changes: Partial<AnalysisCard>) => {
+    setAnalyses(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  return {
+    analyses,
+    total,
+    loading,
+    loadingMore,
+    hasMore,
+    serverSide,
+    error,
+    loadMore,
+    refresh,
+    addAnalysis,
+    updateAnalysis
+  };
+};
+
+export default useUserGallery;
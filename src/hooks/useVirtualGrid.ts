@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+interface UseVirtualGridOptions {
+  count: number;
+  columns: number;
+  gap: number;                  // Space between rows, in pixels
+  estimatedRowHeight: number;   // Until rendered rows have been measured
+  enabled: boolean;
+  overscan?: number;            // Rows kept beyond each edge of the viewport
+}
+
+interface UseVirtualGridReturn {
+  containerRef: React.RefObject<HTMLDivElement>;
+  start: number;                // Items [start, end) are rendered
+  end: number;
+  paddingTop: number;           // Stands in for the rows above and below
+  paddingBottom: number;
+}
+
+const INITIAL_ROWS = 6;
+
+/**
+ * Renders only the rows of a grid or list near the viewport
+ * The page itself scrolls, so rows are placed against the window. Cards have
+ * no fixed height: rows are measured as they render and the average is used
+ * for the rows that are not.
+ */
+const useVirtualGrid = ({
+  count,
+  columns,
+  gap,
+  estimatedRowHeight,
+  enabled,
+  overscan = 2
+}: UseVirtualGridOptions): UseVirtualGridReturn => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  const [range, setRange] = useState({ first: 0, last: INITIAL_ROWS });
+
+  const rows = Math.ceil(count / columns);
+  const rowStride = rowHeight + gap;
+  const layoutRef = useRef({ rows, rowStride, overscan });
+  layoutRef.current = { rows, rowStride, overscan };
+
+  const updateRange = useCallback(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const { rows, rowStride, overscan } = layoutRef.current;
+    const top = -element.getBoundingClientRect().top;
+    const first = Math.max(0, Math.min(rows, Math.floor(top / rowStride) - overscan));
+    const last = Math.max(first, Math.min(rows, Math.ceil((top + window.innerHeight) / rowStride) + overscan));
+    setRange(prev => prev.first === first && prev.last === last ? prev : { first, last });
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let frame = 0;
+    const schedule = () => {
+      if (!frame) {
+        frame = window.requestAnimationFrame(() => {
+          frame = 0;
+          updateRange();
+        });
+      }
+    };
+
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [enabled, updateRange]);
+
+  // New items, columns or row heights move every row
+  useEffect(() => {
+    if (enabled) updateRange();
+  }, [enabled, rows, rowStride, updateRange]);
+
+  const first = enabled ? Math.min(range.first, rows) : 0;
+  const last = enabled ? Math.min(Math.max(range.last, first), rows) : rows;
+  const paddingTop = enabled ? first * rowStride : 0;
+  const paddingBottom = enabled ? (rows - last) * rowStride : 0;
+
+  // Average the rendered rows; small differences are ignored so the
+  // estimate settles instead of following every card
+  useEffect(() => {
+    const element = containerRef.current;
+    const renderedRows = last - first;
+    if (!enabled || !element || renderedRows <= 0) return;
+
+    const content = element.offsetHeight - paddingTop - paddingBottom;
+    const measured = (content - gap * (renderedRows - 1)) / renderedRows;
+    if (measured > 0 && Math.abs(measured - rowHeight) > rowHeight * 0.05) {
+      setRowHeight(measured);
+    }
+  });
+
+  return {
+    containerRef,
+    start: first * columns,
+    end: Math.min(count, last * columns),
+    paddingTop,
+    paddingBottom
+  };
+};
+
+export default useVirtualGrid;
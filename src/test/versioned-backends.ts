@@ -0,0 +1,141 @@
+import { AnalysisJob, SessionAnalysis } from '@/types/analysis';
+import { ApiInfo, ApiVersion } from '@/types/api';
+import { handleMockRequest } from '@/utils/mock-backend';
+
+/**
+ * Backends of each API generation, for tests of the client
+ * Every generation publishes the `GET /` listing it shipped with. Analyses
+ * come from the mock backend: v1 answers /analyze with a ZIP file, v2 with
+ * a session, and v3 queues a job that is done by its first status request.
+ * v3 also issues event stream tokens to signed-in callers.
+ */
+
+// Where the client sends requests when NEXT_PUBLIC_API_URL is not set
+export const TEST_API_URL = 'http://localhost:8000';
+
+export const API_INFO: Record<ApiVersion, ApiInfo> = {
+  1: {
+    service: 'GeoAnalytics API',
+    version: '1.2.0',
+    description: 'NDVI analyses as ZIP downloads',
+    endpoints: {
+      health: '/health',
+      analyze: '/analyze',
+    },
+  },
+  2: {
+    service: 'GeoAnalytics API',
+    version: '2.1.0',
+    description: 'NDVI analyses with sessions',
+    endpoints: {
+      health: '/health',
+      analyze: '/analyze',
+      gallery: '/gallery/{user_id}',
+      results: '/results/{session_id}/{preview|map|chart|download|metadata}',
+    },
+  },
+  3: {
+    service: 'GeoAnalytics API',
+    version: '3.0.0',
+    description: 'NDVI analyses as jobs',
+    endpoints: {
+      health: '/health',
+      analyze: '/analyze',
+      jobs: {
+        create: '/jobs',
+        status: '/jobs/{job_id}',
+        events: '/jobs/{job_id}/events',
+        events_token: '/jobs/{job_id}/events/token',
+        cancel: '/jobs/{job_id}/cancel',
+      },
+      gallery: '/gallery/{user_id}',
+      results: '/results/{session_id}/{preview|map|chart|download|metadata}',
+      layers: '/results/{session_id}/layers',
+      statistics: '/results/{session_id}/statistics',
+      timeseries: '/results/{session_id}/timeseries',
+    },
+  },
+};
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+}
+
+export interface VersionedBackend {
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+  requests: RecordedRequest[];      // Every request received, in order
+}
+
+const notFound = (): Response => Response.json({ detail: 'Not Found' }, { status: 404 });
+
+// Smallest valid ZIP archive: an empty end-of-central-directory record
+const EMPTY_ZIP = new Uint8Array([0x50, 0x4b, 0x05, 0x06, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+export function createVersionedBackend(version: ApiVersion): VersionedBackend {
+  const requests: RecordedRequest[] = [];
+  const jobs = new Map<string, AnalysisJob>();
+  let streamTokens = 0;
+
+  const runAnalysis = async (form: FormData): Promise<SessionAnalysis> => {
+    const request = new Request(`${TEST_API_URL}/analyze`, { method: 'POST', body: form });
+    const response = await handleMockRequest(request, ['analyze'], TEST_API_URL);
+    return response.json();
+  };
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const path = url.pathname.split('/').filter(Boolean);
+    const [root, id] = path;
+
+    if (request.method === 'GET' && !root) {
+      return Response.json(API_INFO[version]);
+    }
+
+    if (version === 1) {
+      if (request.method === 'POST' && root === 'analyze') {
+        return new Response(EMPTY_ZIP, { headers: { 'Content-Type': 'application/zip' } });
+      }
+      return root === 'health' ? handleMockRequest(request, path, TEST_API_URL) : notFound();
+    }
+
+    if (root === 'jobs') {
+      if (version !== 3) return notFound();
+
+      if (request.method === 'POST' && !id) {
+        const now = new Date().toISOString();
+        const job: AnalysisJob = {
+          job_id: `job_${jobs.size + 1}`,
+          status: 'completed',
+          progress: 100,
+          result: await runAnalysis(await request.formData()),
+          created_at: now,
+          updated_at: now,
+        };
+        jobs.set(job.job_id, job);
+        return Response.json({ ...job, status: 'queued', progress: 0, result: undefined }, { status: 202 });
+      }
+
+      const job = id ? jobs.get(id) : undefined;
+      if (request.method === 'POST' && job && path[2] === 'events' && path[3] === 'token') {
+        if (!request.headers.get('Authorization')) {
+          return Response.json({ detail: 'Not authenticated' }, { status: 401 });
+        }
+        streamTokens += 1;
+        return Response.json({ token: `stream_${streamTokens}`, expires_in: 60 });
+      }
+      return request.method === 'GET' && job && path.length === 2 ? Response.json(job) : notFound();
+    }
+
+    return handleMockRequest(request, path, TEST_API_URL);
+  };
+
+  return {
+    requests,
+    fetch: async (input, init) => {
+      const request = new Request(input, init);
+      requests.push({ method: request.method, path: new URL(request.url).pathname });
+      return handle(request);
+    },
+  };
+}
@@ -1,3 +1,5 @@
+import type { MultiPolygon, Polygon } from 'geojson';
+
 export interface Coordinates {
   southwest_lat: number;
   southwest_lon: number;
@@ -14,18 +16,73 @@ export interface AreaOfInterest {
   };
 }
 
+/**
+ * Polygon outline of an area of interest (WGS84, GeoJSON winding)
+ */
+export type AOIGeometry = Polygon | MultiPolygon;
+
+/**
+ * Area of interest carrying its true outline, not just the bounding box
+ * `coordinates` holds the bounding box of `geometry`
+ */
+export interface GeometryAreaOfInterest extends AreaOfInterest {
+  id: string;                 // Local id, stable across edits
+  geometry: AOIGeometry;
+  source: 'rectangle' | 'polygon' | 'circle' | 'upload' | 'place';
+  name?: string;              // User-given, uploaded file or feature name
+  perimeter_km?: number;      // Geodesic length of all rings
+}
+
+/**
+ * Two-epoch change analysis, or a series of annual/seasonal/monthly periods
+ */
+export type AnalysisMode = 'change' | 'timeseries';
+
+export type TimeSeriesInterval = 'annual' | 'seasonal' | 'monthly';
+
 export interface AnalysisQuery {
   query: string;
+  mode?: AnalysisMode;              // Default 'change'
+  interval?: TimeSeriesInterval;    // Time-series mode only, default 'annual'
   coordinates?: Coordinates;
+  geometry?: AOIGeometry;
+  areas?: GeometryAreaOfInterest[]; // Named AOIs; take precedence over coordinates/geometry
   download_data?: boolean;
 }
 
 export interface NDVIStatistics {
-  label: string;
-  value: number;
+  label: string;              // NDVI class, e.g. "Dense vegetation"
+  value: number;              // Share of the study area, in percent
   color: string;
 }
 
+/**
+ * Per-class NDVI statistics for both epochs, from /metadata or /statistics
+ */
+export interface AnalysisStatistics {
+  start_year: NDVIStatistics[];
+  end_year: NDVIStatistics[];
+  start_year_num: number;
+  end_year_num: number;
+}
+
+/**
+ * NDVI summary of one period of a time series
+ */
+export interface NDVIPeriodStatistics {
+  period: string;             // "2021", "2021-JJA" (season) or "2021-06" (month)
+  start_date: string;         // ISO date, first day of the period
+  end_date: string;           // ISO date, last day of the period
+  mean: number;
+  median?: number;
+  min?: number;
+  max?: number;
+  std?: number;
+  valid_fraction?: number;    // Share of cloud-free pixels, 0-1
+  classes?: NDVIStatistics[];
+  layer_id?: string;          // ResultLayer showing this period's NDVI
+}
+
 // ===== NEW SESSION-BASED TYPES =====
 
 /**
@@ -34,6 +91,7 @@ export interface NDVIStatistics {
 export interface SessionAnalysis {
   session_id: string;
   user_id: string;
+  analysis_type?: AnalysisMode;   // Absent on backends that only run change analyses
   analysis: {
     location: {
       name: string;
@@ -55,11 +113,102 @@ export interface SessionAnalysis {
     chart_url: string;        // /results/{session_id}/chart
     download_url: string;     // /results/{session_id}/download
     metadata_url: string;     // /results/{session_id}/metadata
+    timeseries_url?: string;  // /results/{session_id}/timeseries
   };
   created_at: string;
   status: string;
 }
 
+/**
+ * Time-series result: start_year/end_year span the whole series
+ */
+export interface TimeSeriesSessionAnalysis extends SessionAnalysis {
+  analysis_type: 'timeseries';
+  interval: TimeSeriesInterval;
+  time_series: NDVIPeriodStatistics[];
+}
+
+export function isTimeSeriesAnalysis(session: SessionAnalysis): session is TimeSeriesSessionAnalysis {
+  return session.analysis_type === 'timeseries';
+}
+
+/**
+ * Lifecycle states of an asynchronous analysis job
+ */
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Job snapshot from /jobs/{job_id}, also sent as each /jobs/{job_id}/events message
+ */
+export interface AnalysisJob {
+  job_id: string;
+  status: AnalysisJobStatus;
+  progress: number;           // 0-100
+  stage?: string;             // Backend stage id, e.g. "fetching_imagery"
+  message?: string;           // Human readable stage description
+  result?: SessionAnalysis;   // Present once status is "completed"
+  error?: string;             // Present once status is "failed"
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Response from POST /jobs/{job_id}/events/token
+ * Opens the event stream of one job once, within `expires_in` seconds.
+ */
+export interface JobStreamToken {
+  token: string;
+  expires_in: number;
+}
+
+/**
+ * Client-side record of a submitted analysis, persisted across page reloads
+ */
+export interface TrackedJob {
+  id: string;                 // Local id, stable before the backend assigns a job id
+  job_id?: string;            // Backend job id (absent for synchronous backends)
+  query: string;
+  coordinates?: Coordinates;  // Area of interest sent with the query, kept for retries
+  geometry?: AOIGeometry;
+  areas?: GeometryAreaOfInterest[];
+  mode?: AnalysisMode;
+  interval?: TimeSeriesInterval;
+  user_id: string;
+  status: AnalysisJobStatus | 'submitting';
+  progress: number;
+  message?: string;
+  error?: string;
+  session_id?: string;
+  result?: SessionAnalysis;
+  created_at: string;
+  updated_at: string;
+  finished_at?: string;
+  restored?: boolean;         // Read back after a reload, without its area of interest or result
+}
+
+/**
+ * Who can open an analysis
+ * private: the owner only; unlisted: anyone with the link, not listed;
+ * organization: members of the owner's organization, listed in their feed;
+ * public: anyone, listed in the community feed
+ */
+export type AnalysisVisibility = 'private' | 'unlisted' | 'organization' | 'public';
+
+/**
+ * Levels at which an analysis appears in a community feed
+ */
+export function isListedVisibility(visibility: AnalysisVisibility): boolean {
+  return visibility === 'organization' || visibility === 'public';
+}
+
+/**
+ * Levels anyone can open, so result files load without the viewer's session
+ * Analyses without a visibility count as private.
+ */
+export function isOpenVisibility(visibility?: AnalysisVisibility): boolean {
+  return visibility === 'unlisted' || visibility === 'public';
+}
+
 /**
  * Gallery item from /gallery/{user_id} endpoint
  */
@@ -74,6 +223,122 @@ export interface GalleryItem {
   map_url: string;          // Interactive map URL
   chart_url: string;        // Chart image URL
   download_url: string;     // ZIP download URL
+  analysis_type?: AnalysisMode;
+  interval?: TimeSeriesInterval;
+  visibility?: AnalysisVisibility;  // Absent on backends without sharing controls
+  title?: string;           // Set by the owner when publishing or editing
+  description?: string;
+  tags?: string[];          // Set by the owner; absent until they tag it
+  likes?: number;           // Engagement counts; absent on backends without them
+  views?: number;
+  shares?: number;
+  liked?: boolean;          // Whether the requesting user liked it
+}
+
+/**
+ * Query parameters of /gallery/{user_id}
+ * `cursor` comes from the previous page and wins over `offset`
+ */
+export interface GalleryQuery {
+  q?: string;
+  sort?: GallerySort;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+/**
+ * One page of /gallery/{user_id}
+ * Backends that page, search and sort report `total`; older ones answer with
+ * a bare list, read as a page without it
+ */
+export interface GalleryPage {
+  items: GalleryItem[];
+  total?: number;           // Matches across all pages
+  next_cursor?: string;     // Absent on the last page or when paging by offset
+}
+
+/**
+ * Community feed sections; "recently_published" covers the last 30 days of every section
+ */
+export type CommunityCategory = 'recently_published' | 'community_research' | 'enterprise_repository';
+
+/**
+ * Sort orders offered by galleries and the community feed
+ */
+export type GallerySort = 'newest' | 'oldest' | 'popular' | 'title' | 'location';
+
+/**
+ * Published analysis from the /community feed
+ */
+export interface CommunityItem extends GalleryItem {
+  user_id: string;
+  author: string;           // Display name chosen by the backend
+  category: Exclude<CommunityCategory, 'recently_published'>;
+  published_at: string;
+}
+
+/**
+ * Query parameters of /community; search, filter and sort happen on the backend
+ */
+export interface CommunityFeedQuery {
+  q?: string;
+  category?: CommunityCategory;
+  sort?: GallerySort;
+  limit?: number;
+  offset?: number;
+  user_id?: string;         // Viewer, so items say whether they liked them
+}
+
+/**
+ * One page of /community
+ */
+export interface CommunityFeedPage {
+  items: CommunityItem[];
+  total: number;            // Matches across all pages
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Body of PUT /results/{session_id}/visibility
+ * Publishing (organization or public) sends the title and description to list
+ */
+export interface VisibilityUpdate {
+  visibility: AnalysisVisibility;
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Response from PUT /results/{session_id}/visibility
+ */
+export interface VisibilityState {
+  session_id: string;
+  visibility: AnalysisVisibility;
+  published_at?: string;    // Set while listed
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Counts returned by the like, view and share endpoints of /results/{session_id}
+ */
+export interface EngagementStats {
+  session_id: string;
+  likes: number;
+  views: number;
+  shares: number;
+  liked: boolean;           // Whether the requesting user likes it
+}
+
+/**
+ * Owner edits sent with PATCH /results/{session_id}/metadata; omitted fields stay unchanged
+ */
+export interface MetadataUpdate {
+  title?: string;
+  description?: string;
+  tags?: string[];
 }
 
 /**
@@ -98,6 +363,53 @@ export interface AnalysisMetadata {
   end_year: number;
   created_at: string;
   status: string;
+  statistics?: AnalysisStatistics;  // Per-class NDVI statistics, when the backend includes them
+  visibility?: AnalysisVisibility;
+  title?: string;
+  description?: string;
+  tags?: string[];
+}
+
+/**
+ * Colour ramp or classes for a result layer
+ */
+export interface ResultLegend {
+  title: string;
+  type: 'continuous' | 'categorical';
+  colors: string[];           // Ramp stops (low to high) or one colour per class
+  min?: number;               // Continuous range
+  max?: number;
+  labels?: string[];          // Class labels, aligned with colors
+  unit?: string;
+}
+
+/**
+ * Map layer produced by an analysis, from /results/{session_id}/layers
+ */
+export interface ResultLayer {
+  id: string;
+  name: string;
+  type: 'raster' | 'tiles' | 'vector';
+  url: string;                // GeoTIFF/COG, XYZ tile template or GeoJSON; may be relative to the API
+  bounds?: {
+    latitude: {
+      min: number;
+      max: number;
+    };
+    longitude: {
+      min: number;
+      max: number;
+    };
+  };
+  year?: number;              // Epoch shown, matched against start_year/end_year in compare mode
+  period?: string;            // Time-series period shown, matched against NDVIPeriodStatistics.period
+  difference?: boolean;       // End minus start change layer
+  band?: number;              // Raster band to display (default 0)
+  nodata?: number;            // Overrides the raster's own nodata value
+  legend?: ResultLegend;
+  value_url?: string;         // Point query template with {lat} and {lon}, for tile layers
+  visible?: boolean;          // Shown when the viewer opens
+  opacity?: number;           // 0-1, default 0.8
 }
 
 // ===== LEGACY TYPES (Updated for compatibility) =====
@@ -120,12 +432,7 @@ export interface AnalysisResults {
     start_year: number;
     end_year: number;
   };
-  statistics: {
-    start_year: NDVIStatistics[];
-    end_year: NDVIStatistics[];
-    start_year_num: number;
-    end_year_num: number;
-  };
+  statistics: AnalysisStatistics;
   files_included: {
     [key: string]: string;
   };
@@ -146,23 +453,29 @@ export interface AnalysisCard {
   end_year: number;
   created_at: string;
   author: string;             // user_id or display name
-  likes: number;              // For future implementation
-  shares: number;             // For future implementation
-  views: number;              // For future implementation
+  user_id?: string;           // Owner, when known; decides who may edit it
+  likes: number;
+  shares: number;
+  views: number;
+  liked: boolean;             // Liked by the current user
   tags: string[];             // Generated from query/location
   thumbnail_url?: string;     // From backend preview_url
   map_url?: string;           // From backend map_url  
   chart_url?: string;         // From backend chart_url
   download_url?: string;      // From backend download_url
-  category: 'recently_published' | 'community_research' | 'enterprise_repository' | 'user_analyses';
-  is_public: boolean;
+  category: CommunityCategory | 'user_analyses';
+  visibility: AnalysisVisibility;
   session_id: string;         // Backend session identifier
+  analysis_type?: AnalysisMode;
+  interval?: TimeSeriesInterval;
   analysis_results?: AnalysisResults;
 }
 
 export interface AnalysisFormData {
   query: string;
   coordinates?: Coordinates;
+  geometry?: AOIGeometry;
+  areas?: GeometryAreaOfInterest[];
   credentials_file?: File;
   download_data: boolean;
   user_id?: string;           // Added for enhanced backend
@@ -172,6 +485,8 @@ export interface AnalysisStatus {
   status: 'idle' | 'processing' | 'completed' | 'error';
   progress?: number;
   message?: string;
+  stage?: string;             // Current backend job stage
+  job_id?: string;            // Set once the backend accepted the job
   results?: SessionAnalysis;  // Changed from AnalysisResults
   error?: string;
 }
@@ -266,8 +581,54 @@ function extractAnalysisType(query: string): string {
   }
 }
 
+const MAX_TAG_LENGTH = 32;
+
+// Query words that say nothing about the subject of an analysis
+const TAG_STOP_WORDS = [
+  'about', 'analysis', 'analyze', 'area', 'between', 'change', 'changes', 'compare', 'during',
+  'from', 'have', 'into', 'much', 'ndvi', 'over', 'please', 'show', 'since', 'that', 'there',
+  'this', 'what', 'when', 'where', 'which', 'with', 'year', 'years'
+];
+
+/**
+ * Tag as stored: lower case, no leading "#", words joined by hyphens
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9\u00c0-\u024f-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Tags derived from the location and query, shown until the owner tags an
+ * analysis and offered as their starting point
+ */
+export function suggestTags(query: string, locationName: string): string[] {
+  const tags: string[] = [];
+  locationName.toLowerCase().split(/[\s,]+/).forEach(word => {
+    if (word.length > 2 && !tags.includes(word)) tags.push(word);
+  });
+
+  const queryWords = query.toLowerCase().match(/\b[a-z]{4,}\b/g) || [];
+  queryWords
+    .filter(word => !TAG_STOP_WORDS.includes(word) && !tags.includes(word))
+    .slice(0, 3)
+    .forEach(word => {
+      if (!tags.includes(word)) tags.push(word);
+    });
+
+  return tags;
+}
+
 /**
  * Convert gallery item to analysis card for display
+ * Owner-set title, description and tags win; generated ones fill the gaps.
  */
 export function galleryItemToAnalysisCard(item: GalleryItem, userId?: string): AnalysisCard {
   // Generate title from query (first 60 characters)
@@ -278,29 +639,17 @@ export function galleryItemToAnalysisCard(item: GalleryItem, userId?: string): A
   // Extract analysis type from query
   const analysisType = extractAnalysisType(item.query);
 
-  // Generate tags from location and query
-  const tags: string[] = [];
-  const locationWords = item.location_name.toLowerCase().split(/[\s,]+/);
-  locationWords.forEach(word => {
-    if (word.length > 2) tags.push(word);
-  });
-
-  // Extract potential tags from query
-  const queryWords = item.query.toLowerCase().match(/\b[a-z]{4,}\b/g) || [];
-  queryWords.slice(0, 3).forEach(word => {
-    if (!tags.includes(word) && word !== 'ndvi' && word !== 'analysis') {
-      tags.push(word);
-    }
-  });
+  // An empty list means the owner removed every tag
+  const tags = item.tags ? item.tags : suggestTags(item.query, item.location_name);
 
   // Determine category (simple heuristic)
   const isRecent = new Date(item.created_at) > new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-  const category = isRecent ? 'recently_published' : 'user_analyses';
+  const category = item.visibility && isListedVisibility(item.visibility) && isRecent ? 'recently_published' : 'user_analyses';
 
   return {
     id: item.session_id,
-    title,
-    description: `${analysisType} for ${item.location_name}${item.start_year && item.end_year ? ` (${item.start_year}-${item.end_year})` : ''}`,
+    title: item.title || title,
+    description: item.description || `${analysisType} for ${item.location_name}${item.start_year && item.end_year ? ` (${item.start_year}-${item.end_year})` : ''}`,
     query: item.query,
     coordinates: {
       southwest_lat: 0, // Will need to fetch from metadata if needed
@@ -313,17 +662,35 @@ export function galleryItemToAnalysisCard(item: GalleryItem, userId?: string): A
     end_year: item.end_year,
     created_at: item.created_at,
     author: userId || 'User',
-    likes: Math.floor(Math.random() * 100), // Mock data
-    shares: Math.floor(Math.random() * 25),
-    views: Math.floor(Math.random() * 1000),
+    user_id: userId,
+    likes: item.likes || 0,
+    shares: item.shares || 0,
+    views: item.views || 0,
+    liked: item.liked || false,
     tags,
     thumbnail_url: item.thumbnail_url,
     map_url: item.map_url,
     chart_url: item.chart_url,
     download_url: item.download_url,
     category,
-    is_public: true,
+    visibility: item.visibility || 'private',
     session_id: item.session_id,
+    analysis_type: item.analysis_type,
+    interval: item.interval,
+  };
+}
+
+/**
+ * Convert a community feed item to an analysis card
+ */
+export function communityItemToAnalysisCard(item: CommunityItem): AnalysisCard {
+  const card = galleryItemToAnalysisCard(item, item.author);
+
+  return {
+    ...card,
+    user_id: item.user_id,
+    category: item.category,
+    visibility: item.visibility || 'public',
   };
 }
 
@@ -344,8 +711,8 @@ export function sessionAnalysisToAnalysisCard(session: SessionAnalysis, query?:
   const tags = ['geospatial', 'analysis'];
   if (query) {
     const queryWords = query.toLowerCase().match(/\b[a-z]{4,}\b/g) || [];
-    queryWords.slice(0, 2).forEach(word => {
-      if (!tags.includes(word) && word !== 'analysis') {
+    queryWords.filter(word => !TAG_STOP_WORDS.includes(word)).slice(0, 2).forEach(word => {
+      if (!tags.includes(word)) {
         tags.push(word);
       }
     });
@@ -367,16 +734,55 @@ export function sessionAnalysisToAnalysisCard(session: SessionAnalysis, query?:
     end_year: session.analysis.end_year,
     created_at: session.created_at,
     author: session.user_id,
+    user_id: session.user_id,
     likes: 0,
     shares: 0,
-    views: 1,
+    views: 0,
+    liked: false,
     tags,
     thumbnail_url: session.files.preview_url,
     map_url: session.files.map_url,
     chart_url: session.files.chart_url,
     download_url: session.files.download_url,
-    category: 'recently_published',
-    is_public: true,
+    category: 'user_analyses',
+    visibility: 'private',
     session_id: session.session_id,
+    analysis_type: session.analysis_type,
+    interval: isTimeSeriesAnalysis(session) ? session.interval : undefined,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Convert analysis metadata to an analysis card, e.g. for a shared link
+ */
+export function analysisMetadataToAnalysisCard(metadata: AnalysisMetadata): AnalysisCard {
+  const analysisType = extractAnalysisType(metadata.query);
+  const title = metadata.query.length > 60
+    ? metadata.query.substring(0, 57) + '...'
+    : metadata.query;
+
+  return {
+    id: metadata.session_id,
+    title: metadata.title || title,
+    description: metadata.description || `${analysisType} for ${metadata.location_name} (${metadata.start_year}-${metadata.end_year})`,
+    query: metadata.query,
+    coordinates: convertBackendCoordinates(metadata.coordinates),
+    location_name: metadata.location_name,
+    start_year: metadata.start_year,
+    end_year: metadata.end_year,
+    created_at: metadata.created_at,
+    author: metadata.user_id,
+    user_id: metadata.user_id,
+    likes: 0,
+    shares: 0,
+    views: 0,
+    liked: false,
+    tags: metadata.tags ? metadata.tags : [
+      metadata.location_name.toLowerCase().replace(/\s+/g, '-'),
+      `${metadata.start_year}-${metadata.end_year}`,
+    ],
+    category: 'community_research',
+    visibility: metadata.visibility || 'unlisted',
+    session_id: metadata.session_id,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Service-level responses of the analysis API
+ */
+
+export interface ApiHealth {
+  status: string;
+  analyzer_initialized: boolean;
+  gemini_model_initialized: boolean;
+  project_id?: string;
+}
+
+export interface ApiInfo {
+  service: string;
+  version: string;
+  description: string;
+  endpoints: Record<string, unknown>;  // Endpoint name to path or description, as published by the backend
+}
+
+/**
+ * Backend generations the client can talk to
+ * 1: /analyze answers with a ZIP file; no sessions
+ * 2: /analyze answers with a session; results, gallery and metadata endpoints
+ * 3: asynchronous /jobs with progress, plus optional result layers, statistics and time series
+ */
+export type ApiVersion = 1 | 2 | 3;
+
+export interface ApiCapabilities {
+  version: ApiVersion;
+  sessions: boolean;          // /results/{session_id}/* and /gallery/{user_id}
+  jobs: boolean;              // /jobs, /jobs/{job_id}/events and /jobs/{job_id}/cancel
+  layers: boolean;            // /results/{session_id}/layers
+  statistics: boolean;        // /results/{session_id}/statistics
+  timeseries: boolean;        // /results/{session_id}/timeseries
+  auth: boolean;              // /auth/* accounts and bearer tokens
+  community: boolean;         // /community feed and /results/{session_id}/visibility
+  engagement: boolean;        // /results/{session_id}/{like|view|share} and /favorites/{user_id}
+}
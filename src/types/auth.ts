@@ -0,0 +1,47 @@
+/**
+ * User accounts and sign-in sessions
+ */
+
+export type AuthMethod = 'password' | 'oidc';
+
+export interface AuthUser {
+  id: string;                 // Account id, used as user_id for analyses and galleries
+  email: string;
+  name?: string;
+  avatar_url?: string;
+  method?: AuthMethod;
+}
+
+/**
+ * Token response of /auth/login, /auth/register and /auth/refresh
+ */
+export interface AuthTokenResponse {
+  access_token: string;
+  token_type?: string;        // Always "bearer"
+  expires_in?: number;        // Seconds
+  refresh_token?: string;
+  user: AuthUser;
+}
+
+/**
+ * Signed-in session as kept in the browser
+ */
+export interface AuthSession {
+  access_token: string;
+  refresh_token?: string;
+  expires_at?: number;        // Epoch milliseconds
+  user: AuthUser;
+}
+
+export interface SignInCredentials {
+  email: string;
+  password: string;
+  name?: string;              // Registration only
+}
+
+/**
+ * Result of moving an anonymous browser id's analyses into an account
+ */
+export interface ClaimAnalysesResponse {
+  migrated: number;
+}
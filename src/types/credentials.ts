@@ -0,0 +1,82 @@
+/**
+ * Google Cloud service-account credentials and the browser vault that keeps them
+ */
+
+/**
+ * Service-account key file as downloaded from the Google Cloud console
+ */
+export interface ServiceAccountKey {
+  type: 'service_account';
+  project_id: string;
+  private_key_id?: string;
+  private_key: string;
+  client_email: string;
+  client_id?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * What a key file targets, safe to show and to store in the clear
+ */
+export interface CredentialSummary {
+  project_id: string;
+  client_email: string;
+  private_key_id?: string;
+}
+
+export type CredentialsCheck =
+  | { valid: true; key: ServiceAccountKey; summary: CredentialSummary }
+  | { valid: false; error: string; issues: string[] };
+
+/**
+ * Key file encrypted with a passphrase-derived AES-GCM key (base64 fields)
+ */
+export interface EncryptedPayload {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  iterations: number;
+}
+
+export interface SavedCredential extends CredentialSummary {
+  id: string;
+  label: string;
+  file_name: string;
+  created_at: string;
+  last_used_at?: string;
+  payload: EncryptedPayload;
+}
+
+/**
+ * Service account registered on the credential proxy; the key stays on the server
+ */
+export interface ServerCredential extends CredentialSummary {
+  id: string;
+  label: string;
+  created_at: string;
+  owner_id?: string;          // Account allowed to use it
+  organization?: string;      // Or every account of this email domain
+}
+
+/**
+ * Reference to a server-side credential, sent instead of the key file
+ */
+export interface CredentialReference {
+  credential_id: string;
+}
+
+/**
+ * What an analysis submission authenticates with
+ */
+export type AnalysisCredentials = File | CredentialReference;
+
+/**
+ * Credentials chosen for the next analysis: an uploaded key, one unlocked
+ * from the vault, or one registered on the server
+ */
+export interface SelectedCredentials {
+  credentials: AnalysisCredentials;
+  label: string;              // File name, vault label or server label
+  summary: CredentialSummary;
+  saved_id?: string;          // Vault entry the key was unlocked from
+}
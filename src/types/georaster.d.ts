@@ -0,0 +1,57 @@
+/**
+ * georaster ships without type definitions, and the ones bundled with
+ * georaster-layer-for-leaflet are not reachable through its package exports
+ */
+declare module 'georaster-layer-for-leaflet' {
+  import type { GridLayer, GridLayerOptions } from 'leaflet';
+
+  export interface GetValuesOptions {
+    left?: number;
+    top?: number;
+    right?: number;
+    bottom?: number;
+    width: number;
+    height: number;
+    resampleMethod?: 'nearest' | 'bilinear';
+  }
+
+  export interface GeoRaster {
+    getValues: (options?: GetValuesOptions) => Promise<number[][][]>;
+    height: number;
+    width: number;
+    noDataValue: number | null | undefined;
+    numberOfRasters: number;
+    pixelHeight: number;
+    pixelWidth: number;
+    projection: number;
+    values?: number[][][];   // Only present when the whole raster was read
+    xmin: number;
+    xmax: number;
+    ymin: number;
+    ymax: number;
+  }
+
+  export type PixelValuesToColorFn = (values: number[]) => string;
+
+  export interface GeoRasterLayerOptions extends GridLayerOptions {
+    georaster?: GeoRaster;
+    georasters?: GeoRaster[];   // Same grid; band values are concatenated in order
+    resolution?: number;
+    pixelValuesToColorFn?: PixelValuesToColorFn;
+  }
+
+  const GeoRasterLayer: new (options: GeoRasterLayerOptions) => GridLayer;
+  export default GeoRasterLayer;
+}
+
+declare module 'georaster' {
+  import type { GeoRaster } from 'georaster-layer-for-leaflet';
+
+  function parseGeoraster(
+    data: string | ArrayBuffer | object,
+    metadata?: object,
+    debug?: boolean
+  ): Promise<GeoRaster>;
+
+  export default parseGeoraster;
+}
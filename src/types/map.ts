@@ -0,0 +1,57 @@
+import { AOIGeometry, Coordinates } from './analysis';
+
+/**
+ * Basemap and geocoding types for the interactive map
+ */
+
+export type BasemapKind = 'xyz' | 'wms' | 'wmts';
+
+export interface BasemapDefinition {
+  id: string;
+  name: string;
+  kind: BasemapKind;
+  url: string;                // XYZ template, WMS endpoint or WMTS template/endpoint
+  attribution?: string;
+  maxZoom?: number;
+  subdomains?: string;
+  layers?: string;            // WMS layer names or WMTS layer identifier
+  format?: string;            // Image format, e.g. image/png
+  tileMatrixSet?: string;     // WMTS tile matrix set (must be Web Mercator)
+}
+
+/**
+ * Basemap choice persisted in localStorage
+ */
+export interface BasemapPreference {
+  basemapId: string;
+  custom?: BasemapDefinition; // User-defined layer, kept when switching away
+}
+
+/**
+ * A place found by a geocoder
+ */
+export interface GeocodeResult {
+  id: string;
+  name: string;               // Short place name, used as the AOI name
+  display_name: string;       // Full label with region and country
+  center: {
+    lat: number;
+    lng: number;
+  };
+  bounds: Coordinates;
+  geometry?: AOIGeometry;     // Administrative or natural boundary, when the geocoder has one
+  type?: string;              // e.g. city, lake, administrative
+}
+
+export interface GeocodeOptions {
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Pluggable place-name search
+ */
+export interface Geocoder {
+  name: string;
+  search: (query: string, options?: GeocodeOptions) => Promise<GeocodeResult[]>;
+}
@@ -41,6 +41,11 @@ export interface LoadingStateProps {
   className?: string;
 }
 
+/**
+ * Section shown when the analysis modal opens
+ */
+export type AnalysisModalView = 'overview' | 'map';
+
 export interface ModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -0,0 +1,85 @@
+import type { Feature, GeoJSON } from 'geojson';
+import shp from 'shpjs';
+import { kml } from '@tmcw/togeojson';
+import { GeometryAreaOfInterest } from '@/types/analysis';
+import { createGeometryArea, extractAOIGeometry } from './geometry';
+
+/**
+ * Import areas of interest from GeoJSON, KML or zipped Shapefile uploads
+ */
+
+export const AOI_FILE_ACCEPT = '.geojson,.json,.kml,.zip';
+
+const MAX_AOI_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+type AOIFileFormat = 'geojson' | 'kml' | 'shapefile';
+
+function detectFormat(file: File): AOIFileFormat | null {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.geojson') || name.endsWith('.json')) return 'geojson';
+  if (name.endsWith('.kml')) return 'kml';
+  if (name.endsWith('.zip')) return 'shapefile';
+  return null;
+}
+
+async function readGeoJSON(format: AOIFileFormat, file: File): Promise<GeoJSON> {
+  switch (format) {
+    case 'geojson':
+      try {
+        return JSON.parse(await file.text());
+      } catch {
+        throw new Error('File is not valid GeoJSON.');
+      }
+
+    case 'kml': {
+      const document = new DOMParser().parseFromString(await file.text(), 'text/xml');
+      if (document.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('File is not valid KML.');
+      }
+      return kml(document) as GeoJSON;
+    }
+
+    case 'shapefile': {
+      // shpjs reprojects to WGS84 using the .prj inside the archive
+      const parsed = await shp(await file.arrayBuffer());
+      const collections = Array.isArray(parsed) ? parsed : [parsed];
+      return {
+        type: 'FeatureCollection',
+        features: collections.reduce<Feature[]>((all, collection) => all.concat(collection.features), []),
+      };
+    }
+  }
+}
+
+/**
+ * Parse an uploaded boundary file into a single area of interest
+ * All polygons in the file are merged into one (multi)polygon
+ */
+export async function parseAOIFile(file: File): Promise<GeometryAreaOfInterest> {
+  const format = detectFormat(file);
+  if (!format) {
+    throw new Error('Unsupported file type. Use GeoJSON, KML or a zipped Shapefile.');
+  }
+
+  if (file.size > MAX_AOI_FILE_SIZE) {
+    throw new Error('File is too large. Boundary files should be under 50MB.');
+  }
+
+  let geojson: GeoJSON;
+  try {
+    geojson = await readGeoJSON(format, file);
+  } catch (error) {
+    console.error('AOI file parsing failed:', error);
+    throw error instanceof Error && error.message.startsWith('File is not')
+      ? error
+      : new Error(`Could not read ${file.name}. Make sure it is a valid ${format === 'shapefile' ? 'zipped Shapefile' : format.toUpperCase()} file.`);
+  }
+
+  const geometry = extractAOIGeometry(geojson);
+  if (!geometry) {
+    throw new Error('No polygon found in the file. Points and lines cannot be used as an analysis area.');
+  }
+
+  return createGeometryArea(geometry, 'upload', file.name.replace(/\.[^.]+$/, ''));
+}
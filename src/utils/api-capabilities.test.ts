@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { ApiInfo } from '@/types/api';
+import { API_INFO } from '@/test/versioned-backends';
+import { DEFAULT_API_CAPABILITIES, detectApiCapabilities, getVersionCapabilities } from './api-capabilities';
+import { handleMockRequest } from './mock-backend';
+
+const info = (version: string, endpoints: Record<string, unknown>): ApiInfo => ({
+  service: 'GeoAnalytics API',
+  version,
+  description: '',
+  endpoints,
+});
+
+describe('detectApiCapabilities', () => {
+  it('treats a v1 listing as session-less', () => {
+    expect(detectApiCapabilities(API_INFO[1])).toEqual(getVersionCapabilities(1));
+  });
+
+  it('detects sessions without jobs on a v2 listing', () => {
+    expect(detectApiCapabilities(API_INFO[2])).toEqual(getVersionCapabilities(2));
+  });
+
+  it('detects jobs and the optional result endpoints on a v3 listing', () => {
+    expect(detectApiCapabilities(API_INFO[3])).toEqual({
+      version: 3,
+      sessions: true,
+      jobs: true,
+      layers: true,
+      statistics: true,
+      timeseries: true,
+      auth: false,
+      community: false,
+      engagement: false,
+    });
+  });
+
+  it('reads the mock backend as v2 with statistics, accounts, community and engagement', async () => {
+    const response = await handleMockRequest(new Request('http://localhost/mock-api/'), [], 'http://localhost/mock-api');
+    expect(detectApiCapabilities(await response.json())).toEqual({
+      ...getVersionCapabilities(2),
+      statistics: true,
+      auth: true,
+      community: true,
+      engagement: true,
+    });
+  });
+
+  it('falls back to the declared version when nothing is listed', () => {
+    expect(detectApiCapabilities(info('1.0.0', {}))).toEqual(getVersionCapabilities(1));
+    expect(detectApiCapabilities(info('v2', {}))).toEqual(getVersionCapabilities(2));
+    expect(detectApiCapabilities(info('3.4.1', {}))).toEqual(DEFAULT_API_CAPABILITIES);
+    expect(detectApiCapabilities(info('unknown', {}))).toEqual(DEFAULT_API_CAPABILITIES);
+  });
+
+  it('keeps sessions for terse listings unless the backend declares v1', () => {
+    expect(detectApiCapabilities(info('2.0.0', { health: '/health' }))).toMatchObject({ version: 2, sessions: true });
+    expect(detectApiCapabilities(info('1.0.0', { health: '/health' }))).toMatchObject({ version: 1, sessions: false });
+  });
+});
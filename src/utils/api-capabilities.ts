@@ -0,0 +1,82 @@
+import { ApiCapabilities, ApiInfo, ApiVersion } from '@/types/api';
+
+/**
+ * Assumed when the backend does not publish its endpoints; every optional
+ * endpoint already falls back on 404, so trying them is safe
+ */
+export const DEFAULT_API_CAPABILITIES: ApiCapabilities = {
+  version: 3,
+  sessions: true,
+  jobs: true,
+  layers: true,
+  statistics: true,
+  timeseries: true,
+  auth: true,
+  community: true,
+  engagement: true,
+};
+
+// Endpoint names and paths as strings, e.g. "jobs", "/results/{session_id}/layers"
+const collectEndpoints = (endpoints: Record<string, unknown>): string[] =>
+  Object.keys(endpoints).reduce<string[]>((acc, key) => {
+    const value = endpoints[key];
+    acc.push(key.toLowerCase());
+    if (typeof value === 'string') {
+      acc.push(value.toLowerCase());
+    } else if (value && typeof value === 'object') {
+      acc.push(...collectEndpoints(value as Record<string, unknown>));
+    }
+    return acc;
+  }, []);
+
+const parseMajorVersion = (version: string): number | null => {
+  const match = version.match(/^v?(\d+)/i);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Work out what a backend supports from the endpoints listed by `GET /`
+ * Falls back to the declared major version when the listing is empty.
+ * Only a backend declaring version 1 is treated as session-less, so a
+ * terse listing never locks the client out of analyses.
+ */
+export function detectApiCapabilities(info: ApiInfo): ApiCapabilities {
+  const endpoints = collectEndpoints(info.endpoints || {});
+  const major = parseMajorVersion(info.version);
+
+  if (endpoints.length === 0) {
+    return major === 1 || major === 2 ? getVersionCapabilities(major) : getVersionCapabilities(3);
+  }
+
+  const has = (fragment: string) => endpoints.some(endpoint => endpoint.indexOf(fragment) !== -1);
+
+  const jobs = has('jobs');
+  const sessions = jobs || has('gallery') || has('results') || major !== 1;
+  const version: ApiVersion = jobs ? 3 : sessions ? 2 : 1;
+
+  return {
+    version,
+    sessions,
+    jobs,
+    layers: has('layers'),
+    statistics: has('statistics'),
+    timeseries: has('timeseries') || has('time_series'),
+    auth: has('auth'),
+    community: has('community'),
+    engagement: has('favorites') || has('like'),
+  };
+}
+
+/**
+ * Everything a given backend generation is guaranteed to offer
+ */
+export function getVersionCapabilities(version: ApiVersion): ApiCapabilities {
+  switch (version) {
+    case 1:
+      return { version, sessions: false, jobs: false, layers: false, statistics: false, timeseries: false, auth: false, community: false, engagement: false };
+    case 2:
+      return { version, sessions: true, jobs: false, layers: false, statistics: false, timeseries: false, auth: false, community: false, engagement: false };
+    default:
+      return { ...DEFAULT_API_CAPABILITIES, version };
+  }
+}
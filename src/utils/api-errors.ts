@@ -0,0 +1,250 @@
+import { AnalysisJobStatus } from '@/types/analysis';
+import { SchemaIssue, SchemaValidationError } from './schema';
+
+/**
+ * Errors thrown by the API client
+ *
+ * Every failure is an ApiError subclass carrying what callers need to react
+ * to it (retry, re-authenticate, show field errors) without parsing messages.
+ */
+
+export type ApiErrorKind =
+  | 'network'       // Request never reached the server
+  | 'timeout'       // No answer within the client time limit
+  | 'aborted'       // Cancelled by the caller
+  | 'http'          // Server answered with an error status
+  | 'auth'          // 401/403: credentials missing, invalid or without access
+  | 'quota'         // 429: rate limit or Earth Engine quota exhausted
+  | 'validation'    // Request rejected as invalid (422) or response did not match its schema
+  | 'job'           // Analysis job failed or was cancelled on the backend
+  | 'unsupported';  // The connected backend version lacks the feature
+
+export interface ApiErrorOptions {
+  status?: number;
+  detail?: string;            // Backend `detail` message, when it sent one
+  requestId?: string;         // Correlation id from the response headers
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly detail?: string;
+  readonly requestId?: string;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.requestId = options.requestId;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Unable to reach the analysis server', options: ApiErrorOptions = {}) {
+    super('network', message, { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message: string = 'The request timed out', options: ApiErrorOptions = {}) {
+    super('timeout', message, { retryable: true, ...options });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Stopped by the caller's AbortSignal; named AbortError like the DOM exception
+ */
+export class AbortedError extends ApiError {
+  constructor(message: string = 'The request was cancelled', options: ApiErrorOptions = {}) {
+    super('aborted', message, options);
+    this.name = 'AbortError';
+  }
+}
+
+export class HttpError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions & { status: number }, kind: ApiErrorKind = 'http') {
+    // Server-side and gateway failures are usually transient
+    super(kind, message, {
+      retryable: options.status >= 500 || options.status === 408,
+      ...options,
+    });
+    this.name = 'HttpError';
+  }
+}
+
+export class AuthError extends HttpError {
+  constructor(message: string, options: ApiErrorOptions & { status: number }) {
+    super(message, { ...options, retryable: false }, 'auth');
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends HttpError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: ApiErrorOptions & { status: number; retryAfterMs?: number }) {
+    super(message, { ...options, retryable: true }, 'quota');
+    this.name = 'QuotaError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * `request`: the backend rejected what we sent (422)
+ * `response`: the backend answered with something that does not match its schema
+ */
+export class ValidationError extends ApiError {
+  readonly source: 'request' | 'response';
+  readonly issues: SchemaIssue[];
+  readonly resource?: string;   // e.g. "gallery", for response errors
+
+  constructor(
+    message: string,
+    source: 'request' | 'response',
+    issues: SchemaIssue[],
+    options: ApiErrorOptions & { resource?: string } = {}
+  ) {
+    super('validation', message, { ...options, retryable: false });
+    this.name = 'ValidationError';
+    this.source = source;
+    this.issues = issues;
+    this.resource = options.resource;
+  }
+}
+
+export class JobFailedError extends ApiError {
+  readonly jobId: string;
+  readonly jobStatus: Extract<AnalysisJobStatus, 'failed' | 'cancelled'>;
+
+  constructor(
+    message: string,
+    jobId: string,
+    jobStatus: Extract<AnalysisJobStatus, 'failed' | 'cancelled'>,
+    options: ApiErrorOptions = {}
+  ) {
+    super('job', message, options);
+    this.name = 'JobFailedError';
+    this.jobId = jobId;
+    this.jobStatus = jobStatus;
+  }
+}
+
+export class UnsupportedError extends ApiError {
+  readonly feature: string;
+
+  constructor(message: string, feature: string, options: ApiErrorOptions = {}) {
+    super('unsupported', message, options);
+    this.name = 'UnsupportedError';
+    this.feature = feature;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Correlation id of a response, for support requests and backend logs
+ */
+export function getRequestId(response: Response): string | undefined {
+  const traceContext = response.headers.get('x-cloud-trace-context');
+  return response.headers.get('x-request-id')
+    || response.headers.get('x-correlation-id')
+    || (traceContext ? traceContext.split('/')[0] : undefined)
+    || undefined;
+}
+
+// FastAPI puts a string in `detail`, or a list of {loc, msg} for request validation
+const readErrorBody = async (response: Response): Promise<{ detail?: string; issues: SchemaIssue[] }> => {
+  try {
+    const body = await response.json();
+    const detail = body?.detail ?? body?.error ?? body?.message;
+
+    if (Array.isArray(detail)) {
+      const issues = detail.map((item: { loc?: Array<string | number>; msg?: string }) => ({
+        path: (item.loc || []).filter(part => part !== 'body').join('.'),
+        message: item.msg || 'invalid value',
+      }));
+      return { detail: issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; '), issues };
+    }
+
+    return { detail: typeof detail === 'string' ? detail : undefined, issues: [] };
+  } catch {
+    return { issues: [] };
+  }
+};
+
+const QUOTA_PATTERN = /quota|rate limit|too many requests/i;
+
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Turn an error response into the matching ApiError subclass
+ * `action` describes what failed, e.g. "Failed to fetch gallery"
+ */
+export async function createHttpError(response: Response, action: string): Promise<ApiError> {
+  const { detail, issues } = await readErrorBody(response);
+  const options = {
+    status: response.status,
+    detail,
+    requestId: getRequestId(response),
+  };
+  const message = detail || `${action}: HTTP ${response.status} ${response.statusText}`.trim();
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(message, options);
+  }
+  // Earth Engine quota errors can surface with other statuses
+  if (response.status === 429 || (detail && QUOTA_PATTERN.test(detail))) {
+    return new QuotaError(message, { ...options, retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) });
+  }
+  if (response.status === 422 || (response.status === 400 && issues.length > 0)) {
+    return new ValidationError(message, 'request', issues, options);
+  }
+  return new HttpError(message, options);
+}
+
+/**
+ * Wrap anything thrown around a fetch into an ApiError
+ * `timedOut` tells a client-side timeout apart from a caller abort
+ */
+export function toApiError(error: unknown, timedOut: boolean = false, timeoutMessage?: string): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof SchemaValidationError) {
+    return new ValidationError(error.message, 'response', error.issues, { resource: error.resource, cause: error });
+  }
+
+  if (isAbortError(error)) {
+    return timedOut
+      ? new TimeoutError(timeoutMessage, { cause: error })
+      : new AbortedError(undefined, { cause: error });
+  }
+
+  // fetch rejects with a TypeError when the request cannot be sent (offline, DNS, CORS)
+  if (error instanceof TypeError) {
+    return new NetworkError(undefined, { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new ApiError('http', message, { cause: error });
+}
@@ -0,0 +1,336 @@
+import {
+  AnalysisJob,
+  AnalysisMetadata,
+  AnalysisStatistics,
+  CommunityFeedPage,
+  CommunityItem,
+  EngagementStats,
+  GalleryItem,
+  GalleryPage,
+  JobStreamToken,
+  NDVIPeriodStatistics,
+  NDVIStatistics,
+  ResultLayer,
+  ResultLegend,
+  SessionAnalysis,
+  TimeSeriesSessionAnalysis,
+  VisibilityState
+} from '@/types/analysis';
+import { ApiHealth, ApiInfo } from '@/types/api';
+import { AuthTokenResponse, AuthUser, ClaimAnalysesResponse } from '@/types/auth';
+import { ServerCredential } from '@/types/credentials';
+import {
+  Schema,
+  Shape,
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  unknown
+} from './schema';
+
+/**
+ * Runtime schemas for every backend response the client reads
+ */
+
+type BackendBounds = SessionAnalysis['analysis']['location']['latitude'];
+
+const rangeSchema = object<BackendBounds>({
+  min: number(),
+  max: number(),
+});
+
+const backendCoordinatesSchema = object<{ latitude: BackendBounds; longitude: BackendBounds }>({
+  latitude: rangeSchema,
+  longitude: rangeSchema,
+});
+
+const analysisModeSchema = oneOf('change', 'timeseries');
+const intervalSchema = oneOf('annual', 'seasonal', 'monthly');
+const visibilitySchema = oneOf('private', 'unlisted', 'organization', 'public');
+
+export const ndviStatisticsSchema = object<NDVIStatistics>({
+  label: string(),
+  value: number(),
+  color: string(),
+});
+
+export const analysisStatisticsSchema = object<AnalysisStatistics>({
+  start_year: array(ndviStatisticsSchema),
+  end_year: array(ndviStatisticsSchema),
+  start_year_num: number(),
+  end_year_num: number(),
+});
+
+/**
+ * /statistics answers with the statistics object, bare or under `statistics`
+ */
+export const statisticsResponseSchema: Schema<AnalysisStatistics> = (value, path, issues) => {
+  const wrapped = value && typeof value === 'object' && 'statistics' in value;
+  return wrapped
+    ? analysisStatisticsSchema((value as { statistics: unknown }).statistics, path ? `${path}.statistics` : 'statistics', issues)
+    : analysisStatisticsSchema(value, path, issues);
+};
+
+export const periodStatisticsSchema = object<NDVIPeriodStatistics>({
+  period: string(),
+  start_date: string(),
+  end_date: string(),
+  mean: number(),
+  median: optional(number()),
+  min: optional(number()),
+  max: optional(number()),
+  std: optional(number()),
+  valid_fraction: optional(number()),
+  classes: optional(array(ndviStatisticsSchema)),
+  layer_id: optional(string()),
+});
+
+const sessionAnalysisBaseSchema = object<SessionAnalysis>({
+  session_id: string(),
+  user_id: string(),
+  analysis_type: optional(analysisModeSchema),
+  analysis: object<SessionAnalysis['analysis']>({
+    location: object<SessionAnalysis['analysis']['location']>({
+      name: string(),
+      latitude: rangeSchema,
+      longitude: rangeSchema,
+    }),
+    start_year: number(),
+    end_year: number(),
+  }),
+  files: object<SessionAnalysis['files']>({
+    preview_url: string(),
+    map_url: string(),
+    chart_url: string(),
+    download_url: string(),
+    metadata_url: string(),
+    timeseries_url: optional(string()),
+  }),
+  created_at: string(),
+  status: string(),
+});
+
+const timeSeriesExtrasSchema = object<Pick<TimeSeriesSessionAnalysis, 'interval' | 'time_series'>>({
+  interval: intervalSchema,
+  time_series: array(periodStatisticsSchema),
+});
+
+/**
+ * Session results; time-series sessions must also carry their interval and periods
+ */
+export const sessionAnalysisSchema: Schema<SessionAnalysis> = (value, path, issues) => {
+  const session = sessionAnalysisBaseSchema(value, path, issues);
+  if (session && session.analysis_type === 'timeseries') {
+    timeSeriesExtrasSchema(value, path, issues);
+  }
+  return session;
+};
+
+export const analysisJobSchema = object<AnalysisJob>({
+  job_id: string(),
+  status: oneOf('queued', 'running', 'completed', 'failed', 'cancelled'),
+  progress: number(),
+  stage: optional(string()),
+  message: optional(string()),
+  result: optional(sessionAnalysisSchema),
+  error: optional(string()),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const jobStreamTokenSchema = object<JobStreamToken>({
+  token: string(),
+  expires_in: number(),
+});
+
+const galleryItemShape: Shape<GalleryItem> = {
+  session_id: string(),
+  location_name: string(),
+  query: string(),
+  start_year: number(),
+  end_year: number(),
+  created_at: string(),
+  thumbnail_url: string(),
+  map_url: string(),
+  chart_url: string(),
+  download_url: string(),
+  analysis_type: optional(analysisModeSchema),
+  interval: optional(intervalSchema),
+  visibility: optional(visibilitySchema),
+  title: optional(string()),
+  description: optional(string()),
+  tags: optional(array(string())),
+  likes: optional(number()),
+  views: optional(number()),
+  shares: optional(number()),
+  liked: optional(boolean()),
+};
+
+export const galleryItemSchema = object<GalleryItem>(galleryItemShape);
+
+const galleryItemsSchema = array(galleryItemSchema);
+
+const galleryPageObjectSchema = object<GalleryPage>({
+  items: galleryItemsSchema,
+  total: optional(number()),
+  next_cursor: optional(string()),
+});
+
+/**
+ * /gallery/{user_id} answers with a page, or a bare list on older backends
+ */
+export const galleryPageSchema: Schema<GalleryPage> = (value, path, issues) =>
+  Array.isArray(value)
+    ? { items: galleryItemsSchema(value, path, issues) }
+    : galleryPageObjectSchema(value, path, issues);
+
+export const communityItemSchema = object<CommunityItem>({
+  ...galleryItemShape,
+  user_id: string(),
+  author: string(),
+  category: oneOf('community_research', 'enterprise_repository'),
+  published_at: string(),
+});
+
+export const favoritesResponseSchema = array(communityItemSchema);
+
+export const communityFeedSchema = object<CommunityFeedPage>({
+  items: array(communityItemSchema),
+  total: number(),
+  limit: number(),
+  offset: number(),
+});
+
+export const visibilityStateSchema = object<VisibilityState>({
+  session_id: string(),
+  visibility: visibilitySchema,
+  published_at: optional(string()),
+  title: optional(string()),
+  description: optional(string()),
+});
+
+export const engagementStatsSchema = object<EngagementStats>({
+  session_id: string(),
+  likes: number(),
+  views: number(),
+  shares: number(),
+  liked: boolean(),
+});
+
+export const analysisMetadataSchema = object<AnalysisMetadata>({
+  session_id: string(),
+  user_id: string(),
+  query: string(),
+  location_name: string(),
+  coordinates: backendCoordinatesSchema,
+  start_year: number(),
+  end_year: number(),
+  created_at: string(),
+  status: string(),
+  statistics: optional(analysisStatisticsSchema),
+  visibility: optional(visibilitySchema),
+  title: optional(string()),
+  description: optional(string()),
+  tags: optional(array(string())),
+});
+
+const resultLegendSchema = object<ResultLegend>({
+  title: string(),
+  type: oneOf('continuous', 'categorical'),
+  colors: array(string()),
+  min: optional(number()),
+  max: optional(number()),
+  labels: optional(array(string())),
+  unit: optional(string()),
+});
+
+export const resultLayerSchema = object<ResultLayer>({
+  id: string(),
+  name: string(),
+  type: oneOf('raster', 'tiles', 'vector'),
+  url: string(),
+  bounds: optional(backendCoordinatesSchema),
+  year: optional(number()),
+  period: optional(string()),
+  difference: optional(boolean()),
+  band: optional(number()),
+  nodata: optional(number()),
+  legend: optional(resultLegendSchema),
+  value_url: optional(string()),
+  visible: optional(boolean()),
+  opacity: optional(number()),
+});
+
+/**
+ * List endpoints answer with a bare array or an object wrapping it under `key`
+ */
+export function listResponseSchema<T>(item: Schema<T>, key: string): Schema<T[]> {
+  const list = array(item);
+  const wrapper = object<Record<string, T[]>>({ [key]: list });
+  return (value, path, issues) => {
+    if (Array.isArray(value)) return list(value, path, issues);
+    const wrapped = wrapper(value, path, issues);
+    return wrapped ? wrapped[key] : [];
+  };
+}
+
+export const resultLayersResponseSchema = listResponseSchema(resultLayerSchema, 'layers');
+
+export const timeSeriesResponseSchema = listResponseSchema(periodStatisticsSchema, 'time_series');
+
+export const pixelValueSchema = object<{ value: number | null }>({
+  value: nullable(number()),
+});
+
+export const apiHealthSchema = object<ApiHealth>({
+  status: string(),
+  analyzer_initialized: boolean(),
+  gemini_model_initialized: boolean(),
+  project_id: optional(string()),
+});
+
+export const apiInfoSchema = object<ApiInfo>({
+  service: string(),
+  version: string(),
+  description: string(),
+  endpoints: record(unknown()),
+});
+
+export const authUserSchema = object<AuthUser>({
+  id: string(),
+  email: string(),
+  name: optional(string()),
+  avatar_url: optional(string()),
+  method: optional(oneOf('password', 'oidc')),
+});
+
+export const authTokenResponseSchema = object<AuthTokenResponse>({
+  access_token: string(),
+  token_type: optional(string()),
+  expires_in: optional(number()),
+  refresh_token: optional(string()),
+  user: authUserSchema,
+});
+
+export const claimAnalysesSchema = object<ClaimAnalysesResponse>({
+  migrated: number(),
+});
+
+export const serverCredentialSchema = object<ServerCredential>({
+  id: string(),
+  label: string(),
+  project_id: string(),
+  client_email: string(),
+  private_key_id: optional(string()),
+  created_at: string(),
+  owner_id: optional(string()),
+  organization: optional(string()),
+});
+
+export const serverCredentialsResponseSchema = array(serverCredentialSchema);
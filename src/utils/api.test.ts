@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiVersion } from '@/types/api';
+import { TEST_API_URL, createVersionedBackend } from '@/test/versioned-backends';
+import { getVersionCapabilities } from './api-capabilities';
+
+// A fresh client per test: capabilities are negotiated once per module
+const connect = async (version: ApiVersion) => {
+  const backend = createVersionedBackend(version);
+  vi.stubGlobal('fetch', backend.fetch);
+  const api = await import('./api');
+  return { api, backend };
+};
+
+const credentials = () => new File(['{}'], 'key.json', { type: 'application/json' });
+
+const submissions = (requests: { method: string; path: string }[]) =>
+  requests.filter(request => request.method === 'POST').map(request => request.path);
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('getApiCapabilities', () => {
+  it.each([1, 2] as ApiVersion[])('negotiates v%i from GET /', async (version) => {
+    const { api } = await connect(version);
+    expect(await api.getApiCapabilities()).toEqual(getVersionCapabilities(version));
+  });
+
+  it('negotiates v3 with jobs from GET /', async () => {
+    const { api } = await connect(3);
+    expect(await api.getApiCapabilities()).toMatchObject({ version: 3, jobs: true, layers: true });
+  });
+
+  it('asks the backend once', async () => {
+    const { api, backend } = await connect(2);
+    await Promise.all([api.getApiCapabilities(), api.getApiCapabilities()]);
+    await api.getApiCapabilities();
+    expect(backend.requests.filter(request => request.path === '/')).toHaveLength(1);
+  });
+
+  it('assumes the latest API while the backend is unreachable, then asks again', async () => {
+    const backend = createVersionedBackend(2);
+    const fetch = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockImplementation(backend.fetch);
+    vi.stubGlobal('fetch', fetch);
+    const api = await import('./api');
+
+    expect(await api.getApiCapabilities()).toMatchObject({ version: 3, jobs: true });
+    expect(await api.getApiCapabilities()).toEqual(getVersionCapabilities(2));
+  });
+});
+
+describe('submitAnalysis', () => {
+  it('refuses v1 backends before sending anything', async () => {
+    const { api, backend } = await connect(1);
+
+    await expect(api.submitAnalysis({ query: 'Forest in Paris 2020 to 2023' }, credentials(), 'user_1'))
+      .rejects.toMatchObject({ name: 'UnsupportedError', feature: 'sessions' });
+    expect(submissions(backend.requests)).toEqual([]);
+  });
+
+  it('waits on a blocking /analyze on v2 backends', async () => {
+    const { api, backend } = await connect(2);
+    const onJobCreated = vi.fn();
+
+    const session = await api.submitAnalysis(
+      { query: 'Forest in Paris 2020 to 2023' }, credentials(), 'user_1', undefined, onJobCreated
+    );
+
+    expect(session).toMatchObject({ user_id: 'user_1', status: 'completed' });
+    expect(session.session_id).toMatch(/^mock_/);
+    expect(submissions(backend.requests)).toEqual(['/analyze']);
+    expect(onJobCreated).not.toHaveBeenCalled();
+  });
+
+  it('queues a job and follows it on v3 backends', async () => {
+    const { api, backend } = await connect(3);
+    const onJobCreated = vi.fn();
+    const onProgress = vi.fn();
+
+    const session = await api.submitAnalysis(
+      { query: 'Forest in Paris 2020 to 2023' }, credentials(), 'user_1', onProgress, onJobCreated
+    );
+
+    expect(session).toMatchObject({ user_id: 'user_1', status: 'completed' });
+    expect(onJobCreated).toHaveBeenCalledWith(expect.objectContaining({ job_id: 'job_1', status: 'queued' }));
+    expect(onProgress).toHaveBeenLastCalledWith(100, expect.any(String), undefined);
+    expect(submissions(backend.requests)).toEqual(['/jobs']);
+    expect(backend.requests).toContainEqual({ method: 'GET', path: '/jobs/job_1' });
+  });
+});
+
+describe('getAnalysisJobEventsUrl', () => {
+  const signIn = async () => {
+    const { authStore } = await import('./auth-store');
+    vi.spyOn(authStore, 'get').mockReturnValue({
+      access_token: 'access_secret',
+      user: { id: 'account_1', email: 'someone@example.org' },
+    });
+  };
+
+  it('leaves the stream URL of anonymous users as it is', async () => {
+    const { api, backend } = await connect(3);
+
+    expect(await api.getAnalysisJobEventsUrl('job_1')).toBe(`${TEST_API_URL}/jobs/job_1/events`);
+    expect(backend.requests).toEqual([]);
+  });
+
+  it('opens each stream of a signed-in user with a new stream token', async () => {
+    const { api, backend } = await connect(3);
+    await api.submitAnalysis({ query: 'Forest in Paris 2020 to 2023' }, credentials(), 'user_1');
+    await signIn();
+
+    const first = await api.getAnalysisJobEventsUrl('job_1');
+    const second = await api.getAnalysisJobEventsUrl('job_1');
+
+    expect(first).toBe(`${TEST_API_URL}/jobs/job_1/events?stream_token=stream_1`);
+    expect(second).toBe(`${TEST_API_URL}/jobs/job_1/events?stream_token=stream_2`);
+    expect(submissions(backend.requests)).toEqual(['/jobs', '/jobs/job_1/events/token', '/jobs/job_1/events/token']);
+  });
+
+  it('refuses to stream for signed-in users when the backend issues no tokens', async () => {
+    const { api } = await connect(2);
+    await signIn();
+
+    await expect(api.getAnalysisJobEventsUrl('job_1')).rejects.toMatchObject({ name: 'UnsupportedError', feature: 'jobs' });
+  });
+});
+
+describe('getUserGallery', () => {
+  it('returns an empty page on v1 backends without asking them', async () => {
+    const { api, backend } = await connect(1);
+
+    expect(await api.getUserGallery('user_1')).toEqual({ items: [], total: 0 });
+    expect(backend.requests.map(request => request.path)).toEqual(['/']);
+  });
+
+  it.each([2, 3] as ApiVersion[])('lists the analyses of a user on v%i backends', async (version) => {
+    const { api } = await connect(version);
+    const session = await api.submitAnalysis({ query: `Crops in Cairo, v${version}` }, credentials(), `gallery_v${version}`);
+
+    const page = await api.getUserGallery(`gallery_v${version}`);
+    expect(page.items.map(item => item.session_id)).toEqual([session.session_id]);
+    expect(page.total).toBe(1);
+  });
+});
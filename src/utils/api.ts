@@ -1,21 +1,105 @@
-import { AnalysisQuery, AnalysisResults, GalleryItem, SessionAnalysis } from '@/types/analysis';
+import {
+  AnalysisJob,
+  AnalysisMetadata,
+  AnalysisQuery,
+  AnalysisResults,
+  AnalysisStatistics,
+  CommunityFeedPage,
+  CommunityFeedQuery,
+  CommunityItem,
+  EngagementStats,
+  MetadataUpdate,
+  NDVIPeriodStatistics,
+  GalleryPage,
+  GalleryQuery,
+  ResultLayer,
+  SessionAnalysis,
+  VisibilityState,
+  VisibilityUpdate,
+  AnalysisVisibility,
+  convertFrontendCoordinates,
+  isOpenVisibility
+} from '@/types/analysis';
+import { ApiCapabilities, ApiHealth, ApiInfo } from '@/types/api';
+import { AuthSession, AuthUser, SignInCredentials } from '@/types/auth';
+import { AnalysisCredentials, ServerCredential } from '@/types/credentials';
+import { DEFAULT_API_CAPABILITIES, detectApiCapabilities } from './api-capabilities';
+import {
+  analysisJobSchema,
+  analysisMetadataSchema,
+  apiHealthSchema,
+  apiInfoSchema,
+  authTokenResponseSchema,
+  authUserSchema,
+  claimAnalysesSchema,
+  communityFeedSchema,
+  engagementStatsSchema,
+  favoritesResponseSchema,
+  galleryPageSchema,
+  jobStreamTokenSchema,
+  pixelValueSchema,
+  resultLayersResponseSchema,
+  serverCredentialsResponseSchema,
+  sessionAnalysisSchema,
+  statisticsResponseSchema,
+  timeSeriesResponseSchema,
+  visibilityStateSchema
+} from './api-schemas';
+import {
+  ApiError,
+  AbortedError,
+  AuthError,
+  HttpError,
+  JobFailedError,
+  NetworkError,
+  QuotaError,
+  TimeoutError,
+  UnsupportedError,
+  ValidationError,
+  createHttpError,
+  getRequestId,
+  toApiError
+} from './api-errors';
+import { authStore, isSessionExpired, toAuthSession } from './auth-store';
+import { areasToFeatureCollection, combineAreas } from './geometry';
+import { Schema, SchemaValidationError, parse } from './schema';
+import { hasClassStatistics } from './statistics';
 
 // API configuration - MUST BE FIRST!
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+const APP_ORIGIN = typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3000';
+// NEXT_PUBLIC_MOCK_API=true talks to the built-in mock backend served by this app (utils/mock-backend)
+const USE_MOCK_API = process.env.NEXT_PUBLIC_MOCK_API === 'true';
+// NEXT_PUBLIC_CREDENTIAL_PROXY=true sends every call through this app's /api routes,
+// which hold the service-account keys (utils/credential-proxy)
+export const USE_CREDENTIAL_PROXY = !USE_MOCK_API && process.env.NEXT_PUBLIC_CREDENTIAL_PROXY === 'true';
+const API_BASE_URL = USE_MOCK_API
+  ? `${APP_ORIGIN}/mock-api`
+  : USE_CREDENTIAL_PROXY
+    ? `${APP_ORIGIN}/api/backend`
+    : (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000');
+// Lists the proxy's service accounts available to the signed-in user
+const CREDENTIALS_API_URL = `${APP_ORIGIN}/api/credentials`;
 
 // Configuration based on environment
 const isGCP = API_BASE_URL.includes('run.app');
 const API_TIMEOUT = 600000; // 10 minutes for both GCP and local
 const MAX_RETRIES = isGCP ? 3 : 1;
-
-interface ProgressCallback {
-  (progress: number, message: string): void;
+const JOB_SUBMIT_TIMEOUT = 60000; // Job endpoints answer immediately
+const JOB_POLL_INTERVAL = 2000;
+const MAX_STREAM_ERRORS = 3; // Consecutive SSE failures before polling
+const RESULT_TAB_URL_LIFETIME = 60000; // Time a new tab gets to load a fetched result file
+const ANALYSIS_TIMEOUT_MESSAGE = 'Analysis timed out. GCP may be processing a large request - please try again.';
+
+export interface ProgressCallback {
+  (progress: number, message: string, stage?: string): void;
 }
 
 // Utility function for retrying API calls
+// Only errors flagged retryable (network, timeout, 5xx, 429) are retried
 async function fetchWithRetry<T>(
   apiCall: () => Promise<T>,
-  maxRetries: number = MAX_RETRIES
+  maxRetries: number = MAX_RETRIES,
+  signal?: AbortSignal
 ): Promise<T> {
   const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -24,199 +108,849 @@ async function fetchWithRetry<T>(
       return await apiCall();
     } catch (err: unknown) {
       const isLastAttempt = attempt === maxRetries;
+      const error = toApiError(err);
 
-      // Type-safe error message extraction
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      const isRetryableError = errorMessage.includes('fetch') ||
-                              errorMessage.includes('timeout') ||
-                              errorMessage.includes('network') ||
-                              (errorMessage.includes('HTTP 5') && !errorMessage.includes('HTTP 404'));
-
-      if (isLastAttempt || !isRetryableError) {
-        throw err;
+      if (isLastAttempt || !error.retryable) {
+        throw error;
+      }
+      if (signal?.aborted) {
+        throw new AbortedError();
       }
 
-      const delay = Math.pow(2, attempt) * 1000; // Exponential backoff: 1s, 2s, 4s
-      console.warn(`API call failed (attempt ${attempt + 1}), retrying in ${delay}ms...`, errorMessage);
+      // Exponential backoff: 1s, 2s, 4s, unless the server asked for a longer wait
+      const backoff = Math.pow(2, attempt) * 1000;
+      const delay = error instanceof QuotaError && error.retryAfterMs
+        ? Math.max(backoff, error.retryAfterMs)
+        : backoff;
+      console.warn(`API call failed (attempt ${attempt + 1}), retrying in ${delay}ms...`, error.message);
       await sleep(delay);
+
+      if (signal?.aborted) {
+        throw new AbortedError();
+      }
     }
   }
 
   throw new Error('This should never be reached');
 }
 
+/**
+ * fetch with an optional client-side time limit
+ * `init.signal` is the caller's signal; aborting it rejects with AbortedError.
+ * Anything thrown is converted to an ApiError (NetworkError, TimeoutError, ...)
+ */
+async function apiFetch(
+  url: string,
+  init: RequestInit = {},
+  timeout?: number,
+  timeoutMessage?: string,
+  authenticate: boolean = true
+): Promise<Response> {
+  const { signal, ...rest } = init;
+  if (signal?.aborted) {
+    throw new AbortedError();
+  }
+
+  // One controller for both the caller's signal and the time limit
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  let timedOut = false;
+  const timeoutId = timeout
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+    : null;
+
+  // The bearer token only goes to our own APIs, never to external result URLs
+  const send = (session: AuthSession | null) => fetch(url, {
+    ...rest,
+    headers: withAuthorization(rest.headers, session),
+    signal: controller.signal,
+  });
+
+  try {
+    const isOwnApi = url.startsWith(API_BASE_URL) || url.startsWith(CREDENTIALS_API_URL);
+    const session = authenticate && isOwnApi ? await getValidSession() : null;
+    const response = await send(session);
+
+    if (response.status !== 401 || !session) {
+      return response;
+    }
+
+    // Token rejected: refresh once and retry, or sign out
+    const refreshed = session.refresh_token ? await refreshSession() : null;
+    if (!refreshed) {
+      authStore.clear();
+      return response;
+    }
+    return await send(refreshed);
+  } catch (error) {
+    throw toApiError(error, timedOut, timeoutMessage);
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+const withAuthorization = (headers: HeadersInit | undefined, session: AuthSession | null): HeadersInit | undefined => {
+  if (!session) return headers;
+  const result = new Headers(headers);
+  result.set('Authorization', `Bearer ${session.access_token}`);
+  return result;
+};
+
+/**
+ * Read a JSON response body and check it against its schema
+ * Throws a response ValidationError for bodies that are not JSON or do not match
+ */
+async function readJson<T>(response: Response, schema: Schema<T>, resource: string): Promise<T> {
+  const requestId = getRequestId(response);
+  const text = await response.text();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    console.error(`Non-JSON ${resource} response:`, text.substring(0, 500));
+    const error = new SchemaValidationError(resource, [{ path: '', message: 'response body is not valid JSON' }]);
+    throw new ValidationError(error.message, 'response', error.issues, { status: response.status, requestId, resource, cause: error });
+  }
+
+  try {
+    return parse(schema, data, resource);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      console.error(`Malformed ${resource} response:`, error.issues);
+      throw new ValidationError(error.message, 'response', error.issues, { status: response.status, requestId, resource, cause: error });
+    }
+    throw error;
+  }
+}
+
+// ===== BACKEND CAPABILITIES =====
+
+let capabilitiesRequest: Promise<ApiCapabilities> | null = null;
+
+/**
+ * What the connected backend supports, negotiated once from `GET /`
+ * Unreachable or older backends without an info endpoint get the defaults,
+ * and the next call asks again
+ */
+export function getApiCapabilities(): Promise<ApiCapabilities> {
+  if (!capabilitiesRequest) {
+    capabilitiesRequest = getApiInfo()
+      .then(info => {
+        const capabilities = detectApiCapabilities(info);
+        console.log(`Backend API v${capabilities.version}:`, capabilities);
+        return capabilities;
+      })
+      .catch(error => {
+        console.warn('Could not read backend capabilities, assuming the latest API:', error);
+        capabilitiesRequest = null;
+        return DEFAULT_API_CAPABILITIES;
+      });
+  }
+  return capabilitiesRequest;
+}
+
 // ===== NEW SESSION-BASED ANALYSIS =====
 
+/**
+ * Build the multipart body shared by job and synchronous submissions
+ */
+function buildAnalysisFormData(
+  data: AnalysisQuery,
+  credentials: AnalysisCredentials,
+  userId: string
+): FormData {
+  const formData = new FormData();
+  formData.append('query', data.query);
+  formData.append('user_id', userId);
+  // Server-side credentials are referenced by id; the proxy attaches the key
+  if (credentials instanceof File) {
+    formData.append('credentials_file', credentials);
+  } else {
+    formData.append('credential_id', credentials.credential_id);
+  }
+  formData.append('download_data', data.download_data?.toString() || 'true');
+
+  if (data.mode === 'timeseries') {
+    formData.append('analysis_type', 'timeseries');
+    formData.append('interval', data.interval || 'annual');
+  }
+
+  // Structured area of interest; the backend prefers it over locations in the query text
+  const combined = data.areas && data.areas.length > 0 ? combineAreas(data.areas) : null;
+  const geometry = combined ? combined.geometry : data.geometry;
+  const coordinates = combined ? combined.coordinates : data.coordinates;
+
+  if (geometry) {
+    formData.append('geometry', JSON.stringify(geometry));
+  }
+  if (coordinates) {
+    formData.append('coordinates', JSON.stringify(convertFrontendCoordinates(coordinates)));
+  }
+  if (data.areas && data.areas.length > 0) {
+    formData.append('areas', JSON.stringify(areasToFeatureCollection(data.areas)));
+  }
+
+  return formData;
+}
+
 /**
  * Submit analysis request to the enhanced backend API
  * Returns session information instead of direct download
+ *
+ * The request is queued as a job and followed until it finishes, so progress
+ * reflects the stages reported by the backend. Backends without job support
+ * fall back to a single blocking /analyze call.
+ *
+ * `onJobCreated` fires once the backend accepted the job, so callers can
+ * record the job id and resume watching it after a reload.
+ *
+ * Aborting `signal` rejects with AbortedError and stops the request or the
+ * watch; cancelling the job itself is left to cancelAnalysisJob.
  */
 export async function submitAnalysis(
   data: AnalysisQuery,
-  credentialsFile: File,
+  credentials: AnalysisCredentials,
   userId: string = 'default_user',
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  onJobCreated?: (job: AnalysisJob) => void,
+  signal?: AbortSignal
 ): Promise<SessionAnalysis> {
   try {
-    onProgress?.(10, 'Preparing request...');
+    onProgress?.(0, 'Submitting analysis request...', 'submitting');
+
+    const capabilities = await getApiCapabilities();
+    if (!capabilities.sessions) {
+      throw new UnsupportedError(
+        `The connected backend (API v${capabilities.version}) only returns ZIP downloads. Please upgrade it to a version with analysis sessions.`,
+        'sessions'
+      );
+    }
 
-    // Create FormData for multipart upload
-    const formData = new FormData();
-    formData.append('query', data.query);
-    formData.append('user_id', userId);
-    formData.append('credentials_file', credentialsFile);
-    formData.append('download_data', data.download_data?.toString() || 'true');
+    const job = capabilities.jobs
+      ? await createAnalysisJob(data, credentials, userId, signal)
+      : null;
 
-    onProgress?.(20, 'Sending to AI-powered backend...');
+    if (!job) {
+      console.warn('Backend does not support analysis jobs, using synchronous /analyze');
+      return await runSynchronousAnalysis(data, credentials, userId, onProgress, signal);
+    }
 
-    // Create abort controller for timeout handling
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, API_TIMEOUT);
+    onJobCreated?.(job);
 
-    try {
-      // Submit to enhanced backend with timeout
-      console.log('Submitting request to:', `${API_BASE_URL}/analyze`);
-      console.log('Request details:', {
-        method: 'POST',
-        hasCredentialsFile: !!credentialsFile,
-        query: data.query.substring(0, 100),
-        userId: userId,
-        timeout: API_TIMEOUT
-      });
+    return await watchAnalysisJob(job.job_id, (update) => {
+      onProgress?.(update.progress, update.message || 'Processing analysis...', update.stage);
+    }, signal);
+  } catch (error) {
+    console.error('Analysis submission failed:', error);
+    throw error;
+  }
+}
 
-      const response = await fetch(`${API_BASE_URL}/analyze`, {
-        method: 'POST',
-        body: formData,
-        signal: controller.signal,
-        // Add explicit headers that might help with CORS/network issues
-        headers: {
-          'Accept': 'application/json',
-          // Don't set Content-Type for FormData - browser sets it automatically with boundary
-        },
-        // For GCP, we might need credentials
-        credentials: isGCP ? 'omit' : 'same-origin'
-      });
+/**
+ * Legacy blocking submission: holds the request open until the analysis is done
+ */
+async function runSynchronousAnalysis(
+  data: AnalysisQuery,
+  credentials: AnalysisCredentials,
+  userId: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<SessionAnalysis> {
+  const formData = buildAnalysisFormData(data, credentials, userId);
+
+  onProgress?.(0, 'Waiting for analysis to complete...', 'running');
+
+  // Submit to enhanced backend with timeout
+  console.log('Submitting request to:', `${API_BASE_URL}/analyze`);
+  console.log('Request details:', {
+    method: 'POST',
+    hasCredentialsFile: credentials instanceof File,
+    query: data.query.substring(0, 100),
+    userId: userId,
+    timeout: API_TIMEOUT
+  });
 
-      console.log('Response received:', {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries()),
-        url: response.url
-      });
+  const response = await apiFetch(`${API_BASE_URL}/analyze`, {
+    method: 'POST',
+    body: formData,
+    signal,
+    // Add explicit headers that might help with CORS/network issues
+    headers: {
+      'Accept': 'application/json',
+      // Don't set Content-Type for FormData - browser sets it automatically with boundary
+    },
+    // For GCP, we might need credentials
+    credentials: isGCP ? 'omit' : 'same-origin'
+  }, API_TIMEOUT, ANALYSIS_TIMEOUT_MESSAGE);
+
+  console.log('Response received:', {
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(response.headers.entries()),
+    url: response.url
+  });
 
-      clearTimeout(timeoutId);
+  if (!response.ok) {
+    throw await createHttpError(response, 'Analysis failed');
+  }
 
-      if (!response.ok) {
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  const sessionData = await readJson(response, sessionAnalysisSchema, 'analysis');
 
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.detail || errorMessage;
-        } catch {
-          // If response is not JSON, use status text
-        }
+  onProgress?.(100, 'Analysis ready!', 'completed');
+
+  return sessionData;
+}
+
+// ===== ASYNCHRONOUS ANALYSIS JOBS =====
+
+/**
+ * Queue an analysis job. Resolves as soon as the backend accepted the job.
+ * Returns null when the backend has no job endpoints (404/405).
+ */
+export async function createAnalysisJob(
+  data: AnalysisQuery,
+  credentials: AnalysisCredentials,
+  userId: string = 'default_user',
+  signal?: AbortSignal
+): Promise<AnalysisJob | null> {
+  const formData = buildAnalysisFormData(data, credentials, userId);
+
+  const response = await apiFetch(`${API_BASE_URL}/jobs`, {
+    method: 'POST',
+    body: formData,
+    signal,
+    headers: {
+      'Accept': 'application/json',
+    },
+    credentials: isGCP ? 'omit' : 'same-origin'
+  }, JOB_SUBMIT_TIMEOUT, 'Job submission timed out. Please try again.');
+
+  if (response.status === 404 || response.status === 405) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw await createHttpError(response, 'Job submission failed');
+  }
+
+  const job = await readJson(response, analysisJobSchema, 'analysis job');
+  console.log('Analysis job queued:', job.job_id);
+  return job;
+}
+
+/**
+ * Get the current state of an analysis job
+ */
+export async function getAnalysisJob(jobId: string, signal?: AbortSignal): Promise<AnalysisJob> {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`, {
+    signal,
+    headers: {
+      'Accept': 'application/json',
+    },
+  }, JOB_SUBMIT_TIMEOUT, 'Job status request timed out');
+
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to fetch job status');
+  }
+
+  return await readJson(response, analysisJobSchema, 'analysis job');
+}
+
+/**
+ * Ask the backend to cancel a queued or running job
+ */
+export async function cancelAnalysisJob(jobId: string, signal?: AbortSignal): Promise<AnalysisJob> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/cancel`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw await createHttpError(response, 'Cancel failed');
+    }
+
+    return await readJson(response, analysisJobSchema, 'analysis job');
+  } catch (error) {
+    console.error('Job cancel failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the Server-Sent Events URL streaming progress for a job
+ * EventSource cannot send headers. Signed-in users get a short-lived,
+ * single-use stream token from the backend for the query string instead of
+ * their access token; each connection needs a new URL.
+ */
+export async function getAnalysisJobEventsUrl(jobId: string, signal?: AbortSignal): Promise<string> {
+  const url = `${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events`;
+  if (!authStore.get()) {
+    return url;
+  }
+
+  const response = await apiFetch(`${url}/token`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Accept': 'application/json',
+    },
+  }, JOB_SUBMIT_TIMEOUT, 'Stream token request timed out');
+
+  if (response.status === 404 || response.status === 405) {
+    throw new UnsupportedError('This backend does not issue job stream tokens.', 'jobs');
+  }
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to get a job stream token');
+  }
+
+  const { token } = await readJson(response, jobStreamTokenSchema, 'job stream token');
+  return `${url}?stream_token=${encodeURIComponent(token)}`;
+}
 
-        throw new Error(errorMessage);
+/**
+ * Follow a job until it reaches a terminal state.
+ *
+ * Progress is streamed over Server-Sent Events; EventSource reconnects on its
+ * own (resuming from Last-Event-ID), and a stream closed by the backend, as
+ * one with a spent stream token is, is opened again with a new URL. After
+ * repeated stream failures, or when signed-in users cannot get a stream
+ * token, we fall back to polling /jobs/{job_id}.
+ *
+ * Aborting `signal` only stops watching; the job keeps running on the backend.
+ */
+export function watchAnalysisJob(
+  jobId: string,
+  onUpdate?: (job: AnalysisJob) => void,
+  signal?: AbortSignal
+): Promise<SessionAnalysis> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let eventSource: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    let streamErrors = 0;
+
+    const deadlineId = setTimeout(() => {
+      settle(new TimeoutError(ANALYSIS_TIMEOUT_MESSAGE));
+    }, API_TIMEOUT);
+
+    const handleAbort = () => {
+      settle(new AbortedError('Stopped following analysis job'));
+    };
+
+    const settle = (error: unknown, result?: SessionAnalysis) => {
+      if (settled) return;
+      settled = true;
+
+      signal?.removeEventListener('abort', handleAbort);
+      clearTimeout(deadlineId);
+      if (pollTimer) clearTimeout(pollTimer);
+      eventSource?.close();
+      eventSource = null;
+
+      if (result) {
+        resolve(result);
+      } else {
+        reject(error);
       }
+    };
 
-      onProgress?.(80, 'Analysis complete, preparing results...');
+    const handleJob = (job: AnalysisJob) => {
+      if (settled) return;
+      onUpdate?.(job);
+
+      switch (job.status) {
+        case 'completed':
+          if (job.result) {
+            settle(null, job.result);
+          } else {
+            settle(new ValidationError(
+              'Invalid response format from server. The analysis completed but no result was returned.',
+              'response',
+              [{ path: 'result', message: 'missing from completed job' }]
+            ));
+          }
+          break;
+        case 'failed':
+          settle(new JobFailedError(job.error || 'Analysis failed on the server', job.job_id, 'failed', { detail: job.error }));
+          break;
+        case 'cancelled':
+          settle(new JobFailedError('Analysis was cancelled', job.job_id, 'cancelled'));
+          break;
+      }
+    };
 
-      // Parse JSON response with session information
-      let sessionData: SessionAnalysis;
+    const poll = async () => {
       try {
-        const responseText = await response.text();
-        console.log('Raw response from GCP:', responseText.substring(0, 500)); // Log first 500 chars
-        sessionData = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error('JSON parsing failed:', parseError);
-        console.error('Response headers:', Object.fromEntries(response.headers.entries()));
-        throw new Error('Invalid response format from server. The analysis may have completed but the response is malformed.');
+        handleJob(await fetchWithRetry(() => getAnalysisJob(jobId, signal), MAX_RETRIES, signal));
+      } catch (error) {
+        settle(error);
+        return;
       }
 
-      onProgress?.(100, 'Analysis ready!');
+      if (!settled) {
+        pollTimer = setTimeout(poll, JOB_POLL_INTERVAL);
+      }
+    };
 
-      return sessionData;
+    const fallBackToPolling = () => {
+      console.warn(`Progress stream for job ${jobId} unavailable, falling back to polling`);
+      poll();
+    };
 
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      // Log the full error for debugging (type-safe)
-      if (error instanceof Error) {
-        console.error('Fetch error details:', {
-          name: error.name,
-          message: error.message,
-          stack: error.stack
-        });
-
-        if (error.name === 'AbortError') {
-          throw new Error('Analysis timed out. GCP may be processing a large request - please try again.');
-        }
+    const stream = async () => {
+      let url: string;
+      try {
+        url = await getAnalysisJobEventsUrl(jobId, signal);
+      } catch {
+        if (!settled) fallBackToPolling();
+        return;
+      }
+      if (settled) return;
 
-        // More specific error handling
-        if (error.message.includes('Failed to fetch')) {
-          throw new Error('Network connection failed. Please check your internet connection and try again.');
-        }
+      const source = new EventSource(url);
+      eventSource = source;
 
-        if (error.message.includes('NetworkError')) {
-          throw new Error('Network error occurred. This may be due to CORS or connectivity issues.');
+      source.onmessage = (event: MessageEvent) => {
+        streamErrors = 0;
+        try {
+          handleJob(parse(analysisJobSchema, JSON.parse(event.data), 'job event'));
+        } catch (parseError) {
+          console.warn('Ignoring malformed job event:', parseError);
         }
-      } else {
-        console.error('Unknown error type:', error);
-      }
+      };
+
+      source.onerror = () => {
+        if (settled) return;
+        streamErrors++;
+
+        if (source.readyState === EventSource.CLOSED || streamErrors >= MAX_STREAM_ERRORS) {
+          source.close();
+          eventSource = null;
+          // A stream token opens one connection, so reconnect with a new URL
+          if (streamErrors < MAX_STREAM_ERRORS) {
+            stream();
+          } else {
+            fallBackToPolling();
+          }
+        }
+      };
+    };
 
-      throw error;
+    if (signal) {
+      if (signal.aborted) {
+        handleAbort();
+        return;
+      }
+      signal.addEventListener('abort', handleAbort, { once: true });
     }
 
-  } catch (error) {
-    console.error('Analysis submission failed:', error);
-    throw error;
-  }
+    if (typeof window !== 'undefined' && typeof EventSource !== 'undefined') {
+      stream();
+    } else {
+      poll();
+    }
+  });
 }
 
 // ===== GALLERY FUNCTIONS =====
 
+export const GALLERY_PAGE_SIZE = 24;
+
 /**
- * Get gallery of analyses for a specific user
+ * One page of a user's analyses
+ * Paging backends search and sort on the server and report a total;
+ * older backends ignore `q`, `sort` and `cursor` and return a bare list
  */
 export async function getUserGallery(
   userId: string,
-  limit: number = 50,
-  offset: number = 0
-): Promise<GalleryItem[]> {
+  query: GalleryQuery = {},
+  signal?: AbortSignal
+): Promise<GalleryPage> {
+  if (!(await getApiCapabilities()).sessions) {
+    return { items: [], total: 0 };
+  }
+
   return fetchWithRetry(async () => {
     const url = new URL(`${API_BASE_URL}/gallery/${encodeURIComponent(userId)}`);
+    url.searchParams.set('limit', (query.limit || GALLERY_PAGE_SIZE).toString());
+    if (query.cursor) {
+      url.searchParams.set('cursor', query.cursor);
+    } else {
+      url.searchParams.set('offset', (query.offset || 0).toString());
+    }
+    if (query.q && query.q.trim()) url.searchParams.set('q', query.q.trim());
+    if (query.sort) url.searchParams.set('sort', query.sort);
+
+    const response = await apiFetch(url.toString(), { signal }, API_TIMEOUT, 'Gallery request timed out');
+
+    if (!response.ok) {
+      throw await createHttpError(response, 'Failed to fetch gallery');
+    }
+
+    return await readJson(response, galleryPageSchema, 'gallery');
+  }, MAX_RETRIES, signal);
+}
+
+export const COMMUNITY_PAGE_SIZE = 24;
+
+/**
+ * One page of the public community feed
+ * Search, category filter and sort are applied by the backend; backends
+ * without a feed answer with an empty page
+ */
+export async function getCommunityFeed(
+  query: CommunityFeedQuery = {},
+  signal?: AbortSignal
+): Promise<CommunityFeedPage> {
+  const limit = query.limit || COMMUNITY_PAGE_SIZE;
+  const offset = query.offset || 0;
+
+  if (!(await getApiCapabilities()).community) {
+    return { items: [], total: 0, limit, offset };
+  }
+
+  return fetchWithRetry(async () => {
+    const url = new URL(`${API_BASE_URL}/community`);
     url.searchParams.set('limit', limit.toString());
     url.searchParams.set('offset', offset.toString());
+    if (query.q && query.q.trim()) url.searchParams.set('q', query.q.trim());
+    if (query.category) url.searchParams.set('category', query.category);
+    if (query.sort) url.searchParams.set('sort', query.sort);
+    if (query.user_id) url.searchParams.set('user_id', query.user_id);
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
+    const response = await apiFetch(url.toString(), { signal }, API_TIMEOUT, 'Community feed request timed out');
 
-    try {
-      const response = await fetch(url.toString(), {
-        signal: controller.signal
-      });
+    if (!response.ok) {
+      throw await createHttpError(response, 'Failed to fetch community feed');
+    }
 
-      clearTimeout(timeoutId);
+    return await readJson(response, communityFeedSchema, 'community feed');
+  }, MAX_RETRIES, signal);
+}
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch gallery: ${response.statusText}`);
-      }
+/**
+ * Change who can open an analysis (user must own it)
+ * Organization and public analyses are listed in the community feed.
+ */
+export async function updateAnalysisVisibility(
+  sessionId: string,
+  userId: string,
+  update: VisibilityUpdate,
+  signal?: AbortSignal
+): Promise<VisibilityState> {
+  if (!(await getApiCapabilities()).community) {
+    throw new UnsupportedError('This backend does not support sharing settings.', 'community');
+  }
 
-      return await response.json();
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Gallery request timed out');
-      }
-      throw error;
-    }
+  const url = new URL(`${API_BASE_URL}/results/${encodeURIComponent(sessionId)}/visibility`);
+  url.searchParams.set('user_id', userId);
+
+  const response = await apiFetch(url.toString(), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to change visibility');
+  }
+
+  return await readJson(response, visibilityStateSchema, 'visibility');
+}
+
+/**
+ * Change the title, description or tags of an analysis (user must own it)
+ * Resolves with the metadata as saved by the backend
+ */
+export async function updateAnalysisMetadata(
+  sessionId: string,
+  userId: string,
+  update: MetadataUpdate,
+  signal?: AbortSignal
+): Promise<AnalysisMetadata> {
+  if (!(await getApiCapabilities()).sessions) {
+    throw new UnsupportedError('This backend does not support editing analyses.', 'sessions');
+  }
+
+  const url = new URL(`${API_BASE_URL}/results/${encodeURIComponent(sessionId)}/metadata`);
+  url.searchParams.set('user_id', userId);
+
+  const response = await apiFetch(url.toString(), {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+    signal,
   });
+
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to save analysis details');
+  }
+
+  return await readJson(response, analysisMetadataSchema, 'metadata');
+}
+
+// ===== ENGAGEMENT =====
+
+type EngagementAction = 'like' | 'view' | 'share';
+
+/**
+ * Send one like, unlike, view or share and read back the updated counts
+ * Not retried: a repeated view or share would be counted twice
+ */
+async function sendEngagement(
+  sessionId: string,
+  userId: string,
+  action: EngagementAction,
+  method: 'POST' | 'DELETE',
+  signal?: AbortSignal
+): Promise<EngagementStats> {
+  if (!(await getApiCapabilities()).engagement) {
+    throw new UnsupportedError('This backend does not record likes, views or shares.', 'engagement');
+  }
+
+  const url = new URL(`${API_BASE_URL}/results/${encodeURIComponent(sessionId)}/${action}`);
+  url.searchParams.set('user_id', userId);
+
+  const response = await apiFetch(url.toString(), { method, signal });
+
+  if (!response.ok) {
+    throw await createHttpError(response, `Failed to record ${action}`);
+  }
+
+  return await readJson(response, engagementStatsSchema, action);
+}
+
+/**
+ * Like an analysis; liking it again has no effect
+ */
+export function likeAnalysis(sessionId: string, userId: string, signal?: AbortSignal): Promise<EngagementStats> {
+  return sendEngagement(sessionId, userId, 'like', 'POST', signal);
+}
+
+/**
+ * Take back a like
+ */
+export function unlikeAnalysis(sessionId: string, userId: string, signal?: AbortSignal): Promise<EngagementStats> {
+  return sendEngagement(sessionId, userId, 'like', 'DELETE', signal);
+}
+
+/**
+ * Count one view of an analysis
+ */
+export function recordAnalysisView(sessionId: string, userId: string, signal?: AbortSignal): Promise<EngagementStats> {
+  return sendEngagement(sessionId, userId, 'view', 'POST', signal);
+}
+
+/**
+ * Count one share of an analysis link
+ */
+export function recordAnalysisShare(sessionId: string, userId: string, signal?: AbortSignal): Promise<EngagementStats> {
+  return sendEngagement(sessionId, userId, 'share', 'POST', signal);
+}
+
+/**
+ * Analyses a user liked, most recently liked first
+ * Analyses that are no longer visible to them are left out by the backend
+ */
+export async function getFavorites(
+  userId: string,
+  limit: number = 50,
+  offset: number = 0,
+  signal?: AbortSignal
+): Promise<CommunityItem[]> {
+  if (!(await getApiCapabilities()).engagement) {
+    return [];
+  }
+
+  return fetchWithRetry(async () => {
+    const url = new URL(`${API_BASE_URL}/favorites/${encodeURIComponent(userId)}`);
+    url.searchParams.set('limit', limit.toString());
+    url.searchParams.set('offset', offset.toString());
+
+    const response = await apiFetch(url.toString(), { signal }, API_TIMEOUT, 'Favorites request timed out');
+
+    if (!response.ok) {
+      throw await createHttpError(response, 'Failed to fetch favorites');
+    }
+
+    return await readJson(response, favoritesResponseSchema, 'favorites');
+  }, MAX_RETRIES, signal);
 }
 
 // ===== INDIVIDUAL FILE ACCESS =====
 
+// Results are only served to viewers who may open the analysis; signed-in
+// viewers are known by their token, anonymous owners by their id
+const asViewer = (url: string): string => {
+  const target = new URL(url);
+  target.searchParams.set('user_id', getUserId());
+  return target.toString();
+};
+
+async function fetchResultFile(url: string, signal?: AbortSignal): Promise<Response> {
+  const response = await apiFetch(asViewer(url), { signal });
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to load result file');
+  }
+  return response;
+}
+
+/**
+ * Fetch a result file with the viewer's session and return an object URL for it
+ * For <img>, <iframe>, map tiles and new tabs, which send no token. Callers revoke the URL.
+ */
+export async function loadResultFile(url: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetchResultFile(url, signal);
+  return URL.createObjectURL(await response.blob());
+}
+
+/**
+ * Fetch a result file with the viewer's session and return its contents
+ * For GeoTIFF and vector layers, which are parsed in the browser.
+ */
+export async function loadResultFileData(url: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const response = await fetchResultFile(url, signal);
+  return response.arrayBuffer();
+}
+
+/**
+ * Open a result file in a new tab
+ * Files of analyses not everyone can open are fetched with the viewer's session first.
+ */
+export async function openResultFile(url: string, visibility?: AnalysisVisibility, features?: string): Promise<void> {
+  if (isOpenVisibility(visibility)) {
+    window.open(url, '_blank', features);
+    return;
+  }
+
+  // Opened before the fetch, while the click still allows popups
+  const tab = window.open('', '_blank', features);
+  try {
+    const objectUrl = await loadResultFile(url);
+    if (tab) {
+      tab.location.href = objectUrl;
+    } else {
+      window.open(objectUrl, '_blank', features);
+    }
+    setTimeout(() => URL.revokeObjectURL(objectUrl), RESULT_TAB_URL_LIFETIME);
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
+
 /**
  * Get thumbnail preview URL for an analysis
  */
@@ -246,6 +980,13 @@ export function getAnalysisDownloadUrl(sessionId: string): string {
   return `${API_BASE_URL}/results/${sessionId}/download?t=${Date.now()}`;
 }
 
+/**
+ * Link that opens an analysis on its own page (/analysis/[sessionId])
+ */
+export function getAnalysisShareUrl(sessionId: string): string {
+  return `${APP_ORIGIN}/analysis/${encodeURIComponent(sessionId)}`;
+}
+
 /**
  * ADDED: Fix thumbnail URL for analysis cards
  */
@@ -256,10 +997,11 @@ export function fixThumbnailUrl(sessionId: string): string {
 /**
  * Check if preview image is available (non-blocking check)
  */
-export async function checkPreviewAvailability(sessionId: string): Promise<boolean> {
+export async function checkPreviewAvailability(sessionId: string, signal?: AbortSignal): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE_URL}/results/${sessionId}/preview`, {
+    const response = await apiFetch(asViewer(`${API_BASE_URL}/results/${sessionId}/preview`), {
       method: 'HEAD',  // Only check headers, don't download image
+      signal,
     });
     return response.ok;
   } catch (error) {
@@ -271,35 +1013,151 @@ export async function checkPreviewAvailability(sessionId: string): Promise<boole
 /**
  * Get analysis metadata
  */
-export async function getAnalysisMetadata(sessionId: string): Promise<any> {
+export async function getAnalysisMetadata(sessionId: string, signal?: AbortSignal): Promise<AnalysisMetadata> {
   try {
-    const response = await fetch(`${API_BASE_URL}/results/${sessionId}/metadata`);
+    const response = await apiFetch(asViewer(`${API_BASE_URL}/results/${sessionId}/metadata`), { signal });
     
     if (!response.ok) {
-      throw new Error(`Failed to fetch metadata: ${response.statusText}`);
+      throw await createHttpError(response, 'Failed to fetch metadata');
     }
     
-    return await response.json();
+    return await readJson(response, analysisMetadataSchema, 'metadata');
   } catch (error) {
     console.error('Metadata fetch failed:', error);
     throw error;
   }
 }
 
+/**
+ * Get per-class NDVI statistics as JSON
+ * Returns null when the backend has no statistics endpoint or no statistics for this analysis
+ */
+export async function getAnalysisStatistics(sessionId: string, signal?: AbortSignal): Promise<AnalysisStatistics | null> {
+  if (!(await getApiCapabilities()).statistics) {
+    return null;
+  }
+
+  try {
+    const response = await apiFetch(asViewer(`${API_BASE_URL}/results/${sessionId}/statistics`), { signal });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw await createHttpError(response, 'Failed to fetch statistics');
+    }
+
+    const statistics = await readJson(response, statisticsResponseSchema, 'statistics');
+    return hasClassStatistics(statistics) ? statistics : null;
+  } catch (error) {
+    console.error('Statistics fetch failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the per-period statistics of a time-series analysis
+ * Returns null when the backend has no time series for this analysis
+ */
+export async function getAnalysisTimeSeries(sessionId: string, signal?: AbortSignal): Promise<NDVIPeriodStatistics[] | null> {
+  if (!(await getApiCapabilities()).timeseries) {
+    return null;
+  }
+
+  try {
+    const response = await apiFetch(asViewer(`${API_BASE_URL}/results/${sessionId}/timeseries`), { signal });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw await createHttpError(response, 'Failed to fetch time series');
+    }
+
+    const series = await readJson(response, timeSeriesResponseSchema, 'time series');
+    return series.sort((a, b) => a.start_date.localeCompare(b.start_date));
+  } catch (error) {
+    console.error('Time series fetch failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Resolve a result file URL that may be relative to the API
+ */
+export function resolveResultUrl(url: string): string {
+  return /^https?:\/\//.test(url) ? url : `${API_BASE_URL}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Get the map layers (rasters, tiles, vectors) produced by an analysis
+ * Returns null when the backend predates the layer manifest
+ */
+export async function getAnalysisLayers(sessionId: string, signal?: AbortSignal): Promise<ResultLayer[] | null> {
+  if (!(await getApiCapabilities()).layers) {
+    return null;
+  }
+
+  try {
+    const response = await apiFetch(asViewer(`${API_BASE_URL}/results/${sessionId}/layers`), { signal });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw await createHttpError(response, 'Failed to fetch result layers');
+    }
+
+    const layers = await readJson(response, resultLayersResponseSchema, 'result layers');
+    return layers.map(layer => ({ ...layer, url: resolveResultUrl(layer.url) }));
+  } catch (error) {
+    console.error('Result layers fetch failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Query a tile layer's value at a point through its value_url template
+ */
+export async function getResultLayerValue(
+  layer: ResultLayer,
+  lat: number,
+  lon: number,
+  signal?: AbortSignal
+): Promise<number | null> {
+  if (!layer.value_url) return null;
+
+  const url = resolveResultUrl(layer.value_url)
+    .replace('{lat}', lat.toFixed(6))
+    .replace('{lon}', lon.toFixed(6));
+
+  const response = await apiFetch(asViewer(url), { signal });
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to fetch pixel value');
+  }
+
+  const data = await readJson(response, pixelValueSchema, 'pixel value');
+  return data.value;
+}
+
 /**
  * Download analysis as ZIP file with retry logic
  */
-export async function downloadAnalysisZip(sessionId: string): Promise<void> {
+export async function downloadAnalysisZip(sessionId: string, signal?: AbortSignal): Promise<void> {
   const maxRetries = 2;
-  let lastError: Error | null = null;
+  let lastError: ApiError | null = null;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
       // Add timestamp to prevent caching issues
-      const downloadUrl = `${API_BASE_URL}/results/${sessionId}/download?t=${Date.now()}`;
+      const downloadUrl = asViewer(`${API_BASE_URL}/results/${sessionId}/download?t=${Date.now()}`);
 
-      const response = await fetch(downloadUrl, {
+      const response = await apiFetch(downloadUrl, {
         method: 'GET',
+        signal,
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
           'Pragma': 'no-cache',
@@ -308,7 +1166,7 @@ export async function downloadAnalysisZip(sessionId: string): Promise<void> {
       });
 
       if (!response.ok) {
-        throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+        throw await createHttpError(response, 'Download failed');
       }
 
       // Handle ZIP file download
@@ -316,7 +1174,7 @@ export async function downloadAnalysisZip(sessionId: string): Promise<void> {
 
       // Verify we got a proper file
       if (blob.size === 0) {
-        throw new Error('Downloaded file is empty');
+        throw new HttpError('Downloaded file is empty', { status: response.status, retryable: true });
       }
 
       const url = window.URL.createObjectURL(blob);
@@ -343,9 +1201,14 @@ export async function downloadAnalysisZip(sessionId: string): Promise<void> {
       return; // Success - exit the retry loop
 
     } catch (error) {
-      lastError = error as Error;
+      lastError = toApiError(error);
       console.warn(`Download attempt ${attempt + 1} failed:`, error);
 
+      // 404s, auth failures, aborts and the like will not fix themselves
+      if (!lastError.retryable || signal?.aborted) {
+        break;
+      }
+
       // If this isn't the last attempt, wait before retrying
       if (attempt < maxRetries) {
         await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1))); // Progressive delay
@@ -355,32 +1218,32 @@ export async function downloadAnalysisZip(sessionId: string): Promise<void> {
 
   // If we get here, all attempts failed
   console.error('All download attempts failed:', lastError);
-  throw lastError || new Error('Download failed after multiple attempts');
+  throw lastError || new NetworkError('Download failed after multiple attempts');
 }
 
 /**
  * Open analysis map in new window
  */
-export function openAnalysisMap(sessionId: string): void {
+export function openAnalysisMap(sessionId: string, visibility?: AnalysisVisibility): Promise<void> {
   const mapUrl = getAnalysisMapUrl(sessionId);
-  window.open(mapUrl, '_blank', 'width=1200,height=800,scrollbars=yes,resizable=yes');
+  return openResultFile(mapUrl, visibility, 'width=1200,height=800,scrollbars=yes,resizable=yes');
 }
 
 /**
  * Delete an analysis (user must own it)
  */
-export async function deleteAnalysis(sessionId: string, userId: string): Promise<void> {
+export async function deleteAnalysis(sessionId: string, userId: string, signal?: AbortSignal): Promise<void> {
   try {
     const url = new URL(`${API_BASE_URL}/results/${sessionId}`);
     url.searchParams.set('user_id', userId);
     
-    const response = await fetch(url.toString(), {
+    const response = await apiFetch(url.toString(), {
       method: 'DELETE',
+      signal,
     });
     
     if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.detail || `Delete failed: ${response.statusText}`);
+      throw await createHttpError(response, 'Delete failed');
     }
     
   } catch (error) {
@@ -394,33 +1257,16 @@ export async function deleteAnalysis(sessionId: string, userId: string): Promise
 /**
  * Health check for the API
  */
-export async function checkApiHealth(): Promise<{
-  status: string;
-  analyzer_initialized: boolean;
-  gemini_model_initialized: boolean;
-  project_id?: string;
-}> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s for health check
-
+export async function checkApiHealth(signal?: AbortSignal): Promise<ApiHealth> {
   try {
-    const response = await fetch(`${API_BASE_URL}/health`, {
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
+    // 10s for health check
+    const response = await apiFetch(`${API_BASE_URL}/health`, { signal }, 10000, 'Health check timed out');
 
     if (!response.ok) {
-      throw new Error(`Health check failed: ${response.statusText}`);
+      throw await createHttpError(response, 'Health check failed');
     }
-    return await response.json();
+    return await readJson(response, apiHealthSchema, 'health');
   } catch (error) {
-    clearTimeout(timeoutId);
-
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Health check timed out');
-    }
-
     console.error('Health check failed:', error);
     throw error;
   }
@@ -429,18 +1275,13 @@ export async function checkApiHealth(): Promise<{
 /**
  * Get API information
  */
-export async function getApiInfo(): Promise<{
-  service: string;
-  version: string;
-  description: string;
-  endpoints: any;
-}> {
+export async function getApiInfo(signal?: AbortSignal): Promise<ApiInfo> {
   try {
-    const response = await fetch(`${API_BASE_URL}/`);
+    const response = await apiFetch(`${API_BASE_URL}/`, { signal });
     if (!response.ok) {
-      throw new Error(`API info request failed: ${response.statusText}`);
+      throw await createHttpError(response, 'API info request failed');
     }
-    return await response.json();
+    return await readJson(response, apiInfoSchema, 'API info');
   } catch (error) {
     console.error('API info request failed:', error);
     throw error;
@@ -448,95 +1289,146 @@ export async function getApiInfo(): Promise<{
 }
 
 /**
- * Validate credentials file before upload
+ * Service accounts registered on the credential proxy that the signed-in user may use
+ * Only their project and client email are returned; the keys never leave the server
  */
-export function validateCredentialsFile(file: File): { valid: boolean; error?: string } {
-  // Check file type
-  if (file.type !== 'application/json' && !file.name.endsWith('.json')) {
-    return {
-      valid: false,
-      error: 'File must be a JSON file'
-    };
-  }
-
-  // Check file size (should be reasonable for a credentials file)
-  const maxSize = 10 * 1024 * 1024; // 10MB
-  if (file.size > maxSize) {
-    return {
-      valid: false,
-      error: 'File is too large. Credentials files should be under 10MB.'
-    };
-  }
+export async function listServerCredentials(signal?: AbortSignal): Promise<ServerCredential[]> {
+  const response = await apiFetch(CREDENTIALS_API_URL, {
+    headers: { 'Accept': 'application/json' },
+    signal,
+  });
 
-  if (file.size < 100) {
-    return {
-      valid: false,
-      error: 'File is too small to be a valid credentials file.'
-    };
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to load credentials');
   }
 
-  return { valid: true };
+  return await readJson(response, serverCredentialsResponseSchema, 'credentials');
 }
 
 /**
  * Format error messages for display
  */
 export function formatApiError(error: unknown): string {
-  if (error instanceof Error) {
-    // Handle timeout errors
-    if (error.message.includes('timed out') || error.name === 'AbortError') {
-      return isGCP
-        ? 'Request timed out. GCP may be processing a complex analysis - this is normal for the first request. Please try again.'
-        : 'Request timed out. Please check your connection and try again.';
-    }
+  if (!(error instanceof Error)) {
+    return 'An unexpected error occurred. Please try again.';
+  }
 
-    // Handle common HTTP errors
-    if (error.message.includes('Failed to fetch')) {
-      return 'Unable to connect to the analysis server. Please check your internet connection and try again.';
-    }
+  const apiError = toApiError(error);
+  const reference = apiError.requestId ? ` (Request ID: ${apiError.requestId})` : '';
 
-    if (error.message.includes('HTTP 422')) {
-      return 'Invalid request data. Please check your inputs and try again.';
-    }
+  if (apiError instanceof TimeoutError) {
+    return isGCP
+      ? 'Request timed out. GCP may be processing a complex analysis - this is normal for the first request. Please try again.'
+      : 'Request timed out. Please check your connection and try again.';
+  }
+
+  if (apiError instanceof NetworkError) {
+    return 'Unable to connect to the analysis server. Please check your internet connection and try again.';
+  }
+
+  if (apiError instanceof AbortedError) {
+    return 'The request was cancelled.';
+  }
+
+  if (apiError instanceof AuthError) {
+    return apiError.detail
+      ? `Access denied: ${apiError.detail}${reference}`
+      : `The server rejected your credentials. Check that your service account key is valid and has Earth Engine access.${reference}`;
+  }
+
+  if (apiError instanceof QuotaError) {
+    const wait = apiError.retryAfterMs
+      ? ` Please wait ${Math.ceil(apiError.retryAfterMs / 1000)} seconds and try again.`
+      : ' Please wait a few minutes and try again.';
+    return `${apiError.detail || 'Earth Engine or API quota exceeded.'}${wait}`;
+  }
+
+  if (apiError instanceof ValidationError) {
+    const issue = apiError.issues[0];
+    const field = issue?.path ? ` (${issue.path}: ${issue.message})` : '';
+    const resource = apiError.resource ? `${apiError.resource} ` : '';
+    return apiError.source === 'request'
+      ? `Invalid request data${field}. Please check your inputs and try again.`
+      : `The server sent an unexpected ${resource}response${field}. Please try again or contact support.${reference}`;
+  }
+
+  if (apiError instanceof JobFailedError) {
+    return `${apiError.message}${reference}`;
+  }
 
-    if (error.message.includes('HTTP 413')) {
+  if (apiError instanceof HttpError) {
+    if (apiError.status === 413) {
       return 'File too large. Please use a smaller credentials file.';
     }
-
-    if (error.message.includes('HTTP 500')) {
-      return 'Server error occurred during analysis. Please try again later.';
+    if (apiError.status !== undefined && apiError.status >= 500) {
+      return `${apiError.detail || 'Server error occurred during analysis.'} Please try again later.${reference}`;
     }
-
-    return error.message;
   }
 
-  // Handle non-Error objects
-  const errorMessage = String(error);
-  if (errorMessage.includes('timed out') || errorMessage.includes('AbortError')) {
-    return isGCP
-      ? 'Request timed out. GCP may be processing a complex analysis - this is normal for the first request. Please try again.'
-      : 'Request timed out. Please check your connection and try again.';
+  return `${apiError.message}${reference}`;
+}
+
+export interface ApiErrorNotice {
+  type: 'error' | 'warning' | 'info';
+  title: string;
+  message: string;
+  duration: number;
+}
+
+/**
+ * Toast content for an API error, so every failure of the same kind looks the same
+ * `title` is used for errors without a more specific heading
+ */
+export function getApiErrorNotice(error: unknown, title: string): ApiErrorNotice {
+  const message = formatApiError(error);
+  const apiError = error instanceof Error ? toApiError(error) : null;
+
+  if (apiError instanceof TimeoutError) {
+    return { type: 'warning', title: 'Processing Takes Time', message, duration: 12000 };
+  }
+  if (apiError instanceof NetworkError) {
+    return { type: 'error', title: 'Backend Unreachable', message, duration: 8000 };
+  }
+  if (apiError instanceof AbortedError) {
+    return { type: 'info', title: 'Request Cancelled', message, duration: 3000 };
+  }
+  if (apiError instanceof AuthError) {
+    return { type: 'error', title: 'Access Denied', message, duration: 10000 };
+  }
+  if (apiError instanceof QuotaError) {
+    return { type: 'warning', title: 'Quota Exceeded', message, duration: 12000 };
+  }
+  if (apiError instanceof ValidationError) {
+    return {
+      type: 'error',
+      title: apiError.source === 'request' ? 'Invalid Request' : 'Unexpected Server Response',
+      message,
+      duration: 10000
+    };
+  }
+  if (apiError instanceof UnsupportedError) {
+    return { type: 'error', title: 'Backend Not Supported', message, duration: 12000 };
+  }
+  if (apiError instanceof JobFailedError && apiError.jobStatus === 'cancelled') {
+    return { type: 'info', title: 'Analysis Cancelled', message, duration: 5000 };
   }
 
-  return 'An unexpected error occurred. Please try again.';
+  return { type: 'error', title, message, duration: 8000 };
 }
 
 /**
  * Keep GCP instance warm by pinging health endpoint
  */
-export async function keepGCPWarm(): Promise<boolean> {
+export async function keepGCPWarm(signal?: AbortSignal): Promise<boolean> {
   if (!isGCP) return true; // No need for local backend
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // Short timeout for keep-alive
-
-    const response = await fetch(`${API_BASE_URL}/health`, {
+    // Short timeout for keep-alive
+    const response = await apiFetch(`${API_BASE_URL}/health`, {
       method: 'GET',
-      signal: controller.signal
-    });
+      signal
+    }, 5000);
 
-    clearTimeout(timeoutId);
     return response.ok;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -545,11 +1437,219 @@ export async function keepGCPWarm(): Promise<boolean> {
   }
 }
 
+// ===== AUTHENTICATION =====
+
+let refreshRequest: Promise<AuthSession | null> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token
+ * Resolves null, and signs out, when the refresh token is no longer accepted;
+ * concurrent callers share one request
+ */
+export function refreshSession(): Promise<AuthSession | null> {
+  const session = authStore.get();
+  if (!session?.refresh_token) {
+    return Promise.resolve(null);
+  }
+
+  if (!refreshRequest) {
+    refreshRequest = (async () => {
+      try {
+        const response = await apiFetch(`${API_BASE_URL}/auth/refresh`, {
+          method: 'POST',
+          headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refresh_token: session.refresh_token }),
+        }, JOB_SUBMIT_TIMEOUT, undefined, false);
+
+        if (!response.ok) {
+          throw await createHttpError(response, 'Session refresh failed');
+        }
+
+        const refreshed = toAuthSession(await readJson(response, authTokenResponseSchema, 'session'));
+        // Some providers rotate refresh tokens, others keep the original
+        const next = { ...refreshed, refresh_token: refreshed.refresh_token || session.refresh_token };
+        authStore.set(next);
+        return next;
+      } catch (error) {
+        console.warn('Session refresh failed:', error);
+        if (error instanceof AuthError || error instanceof ValidationError) {
+          authStore.clear();
+        }
+        return null;
+      } finally {
+        refreshRequest = null;
+      }
+    })();
+  }
+  return refreshRequest;
+}
+
+// Current session, refreshed first when its access token has expired
+async function getValidSession(): Promise<AuthSession | null> {
+  const session = authStore.get();
+  if (!session || !isSessionExpired(session)) {
+    return session;
+  }
+  if (!session.refresh_token) {
+    authStore.clear();
+    return null;
+  }
+  return refreshSession();
+}
+
+async function requestSession(path: string, body: object, action: string, signal?: AbortSignal): Promise<AuthSession> {
+  const response = await apiFetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  }, JOB_SUBMIT_TIMEOUT, undefined, false);
+
+  if (!response.ok) {
+    throw await createHttpError(response, action);
+  }
+
+  const session = toAuthSession(await readJson(response, authTokenResponseSchema, 'session'));
+  authStore.set(session);
+  return session;
+}
+
+/**
+ * Sign in with email and password against the backend's local accounts
+ */
+export function signIn(credentials: SignInCredentials, signal?: AbortSignal): Promise<AuthSession> {
+  return requestSession('/auth/login', { email: credentials.email, password: credentials.password }, 'Sign-in failed', signal);
+}
+
+/**
+ * Create a local account and sign in to it
+ */
+export function signUp(credentials: SignInCredentials, signal?: AbortSignal): Promise<AuthSession> {
+  return requestSession('/auth/register', credentials, 'Registration failed', signal);
+}
+
+// Nonce of the OIDC sign-in started in this tab
+const OIDC_STATE_STORAGE_KEY = 'geoanalytics_oidc_state';
+
+/**
+ * URL starting the OIDC flow; the backend redirects back to `redirectUri`
+ * with the tokens and the same `state` in the URL fragment
+ */
+export function getOidcSignInUrl(redirectUri: string): string {
+  const bytes = new Uint8Array(16);
+  window.crypto.getRandomValues(bytes);
+  const state = Array.from(bytes, byte => ('0' + byte.toString(16)).slice(-2)).join('');
+  window.sessionStorage.setItem(OIDC_STATE_STORAGE_KEY, state);
+
+  return `${API_BASE_URL}/auth/oidc/authorize?redirect_uri=${encodeURIComponent(redirectUri)}&state=${state}`;
+}
+
+/**
+ * Finish an OIDC sign-in from the tokens handed back to the callback page
+ * Tokens are only accepted with the `state` of a sign-in this tab started;
+ * anything else may be a link signing the user into someone else's account.
+ */
+export async function completeOidcSignIn(
+  tokens: { access_token: string; refresh_token?: string; expires_in?: number },
+  state: string | null,
+  signal?: AbortSignal
+): Promise<AuthSession> {
+  // Each nonce is good for one callback
+  const expectedState = window.sessionStorage.getItem(OIDC_STATE_STORAGE_KEY);
+  window.sessionStorage.removeItem(OIDC_STATE_STORAGE_KEY);
+  if (!expectedState || state !== expectedState) {
+    throw new AuthError('OIDC state mismatch', {
+      status: 401,
+      detail: 'this sign-in was not started from this browser tab. Please sign in again.',
+    });
+  }
+
+  const response = await apiFetch(`${API_BASE_URL}/auth/me`, {
+    headers: { 'Accept': 'application/json', 'Authorization': `Bearer ${tokens.access_token}` },
+    signal,
+  }, JOB_SUBMIT_TIMEOUT, undefined, false);
+
+  if (!response.ok) {
+    throw await createHttpError(response, 'Sign-in failed');
+  }
+
+  const user = await readJson(response, authUserSchema, 'user');
+  const session = toAuthSession({ ...tokens, user: { method: 'oidc', ...user } });
+  authStore.set(session);
+  return session;
+}
+
+/**
+ * The signed-in user as the backend knows it
+ */
+export async function getCurrentUser(signal?: AbortSignal): Promise<AuthUser> {
+  const response = await apiFetch(`${API_BASE_URL}/auth/me`, {
+    headers: { 'Accept': 'application/json' },
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to fetch user');
+  }
+
+  return await readJson(response, authUserSchema, 'user');
+}
+
+/**
+ * Sign out locally; the backend is told to revoke the refresh token when it can be reached
+ */
+export async function signOut(): Promise<void> {
+  const session = authStore.get();
+  authStore.clear();
+
+  if (!session) return;
+
+  try {
+    await apiFetch(`${API_BASE_URL}/auth/logout`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ refresh_token: session.refresh_token }),
+    }, JOB_SUBMIT_TIMEOUT, undefined, false);
+  } catch (error) {
+    console.warn('Sign-out request failed:', error);
+  }
+}
+
+/**
+ * Move the analyses made under this browser's anonymous id into the signed-in account
+ * The anonymous id is forgotten once the backend confirms; returns the number moved
+ */
+export async function claimAnonymousAnalyses(signal?: AbortSignal): Promise<number> {
+  const anonymousId = getAnonymousUserId();
+  if (!anonymousId || !authStore.get()) {
+    return 0;
+  }
+
+  const response = await apiFetch(`${API_BASE_URL}/auth/claim`, {
+    method: 'POST',
+    headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ anonymous_user_id: anonymousId }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await createHttpError(response, 'Failed to move analyses to your account');
+  }
+
+  const { migrated } = await readJson(response, claimAnalysesSchema, 'claim');
+  clearUserData();
+  return migrated;
+}
+
 // ===== USER MANAGEMENT =====
 
 /**
- * Generate or get user ID (simple implementation)
- * In production, this would integrate with your auth system
+ * Account id when signed in, otherwise this browser's anonymous id
+ * (generated on first use)
  */
 export function getUserId(): string {
   // Check if we're in a browser environment
@@ -557,6 +1657,11 @@ export function getUserId(): string {
     // Return a temporary ID for server-side rendering
     return 'temp_user_ssr';
   }
+
+  const session = authStore.get();
+  if (session) {
+    return session.user.id;
+  }
   
   // Try to get from localStorage first
   const stored = localStorage.getItem('geoanalytics_user_id');
@@ -571,6 +1676,13 @@ export function getUserId(): string {
   return userId;
 }
 
+/**
+ * Anonymous id of this browser, if one was ever generated
+ */
+export function getAnonymousUserId(): string | null {
+  return typeof window !== 'undefined' ? localStorage.getItem('geoanalytics_user_id') : null;
+}
+
 /**
  * Set user ID (for custom user identification)
  */
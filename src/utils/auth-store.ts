@@ -0,0 +1,66 @@
+import { AuthSession, AuthTokenResponse } from '@/types/auth';
+import storage from './storage';
+
+/**
+ * Signed-in session, backed by localStorage and shared by every component
+ * Subscribers are told about sign-in, refresh and sign-out, including
+ * changes made in other tabs.
+ */
+
+const AUTH_STORAGE_KEY = 'geoanalytics_auth';
+// Refresh a little before the access token actually runs out
+const EXPIRY_MARGIN_MS = 30000;
+
+type AuthListener = (session: AuthSession | null) => void;
+
+const listeners = new Set<AuthListener>();
+
+const notify = (session: AuthSession | null) => {
+  listeners.forEach(listener => listener(session));
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === AUTH_STORAGE_KEY) {
+      notify(authStore.get());
+    }
+  });
+}
+
+export function toAuthSession(response: AuthTokenResponse): AuthSession {
+  return {
+    access_token: response.access_token,
+    refresh_token: response.refresh_token,
+    expires_at: response.expires_in ? Date.now() + response.expires_in * 1000 : undefined,
+    user: response.user,
+  };
+}
+
+export function isSessionExpired(session: AuthSession): boolean {
+  return session.expires_at !== undefined && session.expires_at - EXPIRY_MARGIN_MS <= Date.now();
+}
+
+export const authStore = {
+  get: (): AuthSession | null => {
+    return storage.get<AuthSession | null>(AUTH_STORAGE_KEY, null);
+  },
+
+  set: (session: AuthSession): void => {
+    storage.set(AUTH_STORAGE_KEY, session);
+    notify(session);
+  },
+
+  clear: (): void => {
+    storage.remove(AUTH_STORAGE_KEY);
+    notify(null);
+  },
+
+  subscribe: (listener: AuthListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+export default authStore;
@@ -0,0 +1,153 @@
+import { BasemapDefinition, BasemapKind, BasemapPreference } from '@/types/map';
+
+/**
+ * Basemap catalogue for the interactive map
+ *
+ * Offline deployments set NEXT_PUBLIC_TILE_SERVER_URL to a local tile server,
+ * which becomes the default, and NEXT_PUBLIC_OFFLINE_MAPS=true to hide the
+ * internet basemaps.
+ */
+
+export const BASEMAP_STORAGE_KEY = 'geoanalytics_basemap';
+export const CUSTOM_BASEMAP_ID = 'custom';
+export const LOCAL_BASEMAP_ID = 'local';
+
+const ONLINE_BASEMAPS: BasemapDefinition[] = [
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    kind: 'xyz',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 19,
+  },
+  {
+    id: 'esri-imagery',
+    name: 'Satellite',
+    kind: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: '&copy; <a href="https://www.esri.com/">Esri</a>, Maxar, Earthstar Geographics',
+    maxZoom: 19,
+  },
+  {
+    id: 'terrain',
+    name: 'Terrain',
+    kind: 'xyz',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: 'Map data &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, SRTM | Style &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)',
+    maxZoom: 17,
+  },
+];
+
+const tileServerKind = (process.env.NEXT_PUBLIC_TILE_SERVER_TYPE || 'xyz') as BasemapKind;
+
+const LOCAL_BASEMAP: BasemapDefinition | null = process.env.NEXT_PUBLIC_TILE_SERVER_URL
+  ? {
+      id: LOCAL_BASEMAP_ID,
+      name: process.env.NEXT_PUBLIC_TILE_SERVER_NAME || 'Local tiles',
+      kind: ['xyz', 'wms', 'wmts'].includes(tileServerKind) ? tileServerKind : 'xyz',
+      url: process.env.NEXT_PUBLIC_TILE_SERVER_URL,
+      layers: process.env.NEXT_PUBLIC_TILE_SERVER_LAYERS,
+      attribution: process.env.NEXT_PUBLIC_TILE_SERVER_ATTRIBUTION,
+    }
+  : null;
+
+const OFFLINE_MAPS = process.env.NEXT_PUBLIC_OFFLINE_MAPS === 'true';
+
+/**
+ * Built-in basemaps available in this deployment
+ */
+export function getBuiltInBasemaps(): BasemapDefinition[] {
+  const online = OFFLINE_MAPS ? [] : ONLINE_BASEMAPS;
+  return LOCAL_BASEMAP ? [LOCAL_BASEMAP, ...online] : online;
+}
+
+export function getDefaultBasemapId(): string {
+  return getBuiltInBasemaps()[0]?.id || CUSTOM_BASEMAP_ID;
+}
+
+/**
+ * Basemap to display for a stored preference
+ * Falls back to the default when the stored choice is no longer available
+ */
+export function resolveBasemap(preference: BasemapPreference): BasemapDefinition | null {
+  if (preference.basemapId === CUSTOM_BASEMAP_ID) {
+    return preference.custom || getBuiltInBasemaps()[0] || null;
+  }
+
+  const builtIns = getBuiltInBasemaps();
+  return builtIns.find(basemap => basemap.id === preference.basemapId) || builtIns[0] || null;
+}
+
+/**
+ * Check a user-defined basemap, returning an error message or null
+ */
+export function validateBasemap(basemap: BasemapDefinition): string | null {
+  let url: URL;
+  try {
+    // Placeholders are not valid URL characters in every position
+    url = new URL(basemap.url.replace(/[{}]/g, ''));
+  } catch {
+    return 'Enter a full URL starting with http:// or https://';
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Only http and https tile URLs are supported';
+  }
+
+  switch (basemap.kind) {
+    case 'xyz':
+      if (!/\{z\}/.test(basemap.url) || !/\{x\}/.test(basemap.url) || !/\{-?y\}/.test(basemap.url)) {
+        return 'XYZ URLs need {z}, {x} and {y} placeholders';
+      }
+      return null;
+
+    case 'wms':
+      if (!basemap.layers?.trim()) {
+        return 'Enter at least one WMS layer name';
+      }
+      return null;
+
+    case 'wmts':
+      if (!isRestfulWMTS(basemap.url) && !basemap.layers?.trim()) {
+        return 'Enter the WMTS layer identifier, or use a RESTful URL with {TileMatrix}, {TileRow} and {TileCol}';
+      }
+      return null;
+  }
+}
+
+const isRestfulWMTS = (url: string): boolean => /\{TileMatrix\}/.test(url);
+
+/**
+ * Turn a WMTS layer into an XYZ template leaflet can load
+ * Only Web Mercator tile matrix sets (e.g. GoogleMapsCompatible) line up with leaflet's grid
+ */
+export function getWMTSTemplate(basemap: BasemapDefinition): string {
+  const tileMatrixSet = basemap.tileMatrixSet || 'GoogleMapsCompatible';
+
+  if (isRestfulWMTS(basemap.url)) {
+    return basemap.url
+      .replace(/\{Layer\}/g, basemap.layers || '')
+      .replace(/\{TileMatrixSet\}/g, tileMatrixSet)
+      .replace(/\{TileMatrix\}/g, '{z}')
+      .replace(/\{TileRow\}/g, '{y}')
+      .replace(/\{TileCol\}/g, '{x}')
+      .replace(/\{Style\}/g, 'default');
+  }
+
+  // KVP endpoint: leaflet fills {z}/{x}/{y}, so keep them out of URLSearchParams encoding
+  const params = [
+    'SERVICE=WMTS',
+    'REQUEST=GetTile',
+    'VERSION=1.0.0',
+    `LAYER=${encodeURIComponent(basemap.layers || '')}`,
+    'STYLE=default',
+    `TILEMATRIXSET=${encodeURIComponent(tileMatrixSet)}`,
+    `FORMAT=${encodeURIComponent(basemap.format || 'image/png')}`,
+    'TILEMATRIX={z}',
+    'TILEROW={y}',
+    'TILECOL={x}',
+  ].join('&');
+
+  return `${basemap.url}${basemap.url.includes('?') ? '&' : '?'}${params}`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Download helpers for exporting charts as SVG, PNG or CSV
+ */
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
+/**
+ * Standalone SVG markup, sized by its width/height attributes rather than page CSS
+ */
+export function serializeSvg(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.removeAttribute('class');
+  clone.removeAttribute('style');
+  return new XMLSerializer().serializeToString(clone);
+}
+
+export function exportSvg(svg: SVGSVGElement, filename: string): void {
+  downloadBlob(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }), filename);
+}
+
+/**
+ * Rasterise an SVG chart to PNG, at `scale` times its nominal size
+ */
+export function exportPng(svg: SVGSVGElement, filename: string, scale: number = 2): Promise<void> {
+  const width = Number(svg.getAttribute('width')) || svg.clientWidth;
+  const height = Number(svg.getAttribute('height')) || svg.clientHeight;
+  const url = window.URL.createObjectURL(
+    new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' })
+  );
+
+  return new Promise<void>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        window.URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      window.URL.revokeObjectURL(url);
+
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('PNG export failed'));
+          return;
+        }
+        downloadBlob(blob, filename);
+        resolve();
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      window.URL.revokeObjectURL(url);
+      reject(new Error('Chart could not be rendered'));
+    };
+    image.src = url;
+  });
+}
+
+export function exportCsv(csv: string, filename: string): void {
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), filename);
+}
@@ -0,0 +1,81 @@
+import { ResultLegend } from '@/types/analysis';
+
+/**
+ * Colour ramps and value-to-colour scales for result layers
+ */
+
+// ColorBrewer RdYlGn, the usual NDVI ramp
+export const NDVI_COLORS = [
+  '#a50026', '#d73027', '#f46d43', '#fdae61', '#fee08b',
+  '#d9ef8b', '#a6d96a', '#66bd63', '#1a9850', '#006837',
+];
+
+export const DEFAULT_NDVI_LEGEND: ResultLegend = {
+  title: 'NDVI',
+  type: 'continuous',
+  colors: NDVI_COLORS,
+  min: -1,
+  max: 1,
+};
+
+// ColorBrewer BrBG: browning (loss) to greening (gain), neutral in the middle
+export const DIVERGING_COLORS = [
+  '#8c510a', '#bf812d', '#dfc27d', '#f6e8c3', '#f5f5f5',
+  '#c7eae5', '#80cdc1', '#35978f', '#01665e',
+];
+
+export const DEFAULT_DIFFERENCE_LEGEND: ResultLegend = {
+  title: 'NDVI change',
+  type: 'continuous',
+  colors: DIVERGING_COLORS,
+  min: -0.5,
+  max: 0.5,
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const int = parseInt(full, 16);
+  return [(int >> 16) & 255, (int >> 8) & 255, int & 255];
+};
+
+/**
+ * Colour at position t (0-1) along a ramp, linearly interpolated in RGB
+ */
+export function interpolateColors(colors: string[], t: number): string {
+  if (colors.length === 0) return 'transparent';
+  if (colors.length === 1) return colors[0];
+
+  const clamped = Math.min(1, Math.max(0, t));
+  const scaled = clamped * (colors.length - 1);
+  const index = Math.min(colors.length - 2, Math.floor(scaled));
+  const local = scaled - index;
+
+  const [r1, g1, b1] = hexToRgb(colors[index]);
+  const [r2, g2, b2] = hexToRgb(colors[index + 1]);
+
+  return `rgb(${Math.round(r1 + (r2 - r1) * local)}, ${Math.round(g1 + (g2 - g1) * local)}, ${Math.round(b1 + (b2 - b1) * local)})`;
+}
+
+/**
+ * Map raster values to colours following a legend
+ * Categorical legends use the value as the class index
+ */
+export function createColorScale(legend: ResultLegend): (value: number) => string | null {
+  if (legend.type === 'categorical') {
+    return (value: number) => legend.colors[Math.round(value)] || null;
+  }
+
+  const min = legend.min ?? 0;
+  const max = legend.max ?? 1;
+  const range = max - min || 1;
+
+  return (value: number) => interpolateColors(legend.colors, (value - min) / range);
+}
+
+/**
+ * CSS gradient for drawing a continuous legend bar
+ */
+export function getLegendGradient(colors: string[], direction: string = 'to right'): string {
+  return `linear-gradient(${direction}, ${colors.join(', ')})`;
+}
@@ -0,0 +1,319 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { AuthUser } from '@/types/auth';
+import { ServerCredential, ServiceAccountKey } from '@/types/credentials';
+import { authUserSchema } from './api-schemas';
+import { checkCredentialsJson, summarizeCredentials } from './credentials';
+import { parse } from './schema';
+
+/**
+ * Server-side store of service-account keys and the backend proxy that uses them
+ *
+ * Enabled with NEXT_PUBLIC_CREDENTIAL_PROXY=true, which points the client at
+ * /api/backend. Browsers reference a registered key by `credential_id`;
+ * the proxy swaps in the key file before forwarding to BACKEND_API_URL,
+ * so keys never reach an analyst's browser. Each key belongs to one account
+ * or one organization (email domain), and callers are identified by asking
+ * the backend's /auth/me about their bearer token. Keys are kept as JSON
+ * files in CREDENTIALS_DIR, which must be private to the server.
+ *
+ * Server only: imports Node modules.
+ */
+
+export const CREDENTIAL_PROXY_ENABLED = process.env.NEXT_PUBLIC_CREDENTIAL_PROXY === 'true';
+
+const BACKEND_API_URL = (process.env.BACKEND_API_URL || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000')
+  .replace(/\/+$/, '');
+const CREDENTIALS_DIR = path.resolve(process.env.CREDENTIALS_DIR || '.credentials');
+// Bearer token required to register or remove keys; without it both are disabled
+const ADMIN_TOKEN = process.env.CREDENTIALS_ADMIN_TOKEN || '';
+
+const CREDENTIAL_ID_PATTERN = /^cred_[a-f0-9]{16}$/;
+const AUTH_CHECK_TIMEOUT = 10000;
+// Analysis submissions, whose multipart body carries the credentials
+const SUBMISSION_PATHS = ['analyze', 'jobs'];
+// Not forwarded in either direction: fetch sets its own, and app cookies stay with the app
+const HOP_BY_HOP_HEADERS = [
+  'connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'host',
+  'content-length', 'content-encoding', 'cookie', 'set-cookie',
+];
+
+interface StoredCredential extends ServerCredential {
+  key: ServiceAccountKey;
+}
+
+export class CredentialProxyError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CredentialProxyError';
+    this.status = status;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// ===== CREDENTIAL STORE =====
+
+const credentialPath = (id: string): string => path.join(CREDENTIALS_DIR, `${id}.json`);
+
+const toPublic = ({ key, ...credential }: StoredCredential): ServerCredential => credential;
+
+const readStored = async (id: string): Promise<StoredCredential | null> => {
+  if (!CREDENTIAL_ID_PATTERN.test(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(credentialPath(id), 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+export async function listServerCredentials(): Promise<ServerCredential[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(CREDENTIALS_DIR);
+  } catch {
+    return [];
+  }
+
+  const stored = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readStored(file.replace(/\.json$/, '')))
+  );
+
+  return stored
+    .filter((credential): credential is StoredCredential => credential !== null)
+    .map(toPublic)
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export interface CredentialScope {
+  owner_id?: string;
+  organization?: string;
+}
+
+/**
+ * Store a key after checking it; returns its public description
+ * The scope names the account or organization allowed to use it.
+ */
+export async function registerServerCredential(
+  keyJson: string,
+  scope: CredentialScope,
+  label?: string
+): Promise<ServerCredential> {
+  const ownerId = scope.owner_id?.trim();
+  const organization = scope.organization?.trim().toLowerCase().replace(/^@/, '');
+  if (!ownerId && !organization) {
+    throw new CredentialProxyError('owner_id or organization is required.', 422);
+  }
+
+  const check = checkCredentialsJson(keyJson);
+  if (!check.valid) {
+    throw new CredentialProxyError(
+      [check.error, ...check.issues].join(' '),
+      422
+    );
+  }
+
+  const credential: StoredCredential = {
+    ...summarizeCredentials(check.key),
+    id: `cred_${randomBytes(8).toString('hex')}`,
+    label: label?.trim() || check.key.project_id,
+    created_at: new Date().toISOString(),
+    ...(ownerId ? { owner_id: ownerId } : {}),
+    ...(organization ? { organization } : {}),
+    key: check.key,
+  };
+
+  await fs.mkdir(CREDENTIALS_DIR, { recursive: true, mode: 0o700 });
+  await fs.writeFile(credentialPath(credential.id), JSON.stringify(credential), { mode: 0o600 });
+
+  return toPublic(credential);
+}
+
+export async function removeServerCredential(id: string): Promise<boolean> {
+  if (!CREDENTIAL_ID_PATTERN.test(id)) {
+    return false;
+  }
+  try {
+    await fs.unlink(credentialPath(id));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the request carries the admin token
+ */
+export function isAdminRequest(request: Request): boolean {
+  const header = request.headers.get('Authorization') || '';
+  const token = header.replace(/^Bearer\s+/i, '');
+  if (!ADMIN_TOKEN || !token) {
+    return false;
+  }
+
+  const expected = Buffer.from(ADMIN_TOKEN);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * The account behind the request's bearer token, as the backend knows it
+ * Null without a token, or when the backend rejects it or cannot be reached.
+ */
+export async function authenticateCaller(request: Request): Promise<AuthUser | null> {
+  const authorization = request.headers.get('Authorization') || '';
+  if (!/^Bearer\s+\S/i.test(authorization)) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/auth/me`, {
+      headers: { 'Authorization': authorization, 'Accept': 'application/json' },
+      signal: AbortSignal.timeout(AUTH_CHECK_TIMEOUT),
+    });
+    if (!response.ok) {
+      return null;
+    }
+    return parse(authUserSchema, await response.json(), 'auth/me');
+  } catch (error) {
+    console.warn('Could not verify the caller with the backend:', error);
+    return null;
+  }
+}
+
+// Accounts belong to the organization of their email domain
+const organizationOf = (user: AuthUser): string =>
+  (user.email.split('@')[1] || '').toLowerCase();
+
+/**
+ * Whether `user` may run analyses with a key; unscoped keys serve no one
+ */
+export function canUseCredential(credential: ServerCredential, user: AuthUser): boolean {
+  if (credential.owner_id) {
+    return credential.owner_id === user.id;
+  }
+  return Boolean(credential.organization) && credential.organization === organizationOf(user);
+}
+
+// FastAPI-style error body, so the client's error handling applies unchanged
+export const errorResponse = (detail: string, status: number): Response =>
+  new Response(JSON.stringify({ detail }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// ===== BACKEND PROXY =====
+
+const forwardHeaders = (headers: Headers): Headers => {
+  const result = new Headers();
+  headers.forEach((value, name) => {
+    if (HOP_BY_HOP_HEADERS.indexOf(name.toLowerCase()) === -1) {
+      result.set(name, value);
+    }
+  });
+  return result;
+};
+
+/**
+ * Replace the `credential_id` of a submission with the stored key file
+ * Raw key uploads are refused: behind the proxy, keys only come from the server.
+ */
+const attachCredentials = async (form: FormData, caller: AuthUser): Promise<FormData> => {
+  if (form.get('credentials_file')) {
+    throw new CredentialProxyError('Key uploads are disabled; choose a service account registered on the server.', 400);
+  }
+
+  const id = form.get('credential_id');
+  if (typeof id !== 'string' || !id) {
+    throw new CredentialProxyError('credential_id is required.', 422);
+  }
+
+  const credential = await readStored(id);
+  if (!credential) {
+    throw new CredentialProxyError(`Unknown credential ${id}.`, 404);
+  }
+  if (!canUseCredential(credential, caller)) {
+    throw new CredentialProxyError(`Credential ${id} is not available to this account.`, 403);
+  }
+
+  const forwarded = new FormData();
+  form.forEach((value, name) => {
+    if (name !== 'credential_id') {
+      forwarded.append(name, value);
+    }
+  });
+  forwarded.append(
+    'credentials_file',
+    new Blob([JSON.stringify(credential.key)], { type: 'application/json' }),
+    `${credential.id}.json`
+  );
+  return forwarded;
+};
+
+/**
+ * Forward a request for `segments` (the path after /api/backend) to the backend
+ * Responses, including event streams, are streamed back unchanged.
+ */
+export async function proxyBackendRequest(request: Request, segments: string[]): Promise<Response> {
+  const url = new URL(request.url);
+  const target = `${BACKEND_API_URL}/${segments.map(encodeURIComponent).join('/')}${url.search}`;
+  const headers = forwardHeaders(request.headers);
+
+  let body: BodyInit | undefined;
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    const isSubmission = request.method === 'POST' && segments.length === 1 && SUBMISSION_PATHS.indexOf(segments[0]) !== -1;
+    if (isSubmission) {
+      // Checked before the body is read: anonymous callers never reach a key
+      const caller = await authenticateCaller(request);
+      if (!caller) {
+        return errorResponse('Sign in to run analyses with a registered service account.', 401);
+      }
+
+      let form: FormData;
+      try {
+        form = await request.formData();
+      } catch {
+        return errorResponse('Expected multipart form data', 400);
+      }
+
+      try {
+        body = await attachCredentials(form, caller);
+      } catch (error) {
+        if (error instanceof CredentialProxyError) {
+          return errorResponse(error.message, error.status);
+        }
+        throw error;
+      }
+      // fetch writes a new multipart boundary
+      headers.delete('content-type');
+    } else {
+      body = await request.arrayBuffer();
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(target, {
+      method: request.method,
+      headers,
+      body,
+      redirect: 'manual',
+      signal: request.signal,
+    });
+  } catch (error) {
+    console.error('Backend proxy request failed:', error);
+    return errorResponse('The analysis backend is unreachable.', 502);
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: forwardHeaders(response.headers),
+  });
+}
@@ -0,0 +1,176 @@
+import { EncryptedPayload, SavedCredential, SelectedCredentials, ServiceAccountKey } from '@/types/credentials';
+import { checkCredentialsJson, createCredentialsFile, summarizeCredentials } from './credentials';
+import storage from './storage';
+
+/**
+ * Passphrase-encrypted service-account keys, backed by localStorage
+ *
+ * Keys are encrypted with AES-GCM under a key derived from the passphrase
+ * with PBKDF2; the passphrase itself is never stored. Only the project,
+ * client email and label stay readable, so the list can be shown before
+ * unlocking.
+ */
+
+const VAULT_STORAGE_KEY = 'geoanalytics_credentials';
+const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export class CredentialVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialVaultError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const getSubtleCrypto = (): SubtleCrypto => {
+  if (typeof window === 'undefined' || !window.crypto?.subtle) {
+    // Web Crypto is only available in secure contexts (HTTPS or localhost)
+    throw new CredentialVaultError('Saving credentials needs a secure (HTTPS) connection.');
+  }
+  return window.crypto.subtle;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const subtle = getSubtleCrypto();
+  const material = await subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt.slice().buffer, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (plaintext: string, passphrase: string): Promise<EncryptedPayload> => {
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await getSubtleCrypto().encrypt(
+    { name: 'AES-GCM', iv: iv.slice().buffer },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    iterations: PBKDF2_ITERATIONS,
+  };
+};
+
+const decrypt = async (payload: EncryptedPayload, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(payload.salt), payload.iterations);
+  try {
+    const plaintext = await getSubtleCrypto().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv).slice().buffer },
+      key,
+      fromBase64(payload.ciphertext).slice().buffer
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM cannot tell a wrong passphrase from tampered data
+    throw new CredentialVaultError('Wrong passphrase.');
+  }
+};
+
+export const credentialVault = {
+  list: (): SavedCredential[] => {
+    return storage.get<SavedCredential[]>(VAULT_STORAGE_KEY, []);
+  },
+
+  get: (id: string): SavedCredential | undefined => {
+    return credentialVault.list().find(credential => credential.id === id);
+  },
+
+  /**
+   * Encrypt and store a key file; only call this after the user opted in
+   */
+  save: async (key: ServiceAccountKey, passphrase: string, label: string, fileName: string): Promise<SavedCredential> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new CredentialVaultError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    }
+
+    const summary = summarizeCredentials(key);
+    const entry: SavedCredential = {
+      ...summary,
+      id: `cred_${Math.random().toString(36).substr(2, 9)}_${Date.now()}`,
+      label: label.trim() || summary.project_id,
+      file_name: fileName,
+      created_at: new Date().toISOString(),
+      payload: await encrypt(JSON.stringify(key), passphrase),
+    };
+
+    // Saving the same key again replaces the older copy
+    const others = credentialVault.list().filter(credential =>
+      !(credential.client_email === summary.client_email && credential.private_key_id === summary.private_key_id)
+    );
+    storage.set(VAULT_STORAGE_KEY, [entry, ...others]);
+
+    return entry;
+  },
+
+  /**
+   * Decrypt a saved key into a file ready for submission
+   */
+  unlock: async (id: string, passphrase: string): Promise<SelectedCredentials> => {
+    const entry = credentialVault.get(id);
+    if (!entry) {
+      throw new CredentialVaultError('These saved credentials no longer exist.');
+    }
+
+    const check = checkCredentialsJson(await decrypt(entry.payload, passphrase));
+    if (!check.valid) {
+      throw new CredentialVaultError('The saved credentials are damaged; remove them and upload the key file again.');
+    }
+
+    credentialVault.update(id, { last_used_at: new Date().toISOString() });
+    return {
+      credentials: createCredentialsFile(check.key, entry.file_name),
+      label: entry.label,
+      summary: check.summary,
+      saved_id: id,
+    };
+  },
+
+  update: (id: string, patch: Partial<Pick<SavedCredential, 'label' | 'last_used_at'>>): void => {
+    storage.set(VAULT_STORAGE_KEY, credentialVault.list().map(credential =>
+      credential.id === id ? { ...credential, ...patch } : credential
+    ));
+  },
+
+  remove: (id: string): void => {
+    storage.set(VAULT_STORAGE_KEY, credentialVault.list().filter(credential => credential.id !== id));
+  },
+
+  clear: (): void => {
+    storage.remove(VAULT_STORAGE_KEY);
+  }
+};
+
+export default credentialVault;
@@ -0,0 +1,135 @@
+import { CredentialsCheck, CredentialSummary, ServiceAccountKey } from '@/types/credentials';
+
+/**
+ * Structural checks on Google Cloud service-account key files
+ */
+
+const PRIVATE_KEY_PATTERN = /-----BEGIN (RSA )?PRIVATE KEY-----[\s\S]+-----END (RSA )?PRIVATE KEY-----/;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+export function summarizeCredentials(key: ServiceAccountKey): CredentialSummary {
+  return {
+    project_id: key.project_id,
+    client_email: key.client_email,
+    private_key_id: key.private_key_id,
+  };
+}
+
+/**
+ * Check that a key file's text is a usable service-account key
+ * Every problem is reported, so the user sees them all at once.
+ */
+export function checkCredentialsJson(text: string): CredentialsCheck {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { valid: false, error: 'The file is not valid JSON.', issues: [] };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { valid: false, error: 'The file does not contain a JSON object.', issues: [] };
+  }
+
+  const key = parsed as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (key.type !== 'service_account') {
+    issues.push(key.type === undefined
+      ? 'type: missing (expected "service_account")'
+      : `type: expected "service_account", got "${String(key.type)}"`);
+  }
+  if (!isNonEmptyString(key.project_id)) {
+    issues.push('project_id: missing');
+  }
+  if (!isNonEmptyString(key.client_email)) {
+    issues.push('client_email: missing');
+  } else if (!EMAIL_PATTERN.test(key.client_email)) {
+    issues.push('client_email: not an email address');
+  }
+  if (!isNonEmptyString(key.private_key)) {
+    issues.push('private_key: missing');
+  } else if (!PRIVATE_KEY_PATTERN.test(key.private_key)) {
+    issues.push('private_key: not a PEM private key');
+  }
+
+  if (issues.length > 0) {
+    // OAuth client secrets are the most common wrong download
+    const hint = key.installed || key.web
+      ? ' This looks like an OAuth client file; download a service-account key instead.'
+      : '';
+    return {
+      valid: false,
+      error: `Not a service-account key file.${hint}`,
+      issues,
+    };
+  }
+
+  const serviceAccount = key as ServiceAccountKey;
+  return { valid: true, key: serviceAccount, summary: summarizeCredentials(serviceAccount) };
+}
+
+const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+/**
+ * Validate credentials file before upload
+ */
+export function validateCredentialsFile(file: File): { valid: boolean; error?: string } {
+  // Check file type
+  if (file.type !== 'application/json' && !file.name.endsWith('.json')) {
+    return {
+      valid: false,
+      error: 'File must be a JSON file'
+    };
+  }
+
+  // Check file size (should be reasonable for a credentials file)
+  const maxSize = 10 * 1024 * 1024; // 10MB
+  if (file.size > maxSize) {
+    return {
+      valid: false,
+      error: 'File is too large. Credentials files should be under 10MB.'
+    };
+  }
+
+  if (file.size < 100) {
+    return {
+      valid: false,
+      error: 'File is too small to be a valid credentials file.'
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate an uploaded key file: extension and size first, then its contents
+ */
+export async function checkCredentialsFile(file: File): Promise<CredentialsCheck> {
+  const basic = validateCredentialsFile(file);
+  if (!basic.valid) {
+    return { valid: false, error: basic.error || 'Invalid credentials file.', issues: [] };
+  }
+
+  try {
+    return checkCredentialsJson(await readFileText(file));
+  } catch {
+    return { valid: false, error: 'The file could not be read.', issues: [] };
+  }
+}
+
+/**
+ * Rebuild an uploadable key file, e.g. after unlocking it from the vault
+ */
+export function createCredentialsFile(key: ServiceAccountKey, fileName: string): File {
+  return new File([JSON.stringify(key)], fileName, { type: 'application/json' });
+}
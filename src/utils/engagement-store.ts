@@ -0,0 +1,57 @@
+import { EngagementStats } from '@/types/analysis';
+import { authStore } from './auth-store';
+
+/**
+ * Latest known likes, views and shares per analysis, shared by every card and
+ * modal showing it
+ * Kept in memory only: the backend holds the counts, this carries optimistic
+ * updates and fresh responses between components. `liked` belongs to the
+ * current user, so everything is dropped when a different user signs in or out.
+ */
+
+type EngagementListener = (sessionId: string | null) => void;
+
+const entries = new Map<string, EngagementStats>();
+const listeners = new Set<EngagementListener>();
+
+const notify = (sessionId: string | null) => {
+  listeners.forEach(listener => listener(sessionId));
+};
+
+export const engagementStore = {
+  get: (sessionId: string): EngagementStats | undefined => {
+    return entries.get(sessionId);
+  },
+
+  set: (stats: EngagementStats): void => {
+    entries.set(stats.session_id, stats);
+    notify(stats.session_id);
+  },
+
+  clear: (): void => {
+    entries.clear();
+    notify(null);
+  },
+
+  // Listeners get the changed session id, or null when everything changed
+  subscribe: (listener: EngagementListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+if (typeof window !== 'undefined') {
+  let currentUserId = authStore.get()?.user.id;
+  // Token refreshes keep the same user and their likes
+  authStore.subscribe(session => {
+    const userId = session?.user.id;
+    if (userId !== currentUserId) {
+      currentUserId = userId;
+      engagementStore.clear();
+    }
+  });
+}
+
+export default engagementStore;
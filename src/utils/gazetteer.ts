@@ -0,0 +1,33 @@
+/**
+ * Static gazetteer of common analysis regions
+ * Used by the local geocoder when no geocoding service is reachable
+ */
+
+export interface GazetteerEntry {
+  id: string;
+  name: string;
+  region: string;
+  type: string;
+  aliases?: string[];
+  // [south, west, north, east]
+  bbox: [number, number, number, number];
+}
+
+export const GAZETTEER: GazetteerEntry[] = [
+  { id: 'lake-tahoe', name: 'Lake Tahoe', region: 'California / Nevada, United States', type: 'lake', aliases: ['tahoe'], bbox: [38.93, -120.15, 39.25, -119.9] },
+  { id: 'central-valley', name: 'Central Valley', region: 'California, United States', type: 'valley', aliases: ['san joaquin valley', 'sacramento valley'], bbox: [34.9, -122.6, 40.7, -118.6] },
+  { id: 'los-angeles', name: 'Los Angeles', region: 'California, United States', type: 'city', aliases: ['la'], bbox: [33.7, -118.67, 34.34, -118.16] },
+  { id: 'new-york', name: 'New York City', region: 'New York, United States', type: 'city', aliases: ['new york', 'nyc'], bbox: [40.48, -74.26, 40.92, -73.7] },
+  { id: 'zurich', name: 'Zurich', region: 'Canton of Zurich, Switzerland', type: 'city', aliases: ['zürich', 'zuerich'], bbox: [47.32, 8.45, 47.43, 8.63] },
+  { id: 'geneva', name: 'Geneva', region: 'Canton of Geneva, Switzerland', type: 'city', aliases: ['genève', 'geneve', 'genf'], bbox: [46.18, 6.11, 46.23, 6.18] },
+  { id: 'lake-geneva', name: 'Lake Geneva', region: 'Switzerland / France', type: 'lake', aliases: ['lac léman', 'lac leman', 'genfersee'], bbox: [46.2, 6.15, 46.54, 6.94] },
+  { id: 'bern', name: 'Bern', region: 'Canton of Bern, Switzerland', type: 'city', aliases: ['berne'], bbox: [46.92, 7.29, 46.99, 7.5] },
+  { id: 'basel', name: 'Basel', region: 'Canton of Basel-Stadt, Switzerland', type: 'city', aliases: ['bâle', 'bale'], bbox: [47.52, 7.55, 47.59, 7.63] },
+  { id: 'london', name: 'London', region: 'England, United Kingdom', type: 'city', aliases: ['greater london'], bbox: [51.28, -0.51, 51.69, 0.33] },
+  { id: 'paris', name: 'Paris', region: 'Île-de-France, France', type: 'city', bbox: [48.815, 2.224, 48.902, 2.47] },
+  { id: 'nile-delta', name: 'Nile Delta', region: 'Egypt', type: 'delta', bbox: [30.0, 29.8, 31.6, 32.3] },
+  { id: 'nairobi', name: 'Nairobi', region: 'Kenya', type: 'city', bbox: [-1.44, 36.65, -1.16, 37.1] },
+  { id: 'mekong-delta', name: 'Mekong Delta', region: 'Vietnam', type: 'delta', bbox: [8.55, 104.4, 11.0, 106.8] },
+  { id: 'rondonia', name: 'Rondônia', region: 'Brazil', type: 'state', aliases: ['rondonia'], bbox: [-13.7, -66.8, -7.97, -59.77] },
+  { id: 'aral-sea', name: 'Aral Sea', region: 'Kazakhstan / Uzbekistan', type: 'lake', bbox: [43.5, 58.0, 46.8, 61.8] },
+];
@@ -0,0 +1,196 @@
+import type { Geometry } from 'geojson';
+import { GeocodeOptions, GeocodeResult, Geocoder } from '@/types/map';
+import { extractAOIGeometry } from './geometry';
+import { GAZETTEER, GazetteerEntry } from './gazetteer';
+
+/**
+ * Place-name geocoders for the map search box
+ *
+ * NEXT_PUBLIC_GEOCODER_URL points at any Nominatim-compatible service
+ * (defaults to the public OpenStreetMap instance). Set NEXT_PUBLIC_GEOCODER=gazetteer,
+ * or NEXT_PUBLIC_OFFLINE_MAPS=true, to use only the built-in gazetteer.
+ */
+
+const DEFAULT_LIMIT = 5;
+const GEOCODER_TIMEOUT = 10000;
+
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// ===== NOMINATIM =====
+
+interface NominatimPlace {
+  place_id: number;
+  display_name: string;
+  name?: string;
+  lat: string;
+  lon: string;
+  boundingbox: [string, string, string, string]; // [south, north, west, east]
+  geojson?: Geometry;
+  type?: string;
+  addresstype?: string;
+}
+
+const nominatimPlaceToResult = (place: NominatimPlace): GeocodeResult => {
+  const [south, north, west, east] = place.boundingbox.map(Number);
+
+  return {
+    id: `nominatim_${place.place_id}`,
+    name: place.name || place.display_name.split(',')[0],
+    display_name: place.display_name,
+    center: { lat: Number(place.lat), lng: Number(place.lon) },
+    bounds: {
+      southwest_lat: south,
+      southwest_lon: west,
+      northeast_lat: north,
+      northeast_lon: east,
+    },
+    // Points and lines (e.g. a street) only get a bounding box
+    geometry: place.geojson ? extractAOIGeometry(place.geojson) || undefined : undefined,
+    type: place.addresstype || place.type,
+  };
+};
+
+/**
+ * Geocoder for the Nominatim search API or a compatible service
+ * Results include simplified boundaries when the place has one
+ */
+export function createNominatimGeocoder(baseUrl: string): Geocoder {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/search`;
+
+  return {
+    name: 'Nominatim',
+    search: async (query: string, options: GeocodeOptions = {}) => {
+      const params = new URLSearchParams({
+        q: query,
+        format: 'jsonv2',
+        limit: String(options.limit || DEFAULT_LIMIT),
+        polygon_geojson: '1',
+        polygon_threshold: '0.001', // Simplify boundaries to keep responses small
+      });
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), GEOCODER_TIMEOUT);
+      const abort = () => controller.abort();
+      options.signal?.addEventListener('abort', abort);
+
+      try {
+        const response = await fetch(`${endpoint}?${params}`, {
+          signal: controller.signal,
+          headers: { 'Accept': 'application/json' },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Geocoding failed: HTTP ${response.status}`);
+        }
+
+        const places: NominatimPlace[] = await response.json();
+        return places.map(nominatimPlaceToResult);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError' && !options.signal?.aborted) {
+          throw new Error('Geocoding timeout - the search service did not respond.');
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', abort);
+      }
+    },
+  };
+}
+
+// ===== GAZETTEER =====
+
+const gazetteerEntryToResult = (entry: GazetteerEntry): GeocodeResult => {
+  const [south, west, north, east] = entry.bbox;
+
+  return {
+    id: `gazetteer_${entry.id}`,
+    name: entry.name,
+    display_name: `${entry.name}, ${entry.region}`,
+    center: { lat: (south + north) / 2, lng: (west + east) / 2 },
+    bounds: {
+      southwest_lat: south,
+      southwest_lon: west,
+      northeast_lat: north,
+      northeast_lon: east,
+    },
+    type: entry.type,
+  };
+};
+
+// Lower is better: exact name, exact alias, prefix, then substring
+const matchRank = (entry: GazetteerEntry, query: string): number | null => {
+  const names = [entry.name, ...(entry.aliases || [])].map(normalize);
+
+  if (names[0] === query) return 0;
+  if (names.some(name => name === query)) return 1;
+  if (names.some(name => name.startsWith(query))) return 2;
+  if (names.some(name => name.includes(query))) return 3;
+  return null;
+};
+
+/**
+ * Offline geocoder over a static list of places (bounding boxes only)
+ * Deterministic, so it also serves as a stand-in during tests
+ */
+export function createGazetteerGeocoder(entries: GazetteerEntry[] = GAZETTEER): Geocoder {
+  return {
+    name: 'Local gazetteer',
+    search: async (query: string, options: GeocodeOptions = {}) => {
+      const normalizedQuery = normalize(query);
+      if (!normalizedQuery) return [];
+
+      return entries
+        .map(entry => ({ entry, rank: matchRank(entry, normalizedQuery) }))
+        .filter((match): match is { entry: GazetteerEntry; rank: number } => match.rank !== null)
+        .sort((a, b) => a.rank - b.rank)
+        .slice(0, options.limit || DEFAULT_LIMIT)
+        .map(match => gazetteerEntryToResult(match.entry));
+    },
+  };
+}
+
+// ===== FALLBACK =====
+
+/**
+ * Use the primary geocoder and fall back when it fails or finds nothing
+ */
+export function createFallbackGeocoder(primary: Geocoder, fallback: Geocoder): Geocoder {
+  return {
+    name: primary.name,
+    search: async (query: string, options: GeocodeOptions = {}) => {
+      try {
+        const results = await primary.search(query, options);
+        if (results.length > 0) return results;
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn(`${primary.name} geocoding failed, using ${fallback.name}:`, error);
+      }
+
+      return fallback.search(query, options);
+    },
+  };
+}
+
+let defaultGeocoder: Geocoder | null = null;
+
+/**
+ * Geocoder configured for this deployment
+ */
+export function getDefaultGeocoder(): Geocoder {
+  if (!defaultGeocoder) {
+    const gazetteer = createGazetteerGeocoder();
+    const offline = process.env.NEXT_PUBLIC_GEOCODER === 'gazetteer' ||
+      process.env.NEXT_PUBLIC_OFFLINE_MAPS === 'true';
+
+    defaultGeocoder = offline
+      ? gazetteer
+      : createFallbackGeocoder(
+          createNominatimGeocoder(process.env.NEXT_PUBLIC_GEOCODER_URL || 'https://nominatim.openstreetmap.org'),
+          gazetteer
+        );
+  }
+
+  return defaultGeocoder;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from './api-errors';
+import { boundsToPolygon, calculateGeometryAreaKm2, combineAreas, createGeometryArea } from './geometry';
+
+// Square area of `size` degrees with its south-west corner at (lon, lat)
+const square = (lon: number, lat: number, size = 1) => createGeometryArea(boundsToPolygon({
+  southwest_lat: lat,
+  southwest_lon: lon,
+  northeast_lat: lat + size,
+  northeast_lon: lon + size,
+}), 'rectangle');
+
+describe('combineAreas', () => {
+  it('returns null without areas', () => {
+    expect(combineAreas([])).toBeNull();
+  });
+
+  it('dissolves overlapping areas into one polygon', () => {
+    const combined = combineAreas([square(0, 0), square(0.5, 0)]);
+
+    expect(combined?.geometry.type).toBe('Polygon');
+    expect(combined?.coordinates).toEqual({ southwest_lat: 0, southwest_lon: 0, northeast_lat: 1, northeast_lon: 1.5 });
+    expect(calculateGeometryAreaKm2(combined!.geometry)).toBeCloseTo(calculateGeometryAreaKm2(square(0, 0, 1).geometry) * 1.5, 0);
+  });
+
+  it('keeps separate areas as the parts of a multipolygon', () => {
+    const combined = combineAreas([square(0, 0), square(5, 5)]);
+
+    expect(combined?.geometry.type).toBe('MultiPolygon');
+    expect(combined?.geometry.coordinates).toHaveLength(2);
+    expect(combined?.coordinates).toEqual({ southwest_lat: 0, southwest_lon: 0, northeast_lat: 6, northeast_lon: 6 });
+  });
+
+  it('merges a contained area into the one around it', () => {
+    const outer = square(0, 0, 4);
+    const combined = combineAreas([outer, square(1, 1)]);
+
+    expect(combined?.geometry.type).toBe('Polygon');
+    expect(calculateGeometryAreaKm2(combined!.geometry)).toBeCloseTo(outer.area_km2!, 3);
+  });
+
+  it('reports an invalid area when an outline cannot be combined', () => {
+    const broken = { ...square(2, 2), geometry: { type: 'Polygon' as const, coordinates: [[]] } };
+
+    let error: unknown;
+    try {
+      combineAreas([square(0, 0), broken]);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ source: 'request', issues: [{ path: 'areas' }] });
+  });
+});
@@ -0,0 +1,282 @@
+import type { Feature, FeatureCollection, GeoJSON, Geometry, Polygon, Position } from 'geojson';
+import polygonClipping, { MultiPolygon as ClipMultiPolygon } from 'polygon-clipping';
+import { AOIGeometry, Coordinates, GeometryAreaOfInterest } from '@/types/analysis';
+import { ValidationError } from './api-errors';
+
+/**
+ * Geometry helpers for areas of interest (WGS84 lon/lat, GeoJSON order)
+ */
+
+const EARTH_RADIUS_M = 6378137; // WGS84 equatorial radius
+const MEAN_EARTH_RADIUS_M = 6371008.8; // IUGG mean radius, used for distances
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+/**
+ * All polygon rings of a geometry as [outer, ...holes] lists
+ */
+function getPolygons(geometry: AOIGeometry): Position[][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/**
+ * Spherical ring area in m² (Chamberlain & Duquette, as used by geojson-area)
+ */
+function ringAreaM2(ring: Position[]): number {
+  const length = ring.length;
+  if (length < 3) return 0;
+
+  let total = 0;
+  for (let i = 0; i < length; i++) {
+    const lower = ring[i];
+    const middle = ring[(i + 1) % length];
+    const upper = ring[(i + 2) % length];
+    total += (toRadians(upper[0]) - toRadians(lower[0])) * Math.sin(toRadians(middle[1]));
+  }
+
+  return Math.abs(total * EARTH_RADIUS_M * EARTH_RADIUS_M / 2);
+}
+
+/**
+ * Area of a polygon or multipolygon in km², holes subtracted
+ */
+export function calculateGeometryAreaKm2(geometry: AOIGeometry): number {
+  const areaM2 = getPolygons(geometry).reduce((sum, rings) => {
+    const [outer, ...holes] = rings;
+    const holesArea = holes.reduce((holeSum, hole) => holeSum + ringAreaM2(hole), 0);
+    return sum + ringAreaM2(outer) - holesArea;
+  }, 0);
+
+  return areaM2 / 1e6;
+}
+
+/**
+ * Great-circle length of a ring in meters (haversine)
+ */
+function ringLengthM(ring: Position[]): number {
+  let total = 0;
+  for (let i = 1; i < ring.length; i++) {
+    const [lon1, lat1] = ring[i - 1];
+    const [lon2, lat2] = ring[i];
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+    total += 2 * MEAN_EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+  return total;
+}
+
+/**
+ * Perimeter of a polygon or multipolygon in km, hole boundaries included
+ */
+export function calculateGeometryPerimeterKm(geometry: AOIGeometry): number {
+  const lengthM = getPolygons(geometry).reduce(
+    (sum, rings) => rings.reduce((ringSum, ring) => ringSum + ringLengthM(ring), sum),
+    0
+  );
+
+  return lengthM / 1000;
+}
+
+/**
+ * Bounding box of a geometry in the frontend coordinate format
+ */
+export function getGeometryBounds(geometry: AOIGeometry): Coordinates {
+  let minLat = Infinity;
+  let minLon = Infinity;
+  let maxLat = -Infinity;
+  let maxLon = -Infinity;
+
+  getPolygons(geometry).forEach(rings => {
+    rings[0]?.forEach(([lon, lat]) => {
+      minLat = Math.min(minLat, lat);
+      minLon = Math.min(minLon, lon);
+      maxLat = Math.max(maxLat, lat);
+      maxLon = Math.max(maxLon, lon);
+    });
+  });
+
+  return {
+    southwest_lat: minLat,
+    southwest_lon: minLon,
+    northeast_lat: maxLat,
+    northeast_lon: maxLon,
+  };
+}
+
+/**
+ * Closed polygon outlining a bounding box
+ */
+export function boundsToPolygon(coordinates: Coordinates): Polygon {
+  const { southwest_lat: south, southwest_lon: west, northeast_lat: north, northeast_lon: east } = coordinates;
+
+  return {
+    type: 'Polygon',
+    coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]],
+  };
+}
+
+/**
+ * Approximate a circle with a closed polygon of geodesic destination points
+ */
+export function circleToPolygon(
+  center: { lat: number; lng: number },
+  radiusMeters: number,
+  steps: number = 64
+): Polygon {
+  const lat1 = toRadians(center.lat);
+  const lon1 = toRadians(center.lng);
+  const angularDistance = radiusMeters / EARTH_RADIUS_M;
+  const ring: Position[] = [];
+
+  for (let i = 0; i < steps; i++) {
+    const bearing = (2 * Math.PI * i) / steps;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) +
+      Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const lon2 = lon1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+      Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    ring.push([toDegrees(lon2), toDegrees(lat2)]);
+  }
+  ring.push(ring[0]);
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+/**
+ * Collect every polygon in any GeoJSON object into a single AOI geometry
+ * Returns null when the input holds no polygons (points and lines are ignored)
+ */
+export function extractAOIGeometry(geojson: GeoJSON): AOIGeometry | null {
+  const polygons: Position[][][] = [];
+
+  const collect = (geometry: Geometry | null) => {
+    if (!geometry) return;
+    switch (geometry.type) {
+      case 'Polygon':
+        polygons.push(geometry.coordinates);
+        break;
+      case 'MultiPolygon':
+        polygons.push(...geometry.coordinates);
+        break;
+      case 'GeometryCollection':
+        geometry.geometries.forEach(collect);
+        break;
+    }
+  };
+
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      geojson.features.forEach(feature => collect(feature.geometry));
+      break;
+    case 'Feature':
+      collect(geojson.geometry);
+      break;
+    default:
+      collect(geojson);
+  }
+
+  if (polygons.length === 0) return null;
+  if (polygons.length === 1) return { type: 'Polygon', coordinates: polygons[0] };
+  return { type: 'MultiPolygon', coordinates: polygons };
+}
+
+const generateAreaId = (): string => `aoi_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Build an area of interest from a geometry
+ * Bounding box, center, area and perimeter are derived from the outline
+ */
+export function createGeometryArea(
+  geometry: AOIGeometry,
+  source: GeometryAreaOfInterest['source'],
+  name?: string,
+  id: string = generateAreaId()
+): GeometryAreaOfInterest {
+  const coordinates = getGeometryBounds(geometry);
+
+  return {
+    id,
+    geometry,
+    source,
+    name,
+    coordinates,
+    area_km2: calculateGeometryAreaKm2(geometry),
+    perimeter_km: calculateGeometryPerimeterKm(geometry),
+    center: {
+      lat: (coordinates.southwest_lat + coordinates.northeast_lat) / 2,
+      lng: (coordinates.southwest_lon + coordinates.northeast_lon) / 2,
+    },
+  };
+}
+
+/**
+ * Recompute an area after its outline was edited, keeping id, name and source
+ */
+export function updateAreaGeometry(
+  area: GeometryAreaOfInterest,
+  geometry: AOIGeometry
+): GeometryAreaOfInterest {
+  return createGeometryArea(geometry, area.source, area.name, area.id);
+}
+
+/**
+ * Named areas as a FeatureCollection, one feature per AOI
+ */
+export function areasToFeatureCollection(
+  areas: GeometryAreaOfInterest[]
+): FeatureCollection<AOIGeometry> {
+  return {
+    type: 'FeatureCollection',
+    features: areas.map((area, index): Feature<AOIGeometry> => ({
+      type: 'Feature',
+      id: area.id,
+      geometry: area.geometry,
+      properties: {
+        name: area.name || `Area ${index + 1}`,
+        source: area.source,
+        area_km2: area.area_km2,
+        perimeter_km: area.perimeter_km,
+      },
+    })),
+  };
+}
+
+/**
+ * Merge several areas into the union of their outlines, with its bounding box
+ * Overlapping areas are dissolved, so the parts of a resulting MultiPolygon
+ * never overlap. Returns null for an empty list; throws a ValidationError when
+ * an outline is too degenerate to combine
+ */
+export function combineAreas(
+  areas: GeometryAreaOfInterest[]
+): { geometry: AOIGeometry; coordinates: Coordinates } | null {
+  if (areas.length === 0) return null;
+
+  const [first, ...rest] = areas.map(area => getPolygons(area.geometry) as ClipMultiPolygon);
+  let polygons: Position[][][];
+  try {
+    polygons = polygonClipping.union(first, ...rest);
+  } catch (error) {
+    const message = 'The areas of interest could not be combined. Redraw any area whose outline is broken or crosses itself.';
+    throw new ValidationError(message, 'request', [{ path: 'areas', message }], { cause: error });
+  }
+  if (polygons.length === 0) return null;
+
+  const geometry: AOIGeometry = polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+  return { geometry, coordinates: getGeometryBounds(geometry) };
+}
+
+/**
+ * Sum of the areas in km² (overlaps are counted once per AOI)
+ */
+export function getTotalAreaKm2(areas: GeometryAreaOfInterest[]): number {
+  return areas.reduce((sum, area) => sum + (area.area_km2 || 0), 0);
+}
@@ -0,0 +1,131 @@
+import { TrackedJob } from '@/types/analysis';
+import storage from './storage';
+
+/**
+ * Persistent registry of submitted analyses, backed by localStorage
+ *
+ * Full records (area of interest, results) live in memory for this page load;
+ * each user's key only keeps what the jobs panel needs to resume watching.
+ */
+
+const JOBS_STORAGE_KEY = 'geoanalytics_jobs';
+const MAX_TRACKED_JOBS = 50;
+
+type StoredJob = Pick<
+  TrackedJob,
+  'id' | 'job_id' | 'session_id' | 'query' | 'mode' | 'interval' | 'status' | 'progress'
+  | 'message' | 'error' | 'created_at' | 'updated_at' | 'finished_at'
+>;
+
+const trackedJobs = new Map<string, TrackedJob>();
+const loadedUsers = new Set<string>();
+
+const storageKey = (userId: string): string => `${JOBS_STORAGE_KEY}_${userId}`;
+
+const toStoredJob = (job: TrackedJob): StoredJob => ({
+  id: job.id,
+  job_id: job.job_id,
+  session_id: job.session_id,
+  query: job.query,
+  mode: job.mode,
+  interval: job.interval,
+  status: job.status,
+  progress: job.progress,
+  message: job.message,
+  error: job.error,
+  created_at: job.created_at,
+  updated_at: job.updated_at,
+  finished_at: job.finished_at,
+});
+
+const loadUser = (userId: string): void => {
+  if (loadedUsers.has(userId)) return;
+  loadedUsers.add(userId);
+
+  // Older versions kept every user's full records under one shared key
+  storage.remove(JOBS_STORAGE_KEY);
+
+  storage.get<StoredJob[]>(storageKey(userId), []).forEach(job => {
+    if (!trackedJobs.has(job.id)) {
+      trackedJobs.set(job.id, { ...job, user_id: userId, restored: true });
+    }
+  });
+};
+
+const jobsOf = (userId: string): TrackedJob[] => {
+  const jobs: TrackedJob[] = [];
+  trackedJobs.forEach(job => {
+    if (job.user_id === userId) jobs.push(job);
+  });
+  // Newest first
+  return jobs.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+const saveUser = (userId: string): void => {
+  storage.set(storageKey(userId), jobsOf(userId).map(toStoredJob));
+};
+
+export function isJobActive(job: TrackedJob): boolean {
+  return job.status === 'submitting' || job.status === 'queued' || job.status === 'running';
+}
+
+export const jobRegistry = {
+  list: (userId: string): TrackedJob[] => {
+    loadUser(userId);
+    return jobsOf(userId);
+  },
+
+  get: (id: string): TrackedJob | undefined => {
+    return trackedJobs.get(id);
+  },
+
+  add: (job: Omit<TrackedJob, 'id' | 'created_at' | 'updated_at'>): TrackedJob => {
+    loadUser(job.user_id);
+
+    const now = new Date().toISOString();
+    const entry: TrackedJob = {
+      ...job,
+      id: `job_${Math.random().toString(36).substr(2, 9)}_${Date.now()}`,
+      created_at: now,
+      updated_at: now,
+    };
+    trackedJobs.set(entry.id, entry);
+
+    // Drop the oldest finished entries beyond the cap
+    jobsOf(job.user_id).forEach((tracked, index) => {
+      if (index >= MAX_TRACKED_JOBS && !isJobActive(tracked)) {
+        trackedJobs.delete(tracked.id);
+      }
+    });
+    saveUser(job.user_id);
+
+    return entry;
+  },
+
+  update: (id: string, patch: Partial<Omit<TrackedJob, 'id' | 'created_at'>>): TrackedJob | undefined => {
+    const job = trackedJobs.get(id);
+    if (!job) return undefined;
+
+    const updated: TrackedJob = { ...job, ...patch, updated_at: new Date().toISOString() };
+    trackedJobs.set(id, updated);
+    saveUser(updated.user_id);
+    return updated;
+  },
+
+  remove: (id: string): void => {
+    const job = trackedJobs.get(id);
+    if (!job) return;
+
+    trackedJobs.delete(id);
+    saveUser(job.user_id);
+  },
+
+  clearFinished: (userId: string): void => {
+    jobRegistry.list(userId).forEach(job => {
+      if (!isJobActive(job)) trackedJobs.delete(job.id);
+    });
+    saveUser(userId);
+  }
+};
+
+export default jobRegistry;
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AuthTokenResponse, AuthUser } from '@/types/auth';
+import { handleMockRequest } from './mock-backend';
+
+const BASE_URL = 'http://localhost/mock-api';
+
+interface CallOptions {
+  token?: string;
+  json?: unknown;
+  form?: Record<string, string>;
+}
+
+const call = (method: string, path: string, { token, json, form }: CallOptions = {}): Promise<Response> => {
+  const headers = new Headers();
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  let body: BodyInit | undefined;
+  if (json !== undefined) {
+    headers.set('Content-Type', 'application/json');
+    body = JSON.stringify(json);
+  } else if (form) {
+    const data = new FormData();
+    Object.keys(form).forEach(name => data.append(name, form[name]));
+    body = data;
+  }
+
+  const url = new URL(`${BASE_URL}${path}`);
+  const segments = url.pathname.slice(new URL(BASE_URL).pathname.length).split('/').filter(Boolean);
+  return handleMockRequest(new Request(url, { method, headers, body }), segments, BASE_URL);
+};
+
+// Accounts and sessions live as long as the module; every test gets new ones
+let counter = 0;
+
+const register = async (domain = 'example.org'): Promise<{ user: AuthUser; token: string }> => {
+  counter += 1;
+  const response = await call('POST', '/auth/register', {
+    json: { email: `user${counter}@${domain}`, password: 'password1' },
+  });
+  const tokens: AuthTokenResponse = await response.json();
+  return { user: tokens.user, token: tokens.access_token };
+};
+
+const analyze = async (userId: string, token?: string): Promise<string> => {
+  counter += 1;
+  const response = await call('POST', '/analyze', {
+    token,
+    form: { query: `Forest in Paris, run ${counter}`, user_id: userId, credentials_file: '{}' },
+  });
+  expect(response.status).toBe(200);
+  return (await response.json()).session_id;
+};
+
+describe('mock backend ownership', () => {
+  let owner: { user: AuthUser; token: string };
+  let other: { user: AuthUser; token: string };
+
+  beforeEach(async () => {
+    owner = await register();
+    other = await register();
+  });
+
+  it('lists an account gallery only with its token', async () => {
+    await analyze(owner.user.id, owner.token);
+    const path = `/gallery/${owner.user.id}`;
+
+    expect((await call('GET', path)).status).toBe(401);
+    expect((await call('GET', path, { token: other.token })).status).toBe(403);
+    expect((await call('GET', path, { token: owner.token })).status).toBe(200);
+  });
+
+  it('keeps anonymous ids working without a token', async () => {
+    const anonymousId = `anon_${counter}`;
+    const sessionId = await analyze(anonymousId);
+
+    const page = await (await call('GET', `/gallery/${anonymousId}`)).json();
+    expect(page.items.map((item: { session_id: string }) => item.session_id)).toEqual([sessionId]);
+  });
+
+  it('refuses analyses filed under an account id without its token', async () => {
+    const response = await call('POST', '/analyze', {
+      form: { query: 'Crops in Cairo', user_id: owner.user.id, credentials_file: '{}' },
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('ignores a claimed user_id when changing or deleting analyses', async () => {
+    const sessionId = await analyze(owner.user.id, owner.token);
+    const claimed = `?user_id=${encodeURIComponent(owner.user.id)}`;
+
+    expect((await call('PUT', `/results/${sessionId}/visibility${claimed}`, { json: { visibility: 'public' } })).status).toBe(401);
+    expect((await call('PATCH', `/results/${sessionId}/metadata${claimed}`, { token: other.token, json: { title: 'Mine' } })).status).toBe(403);
+    expect((await call('DELETE', `/results/${sessionId}${claimed}`, { token: other.token })).status).toBe(403);
+    expect((await call('DELETE', `/results/${sessionId}${claimed}`, { token: owner.token })).status).toBe(200);
+  });
+
+  it('records likes for the account of the token only', async () => {
+    const sessionId = await analyze(owner.user.id, owner.token);
+    await call('PUT', `/results/${sessionId}/visibility`, { token: owner.token, json: { visibility: 'public' } });
+
+    expect((await call('POST', `/results/${sessionId}/like?user_id=${other.user.id}`)).status).toBe(401);
+
+    const liked = await call('POST', `/results/${sessionId}/like?user_id=${owner.user.id}`, { token: other.token });
+    expect(await liked.json()).toMatchObject({ likes: 1, liked: true });
+    expect((await call('GET', `/favorites/${other.user.id}`)).status).toBe(401);
+    expect(await (await call('GET', `/favorites/${other.user.id}`, { token: other.token })).json()).toHaveLength(1);
+  });
+});
+
+describe('mock backend result access', () => {
+  const RESOURCES = ['preview', 'chart', 'map', 'download', 'metadata', 'statistics'];
+
+  const statuses = (sessionId: string, options: CallOptions = {}, query = '') =>
+    Promise.all(RESOURCES.map(async resource =>
+      (await call('GET', `/results/${sessionId}/${resource}${query}`, options)).status
+    ));
+
+  const share = (sessionId: string, token: string, visibility: string) =>
+    call('PUT', `/results/${sessionId}/visibility`, { token, json: { visibility } });
+
+  it('serves private results to their owner only', async () => {
+    const owner = await register();
+    const other = await register();
+    const sessionId = await analyze(owner.user.id, owner.token);
+
+    expect(await statuses(sessionId)).toEqual(RESOURCES.map(() => 403));
+    expect(await statuses(sessionId, { token: other.token })).toEqual(RESOURCES.map(() => 403));
+    expect(await statuses(sessionId, {}, `?user_id=${owner.user.id}`)).toEqual(RESOURCES.map(() => 401));
+    expect(await statuses(sessionId, { token: owner.token })).toEqual(RESOURCES.map(() => 200));
+  });
+
+  it('serves private results of anonymous ids to the same id', async () => {
+    const anonymousId = `anon_${counter}`;
+    const sessionId = await analyze(anonymousId);
+
+    expect(await statuses(sessionId, {}, `?user_id=${anonymousId}`)).toEqual(RESOURCES.map(() => 200));
+    expect(await statuses(sessionId, {}, `?user_id=${anonymousId}_other`)).toEqual(RESOURCES.map(() => 403));
+  });
+
+  it('serves organization results within the email domain', async () => {
+    const owner = await register('acme.test');
+    const colleague = await register('acme.test');
+    const outsider = await register('other.test');
+    const sessionId = await analyze(owner.user.id, owner.token);
+    await share(sessionId, owner.token, 'organization');
+
+    expect(await statuses(sessionId, { token: colleague.token })).toEqual(RESOURCES.map(() => 200));
+    expect(await statuses(sessionId, { token: outsider.token })).toEqual(RESOURCES.map(() => 403));
+    expect(await statuses(sessionId)).toEqual(RESOURCES.map(() => 403));
+  });
+
+  it.each(['unlisted', 'public'])('serves %s results to anyone', async (visibility) => {
+    const owner = await register();
+    const sessionId = await analyze(owner.user.id, owner.token);
+    await share(sessionId, owner.token, visibility);
+
+    expect(await statuses(sessionId)).toEqual(RESOURCES.map(() => 200));
+  });
+});
@@ -0,0 +1,890 @@
+import {
+  AnalysisMetadata,
+  AnalysisStatistics,
+  AnalysisVisibility,
+  CommunityCategory,
+  CommunityFeedPage,
+  CommunityItem,
+  EngagementStats,
+  GalleryItem,
+  GalleryPage,
+  NDVIStatistics,
+  SessionAnalysis,
+  VisibilityState,
+  isListedVisibility,
+  isOpenVisibility,
+  normalizeTag
+} from '@/types/analysis';
+import { ApiHealth, ApiInfo } from '@/types/api';
+import { AuthTokenResponse, AuthUser } from '@/types/auth';
+import { NDVI_COLORS } from './colormap';
+import { GAZETTEER } from './gazetteer';
+import { RGB, createZip, encodePng } from './mock-files';
+
+/**
+ * In-memory stand-in for the analysis backend (API v2: sessions, gallery,
+ * result files, local accounts, the community feed, likes and favorites,
+ * no jobs)
+ *
+ * Enabled with NEXT_PUBLIC_MOCK_API=true, which points the client at the
+ * /mock-api route. Everything derived from a request (session ids,
+ * statistics, images, archives) is a pure function of its inputs, so the same
+ * query always yields byte-identical fixtures. Sessions live until the dev
+ * server restarts.
+ */
+
+export const MOCK_API_ENABLED = process.env.NEXT_PUBLIC_MOCK_API === 'true';
+export const MOCK_API_PATH = '/mock-api';
+
+const MOCK_PROJECT_ID = 'mock-project';
+const MOCK_ANALYSIS_DELAY_MS = 800;
+const PREVIEW_SIZE = { width: 320, height: 240 };
+const CHART_SIZE = { width: 480, height: 240 };
+
+type BackendCoordinates = AnalysisMetadata['coordinates'];
+
+interface MockSession {
+  session: SessionAnalysis;
+  query: string;
+  statistics: AnalysisStatistics;
+  visibility: AnalysisVisibility;
+  published_at?: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  likes: Map<string, string>;   // user_id to when they liked it
+  views: number;
+  shares: number;
+}
+
+const RECENTLY_PUBLISHED_MS = 30 * 24 * 60 * 60 * 1000;
+
+const MOCK_TOKEN_TTL_S = 3600;
+
+interface MockAccount {
+  user: AuthUser;
+  password: string;
+}
+
+const sessions = new Map<string, MockSession>();
+const accounts = new Map<string, MockAccount>();
+// Access and refresh tokens, both mapped to the account email
+const accessTokens = new Map<string, string>();
+const refreshTokens = new Map<string, string>();
+let tokenCounter = 0;
+
+// ===== DETERMINISTIC HELPERS =====
+
+// FNV-1a, stable across runs and platforms
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hexToRgb = (hex: string): RGB => {
+  const int = parseInt(hex.replace('#', ''), 16);
+  return [(int >> 16) & 255, (int >> 8) & 255, int & 255];
+};
+
+const NDVI_CLASSES = [
+  { label: 'Water', color: '#2563eb' },
+  { label: 'Bare soil', color: '#a16207' },
+  { label: 'Sparse vegetation', color: '#facc15' },
+  { label: 'Moderate vegetation', color: '#84cc16' },
+  { label: 'Dense vegetation', color: '#15803d' },
+];
+
+const createClassStatistics = (random: () => number): NDVIStatistics[] => {
+  const weights = NDVI_CLASSES.map(() => 0.2 + random());
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return NDVI_CLASSES.map((item, index) => ({
+    ...item,
+    value: Math.round(weights[index] / total * 1000) / 10,
+  }));
+};
+
+const createStatistics = (sessionId: string, startYear: number, endYear: number): AnalysisStatistics => {
+  const random = createRandom(hashString(sessionId));
+  return {
+    start_year: createClassStatistics(random),
+    end_year: createClassStatistics(random),
+    start_year_num: startYear,
+    end_year_num: endYear,
+  };
+};
+
+const findLocation = (query: string): { name: string; coordinates: BackendCoordinates } => {
+  const text = query.toLowerCase();
+  const entry = GAZETTEER.find(candidate =>
+    [candidate.name, ...(candidate.aliases || [])].some(name => text.indexOf(name.toLowerCase()) !== -1)
+  ) || GAZETTEER.find(candidate => candidate.id === 'zurich')!;
+  const [south, west, north, east] = entry.bbox;
+
+  return {
+    name: entry.name,
+    coordinates: { latitude: { min: south, max: north }, longitude: { min: west, max: east } },
+  };
+};
+
+const findYears = (query: string): [number, number] => {
+  const years = (query.match(/\b(19|20)\d{2}\b/g) || []).map(Number).sort();
+  if (years.length >= 2) return [years[0], years[years.length - 1]];
+  if (years.length === 1) return [years[0] - 5, years[0]];
+  return [2019, 2024];
+};
+
+// ===== FIXTURE FILES =====
+
+/**
+ * NDVI-coloured preview: a smooth field seeded by the session id
+ */
+function createPreviewPng(sessionId: string): Uint8Array {
+  const random = createRandom(hashString(sessionId));
+  const waves = [0, 1, 2].map(() => ({
+    fx: 0.01 + random() * 0.04,
+    fy: 0.01 + random() * 0.04,
+    phase: random() * Math.PI * 2,
+  }));
+  const palette = NDVI_COLORS.map(hexToRgb);
+
+  return encodePng(PREVIEW_SIZE.width, PREVIEW_SIZE.height, (x, y) => {
+    const value = waves.reduce((sum, wave) => sum + Math.sin(x * wave.fx + y * wave.fy + wave.phase), 0) / waves.length;
+    const index = Math.min(palette.length - 1, Math.floor((value + 1) / 2 * palette.length));
+    return palette[index];
+  });
+}
+
+/**
+ * Grouped bar chart of class shares, start year left and end year right
+ */
+function createChartPng(statistics: AnalysisStatistics): Uint8Array {
+  const { width, height } = CHART_SIZE;
+  const groupWidth = width / statistics.start_year.length;
+  const barWidth = groupWidth * 0.35;
+  const maxValue = Math.max(...statistics.start_year.map(s => s.value), ...statistics.end_year.map(s => s.value), 1);
+  const background: RGB = [255, 255, 255];
+  const axis: RGB = [148, 163, 184];
+
+  return encodePng(width, height, (x, y) => {
+    if (y === height - 1) return axis;
+
+    const group = Math.floor(x / groupWidth);
+    const local = x - group * groupWidth;
+    const series = local >= groupWidth * 0.1 && local < groupWidth * 0.1 + barWidth
+      ? statistics.start_year
+      : local >= groupWidth * 0.55 && local < groupWidth * 0.55 + barWidth
+        ? statistics.end_year
+        : null;
+    const item = series?.[group];
+    if (!item) return background;
+
+    const barHeight = item.value / maxValue * (height - 20);
+    if (height - 1 - y > barHeight) return background;
+
+    const [r, g, b] = hexToRgb(item.color);
+    // Start-year bars are drawn lighter
+    return series === statistics.start_year
+      ? [Math.round(r + (255 - r) * 0.45), Math.round(g + (255 - g) * 0.45), Math.round(b + (255 - b) * 0.45)]
+      : [r, g, b];
+  });
+}
+
+// The map embeds its preview: a page opened from an object URL cannot
+// request private results relative to itself
+const toDataUrl = (data: Uint8Array, contentType: string): string => {
+  let binary = '';
+  for (let i = 0; i < data.length; i++) {
+    binary += String.fromCharCode(data[i]);
+  }
+  return `data:${contentType};base64,${btoa(binary)}`;
+};
+
+const createMapHtml = (mock: MockSession): string => {
+  const { location, start_year, end_year } = mock.session.analysis;
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>NDVI map - ${location.name}</title></head>
+<body style="font-family: sans-serif; margin: 2rem;">
+  <h1>${location.name}: NDVI ${start_year}-${end_year}</h1>
+  <p>Mock backend map for session <code>${mock.session.session_id}</code>.</p>
+  <p>Bounds: ${location.latitude.min}, ${location.longitude.min} to ${location.latitude.max}, ${location.longitude.max}</p>
+  <img src="${toDataUrl(createPreviewPng(mock.session.session_id), 'image/png')}" alt="NDVI preview" width="${PREVIEW_SIZE.width * 2}" height="${PREVIEW_SIZE.height * 2}" style="image-rendering: pixelated;">
+</body>
+</html>`;
+};
+
+const toMetadata = (mock: MockSession): AnalysisMetadata => ({
+  session_id: mock.session.session_id,
+  user_id: mock.session.user_id,
+  query: mock.query,
+  location_name: mock.session.analysis.location.name,
+  coordinates: {
+    latitude: mock.session.analysis.location.latitude,
+    longitude: mock.session.analysis.location.longitude,
+  },
+  start_year: mock.session.analysis.start_year,
+  end_year: mock.session.analysis.end_year,
+  created_at: mock.session.created_at,
+  status: mock.session.status,
+  statistics: mock.statistics,
+  visibility: mock.visibility,
+  title: mock.title,
+  description: mock.description,
+  tags: mock.tags,
+});
+
+function createDownloadZip(mock: MockSession): Uint8Array {
+  return createZip([
+    { name: 'analysis_metadata.json', data: JSON.stringify(toMetadata(mock), null, 2) },
+    { name: 'ndvi_preview.png', data: createPreviewPng(mock.session.session_id) },
+    { name: 'ndvi_charts.png', data: createChartPng(mock.statistics) },
+    { name: 'ndvi_map.html', data: createMapHtml(mock) },
+  ]);
+}
+
+// ===== REQUEST HANDLING =====
+
+const json = (body: unknown, status: number = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'X-Request-ID': `mock-${Date.now().toString(36)}` },
+  });
+
+const detail = (message: string, status: number): Response => json({ detail: message }, status);
+
+// Binary bodies go out as a copy backed by a plain ArrayBuffer
+const file = (data: Uint8Array | string, contentType: string, filename?: string): Response =>
+  new Response(typeof data === 'string' ? data : data.slice().buffer, {
+    headers: {
+      'Content-Type': contentType,
+      ...(filename ? { 'Content-Disposition': `attachment; filename="${filename}"` } : {}),
+    },
+  });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// `viewerId` is the user whose likes are reported
+const toGalleryItem = (mock: MockSession, viewerId: string | null): GalleryItem => ({
+  session_id: mock.session.session_id,
+  location_name: mock.session.analysis.location.name,
+  query: mock.query,
+  start_year: mock.session.analysis.start_year,
+  end_year: mock.session.analysis.end_year,
+  created_at: mock.session.created_at,
+  thumbnail_url: mock.session.files.preview_url,
+  map_url: mock.session.files.map_url,
+  chart_url: mock.session.files.chart_url,
+  download_url: mock.session.files.download_url,
+  visibility: mock.visibility,
+  title: mock.title,
+  description: mock.description,
+  tags: mock.tags,
+  likes: mock.likes.size,
+  views: mock.views,
+  shares: mock.shares,
+  liked: viewerId !== null && mock.likes.has(viewerId),
+});
+
+const findAccount = (userId: string): MockAccount | null => {
+  let found: MockAccount | null = null;
+  accounts.forEach(account => {
+    if (account.user.id === userId) found = account;
+  });
+  return found;
+};
+
+// Accounts belong to the organization of their email domain
+const organizationOf = (account: MockAccount | null): string | null =>
+  account ? account.user.email.split('@')[1] || null : null;
+
+// Account name, or the local part of its email; anonymous ids stay anonymous
+const authorName = (userId: string): string => {
+  const account = findAccount(userId);
+  return account ? account.user.name || account.user.email.split('@')[0] : 'Anonymous researcher';
+};
+
+// Favorites may be unlisted, so fall back to the creation date
+const toCommunityItem = (mock: MockSession, viewerId: string | null): CommunityItem => ({
+  ...toGalleryItem(mock, viewerId),
+  user_id: mock.session.user_id,
+  author: authorName(mock.session.user_id),
+  category: mock.visibility === 'organization' ? 'enterprise_repository' : 'community_research',
+  published_at: mock.published_at || mock.session.created_at,
+});
+
+// Private analyses are the owner's; organization ones are shared within the email domain
+const isVisibleTo = (mock: MockSession, userId: string): boolean => {
+  if (mock.session.user_id === userId) return true;
+  switch (mock.visibility) {
+    case 'private':
+      return false;
+    case 'organization': {
+      const organization = organizationOf(findAccount(userId));
+      return organization !== null && organization === organizationOf(findAccount(mock.session.user_id));
+    }
+    default:
+      return true;
+  }
+};
+
+const issueTokens = (account: MockAccount): AuthTokenResponse => {
+  tokenCounter += 1;
+  const suffix = `${hashString(account.user.email).toString(36)}-${tokenCounter}`;
+  const response: AuthTokenResponse = {
+    access_token: `mock-access-${suffix}`,
+    token_type: 'bearer',
+    expires_in: MOCK_TOKEN_TTL_S,
+    refresh_token: `mock-refresh-${suffix}`,
+    user: account.user,
+  };
+  accessTokens.set(response.access_token, account.user.email);
+  refreshTokens.set(response.refresh_token as string, account.user.email);
+  return response;
+};
+
+const readJsonBody = async (request: Request): Promise<Record<string, unknown>> => {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    return {};
+  }
+};
+
+// Account of the bearer token
+const authenticate = (request: Request): MockAccount | null => {
+  const header = request.headers.get('Authorization') || '';
+  const token = header.replace(/^Bearer\s+/i, '');
+  const email = accessTokens.get(token);
+  return email ? accounts.get(email) || null : null;
+};
+
+/**
+ * Who is asking: the account of the bearer token, else the anonymous id the
+ * client claims. Account ids are only taken with their token.
+ */
+const callerId = (request: Request, claimedId: string | null): string | null => {
+  const account = authenticate(request);
+  if (account) return account.user.id;
+  return claimedId && !findAccount(claimedId) ? claimedId : null;
+};
+
+// Null when the caller is `ownerId`; 401 for an account id without its token
+const requireOwner = (request: Request, ownerId: string, claimedId: string | null, message: string): Response | null => {
+  const caller = callerId(request, claimedId);
+  if (caller === ownerId) return null;
+  return caller === null && claimedId === ownerId ? detail('Not authenticated', 401) : detail(message, 403);
+};
+
+const auth = async (request: Request, action: string | undefined): Promise<Response> => {
+  if (action === 'me' && request.method === 'GET') {
+    const account = authenticate(request);
+    return account ? json(account.user) : detail('Not authenticated', 401);
+  }
+
+  if (request.method !== 'POST') {
+    return detail('Method Not Allowed', 405);
+  }
+
+  const body = await readJsonBody(request);
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  const password = typeof body.password === 'string' ? body.password : '';
+
+  switch (action) {
+    case 'register': {
+      if (!email || password.length < 8) {
+        return detail('An email and a password of at least 8 characters are required', 400);
+      }
+      if (accounts.has(email)) {
+        return detail('An account with this email already exists', 409);
+      }
+      const account: MockAccount = {
+        user: {
+          id: `user_${hashString(email).toString(36)}`,
+          email,
+          name: typeof body.name === 'string' && body.name ? body.name : undefined,
+          method: 'password',
+        },
+        password,
+      };
+      accounts.set(email, account);
+      return json(issueTokens(account), 201);
+    }
+
+    case 'login': {
+      const account = accounts.get(email);
+      if (!account || account.password !== password) {
+        return detail('Invalid email or password', 401);
+      }
+      return json(issueTokens(account));
+    }
+
+    case 'refresh': {
+      const token = typeof body.refresh_token === 'string' ? body.refresh_token : '';
+      const account = accounts.get(refreshTokens.get(token) || '');
+      if (!account) {
+        return detail('Invalid refresh token', 401);
+      }
+      refreshTokens.delete(token);
+      return json(issueTokens(account));
+    }
+
+    case 'logout': {
+      if (typeof body.refresh_token === 'string') {
+        refreshTokens.delete(body.refresh_token);
+      }
+      const token = (request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+      accessTokens.delete(token);
+      return json({ status: 'signed_out' });
+    }
+
+    case 'claim': {
+      const account = authenticate(request);
+      if (!account) {
+        return detail('Not authenticated', 401);
+      }
+      const anonymousId = typeof body.anonymous_user_id === 'string' ? body.anonymous_user_id : '';
+      let migrated = 0;
+      sessions.forEach(mock => {
+        if (anonymousId && mock.session.user_id === anonymousId) {
+          mock.session.user_id = account.user.id;
+          migrated += 1;
+        }
+      });
+      return json({ migrated });
+    }
+
+    default:
+      return detail('Not Found', 404);
+  }
+};
+
+// Search and order shared by /gallery and /community; `dateOf` is the date
+// newest and oldest go by
+const matchesSearch = (item: GalleryItem, q: string, extra: string[] = []): boolean =>
+  [item.query, item.location_name, item.title || '', item.description || '', ...(item.tags || []), ...extra]
+    .some(text => text.toLowerCase().indexOf(q) !== -1);
+
+const sortItems = <T extends GalleryItem>(items: T[], sort: string, dateOf: (item: T) => string): T[] =>
+  items.sort((a, b) => {
+    switch (sort) {
+      case 'oldest':
+        return dateOf(a).localeCompare(dateOf(b));
+      case 'popular':
+        return ((b.likes || 0) + (b.views || 0) / 10) - ((a.likes || 0) + (a.views || 0) / 10);
+      case 'title':
+        return (a.title || a.query).localeCompare(b.title || b.query);
+      case 'location':
+        return a.location_name.localeCompare(b.location_name);
+      default:
+        return dateOf(b).localeCompare(dateOf(a));
+    }
+  });
+
+const gallery = (request: Request, userId: string): Response => {
+  const denied = requireOwner(request, userId, userId, 'Only the owner can list these analyses');
+  if (denied) return denied;
+
+  const params = new URL(request.url).searchParams;
+  const limit = Math.max(1, Number(params.get('limit') || 50));
+  // The cursor is the offset of the next page
+  const offset = Math.max(0, Number(params.get('cursor') || params.get('offset') || 0));
+  const q = (params.get('q') || '').trim().toLowerCase();
+  const sort = params.get('sort') || 'newest';
+
+  let items: GalleryItem[] = [];
+  sessions.forEach(mock => {
+    if (mock.session.user_id === userId) items.push(toGalleryItem(mock, userId));
+  });
+  if (q) {
+    items = items.filter(item => matchesSearch(item, q));
+  }
+  sortItems(items, sort, item => item.created_at);
+
+  const end = offset + limit;
+  const page: GalleryPage = {
+    items: items.slice(offset, end),
+    total: items.length,
+    next_cursor: end < items.length ? String(end) : undefined
+  };
+  return json(page);
+};
+
+const community = (request: Request): Response => {
+  const params = new URL(request.url).searchParams;
+  const limit = Math.max(1, Number(params.get('limit') || 24));
+  const offset = Math.max(0, Number(params.get('offset') || 0));
+  const q = (params.get('q') || '').trim().toLowerCase();
+  const category = params.get('category') as CommunityCategory | null;
+  const sort = params.get('sort') || 'newest';
+  const recentSince = new Date(Date.now() - RECENTLY_PUBLISHED_MS).toISOString();
+
+  // Organization analyses are listed for members of the same organization only
+  const account = authenticate(request);
+  const viewerOrganization = organizationOf(account);
+  const viewerId = callerId(request, params.get('user_id'));
+  let items: CommunityItem[] = [];
+  sessions.forEach(mock => {
+    const listed = mock.visibility === 'public'
+      || (mock.visibility === 'organization' && viewerOrganization !== null
+        && organizationOf(findAccount(mock.session.user_id)) === viewerOrganization);
+    if (listed) items.push(toCommunityItem(mock, viewerId));
+  });
+
+  if (category === 'recently_published') {
+    items = items.filter(item => item.published_at >= recentSince);
+  } else if (category) {
+    items = items.filter(item => item.category === category);
+  }
+
+  if (q) {
+    items = items.filter(item => matchesSearch(item, q, [item.author]));
+  }
+  sortItems(items, sort, item => item.published_at);
+
+  const page: CommunityFeedPage = { items: items.slice(offset, offset + limit), total: items.length, limit, offset };
+  return json(page);
+};
+
+const VISIBILITY_LEVELS: AnalysisVisibility[] = ['private', 'unlisted', 'organization', 'public'];
+
+const visibility = async (request: Request, mock: MockSession): Promise<Response> => {
+  const claimedId = new URL(request.url).searchParams.get('user_id');
+  const denied = requireOwner(request, mock.session.user_id, claimedId, 'Only the owner can change who sees this analysis');
+  if (denied) return denied;
+
+  const body = await readJsonBody(request);
+  const level = body.visibility as AnalysisVisibility;
+  if (VISIBILITY_LEVELS.indexOf(level) === -1) {
+    return detail(`visibility must be one of ${VISIBILITY_LEVELS.join(', ')}`, 422);
+  }
+  if (level === 'organization' && !organizationOf(findAccount(mock.session.user_id))) {
+    return detail('Sign in with an organization account to share with your organization', 400);
+  }
+
+  if (typeof body.title === 'string' && body.title.trim()) mock.title = body.title.trim();
+  if (typeof body.description === 'string' && body.description.trim()) mock.description = body.description.trim();
+
+  mock.visibility = level;
+  if (!isListedVisibility(level)) {
+    mock.published_at = undefined;
+  } else if (!mock.published_at) {
+    mock.published_at = new Date().toISOString();
+  }
+
+  const state: VisibilityState = {
+    session_id: mock.session.session_id,
+    visibility: mock.visibility,
+    published_at: mock.published_at,
+    title: mock.title,
+    description: mock.description,
+  };
+  return json(state);
+};
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_TAGS = 10;
+
+const details = async (request: Request, mock: MockSession): Promise<Response> => {
+  const claimedId = new URL(request.url).searchParams.get('user_id');
+  const denied = requireOwner(request, mock.session.user_id, claimedId, 'Only the owner can edit this analysis');
+  if (denied) return denied;
+
+  const body = await readJsonBody(request);
+  const { title, description, tags } = body;
+  if (title !== undefined && (typeof title !== 'string' || !title.trim() || title.length > MAX_TITLE_LENGTH)) {
+    return detail(`title must be 1 to ${MAX_TITLE_LENGTH} characters`, 422);
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return detail(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`, 422);
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || tags.length > MAX_TAGS || tags.some(tag => typeof tag !== 'string'))) {
+    return detail(`tags must be a list of at most ${MAX_TAGS} strings`, 422);
+  }
+
+  if (typeof title === 'string') mock.title = title.trim();
+  if (typeof description === 'string') mock.description = description.trim() || undefined;
+  if (Array.isArray(tags)) {
+    mock.tags = (tags as string[]).map(normalizeTag).filter((tag, index, list) => tag && list.indexOf(tag) === index);
+  }
+
+  return json(toMetadata(mock));
+};
+
+const toEngagementStats = (mock: MockSession, userId: string): EngagementStats => ({
+  session_id: mock.session.session_id,
+  likes: mock.likes.size,
+  views: mock.views,
+  shares: mock.shares,
+  liked: mock.likes.has(userId),
+});
+
+const engagement = (request: Request, mock: MockSession, action: string): Response => {
+  const claimedId = new URL(request.url).searchParams.get('user_id');
+  const userId = callerId(request, claimedId);
+  if (!userId) {
+    return claimedId ? detail('Not authenticated', 401) : detail('user_id is required', 422);
+  }
+  if (!isVisibleTo(mock, userId)) {
+    return detail('This analysis is private', 403);
+  }
+
+  if (action === 'like') {
+    if (request.method === 'DELETE') {
+      mock.likes.delete(userId);
+    } else if (!mock.likes.has(userId)) {
+      mock.likes.set(userId, new Date().toISOString());
+    }
+  } else if (request.method !== 'POST') {
+    return detail('Method Not Allowed', 405);
+  } else if (action === 'view') {
+    mock.views += 1;
+  } else {
+    mock.shares += 1;
+  }
+
+  return json(toEngagementStats(mock, userId));
+};
+
+// Liked analyses the user can still open, most recently liked first
+const favorites = (request: Request, userId: string): Response => {
+  const denied = requireOwner(request, userId, userId, 'Only the owner can list their favorites');
+  if (denied) return denied;
+
+  const params = new URL(request.url).searchParams;
+  const limit = Number(params.get('limit') || 50);
+  const offset = Number(params.get('offset') || 0);
+  const liked: { likedAt: string; item: CommunityItem }[] = [];
+  sessions.forEach(mock => {
+    const likedAt = mock.likes.get(userId);
+    if (likedAt && isVisibleTo(mock, userId)) {
+      liked.push({ likedAt, item: toCommunityItem(mock, userId) });
+    }
+  });
+  liked.sort((a, b) => b.likedAt.localeCompare(a.likedAt));
+  return json(liked.slice(offset, offset + limit).map(entry => entry.item));
+};
+
+const analyze = async (request: Request, baseUrl: string): Promise<Response> => {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return detail('Expected multipart form data', 400);
+  }
+
+  const query = form.get('query');
+  const userId = form.get('user_id');
+  const missing = [
+    typeof query !== 'string' || !query.trim() ? 'query' : null,
+    !form.get('credentials_file') ? 'credentials_file' : null,
+  ].filter((field): field is string => field !== null);
+
+  if (missing.length > 0) {
+    return json({
+      detail: missing.map(field => ({ loc: ['body', field], msg: 'field required', type: 'value_error.missing' })),
+    }, 422);
+  }
+
+  const claimedId = typeof userId === 'string' && userId ? userId : null;
+  const caller = callerId(request, claimedId);
+  if (claimedId && !caller) {
+    return detail('Not authenticated', 401);
+  }
+
+  const text = query as string;
+  const owner = caller || 'default_user';
+  const [startYear, endYear] = findYears(text);
+  const location = findLocation(text);
+
+  // An explicit area of interest wins over places named in the query
+  const rawCoordinates = form.get('coordinates');
+  let coordinates = location.coordinates;
+  if (typeof rawCoordinates === 'string') {
+    try {
+      coordinates = JSON.parse(rawCoordinates) as BackendCoordinates;
+    } catch {
+      return detail('coordinates must be JSON', 400);
+    }
+  }
+
+  const sessionId = `mock_${hashString(`${owner}|${text}|${JSON.stringify(coordinates)}`).toString(16)}`;
+  const resultsUrl = `${baseUrl}/results/${sessionId}`;
+
+  const session: SessionAnalysis = {
+    session_id: sessionId,
+    user_id: owner,
+    analysis: {
+      location: {
+        name: typeof rawCoordinates === 'string' ? 'Selected area' : location.name,
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude,
+      },
+      start_year: startYear,
+      end_year: endYear,
+    },
+    files: {
+      preview_url: `${resultsUrl}/preview`,
+      map_url: `${resultsUrl}/map`,
+      chart_url: `${resultsUrl}/chart`,
+      download_url: `${resultsUrl}/download`,
+      metadata_url: `${resultsUrl}/metadata`,
+    },
+    created_at: new Date().toISOString(),
+    status: 'completed',
+  };
+
+  await sleep(MOCK_ANALYSIS_DELAY_MS);
+
+  sessions.set(sessionId, {
+    session,
+    query: text,
+    statistics: createStatistics(sessionId, startYear, endYear),
+    visibility: 'private',
+    likes: new Map(),
+    views: 0,
+    shares: 0,
+  });
+
+  return json(session);
+};
+
+const results = async (request: Request, sessionId: string, resource: string | undefined): Promise<Response> => {
+  const mock = sessions.get(sessionId);
+  if (!mock) {
+    return detail(`Analysis ${sessionId} not found`, 404);
+  }
+
+  if (request.method === 'DELETE' && !resource) {
+    const claimedId = new URL(request.url).searchParams.get('user_id');
+    const denied = requireOwner(request, mock.session.user_id, claimedId, 'Only the owner can delete this analysis');
+    if (denied) return denied;
+    sessions.delete(sessionId);
+    return json({ message: `Analysis ${sessionId} deleted` });
+  }
+
+  if (resource === 'visibility' && request.method === 'PUT') {
+    return visibility(request, mock);
+  }
+
+  if (resource === 'metadata' && request.method === 'PATCH') {
+    return details(request, mock);
+  }
+
+  if (resource === 'like' || resource === 'view' || resource === 'share') {
+    return engagement(request, mock, resource);
+  }
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return detail('Method Not Allowed', 405);
+  }
+
+  if (!isOpenVisibility(mock.visibility)) {
+    const claimedId = new URL(request.url).searchParams.get('user_id');
+    const viewer = callerId(request, claimedId);
+    if (viewer === null && claimedId && findAccount(claimedId)) {
+      return detail('Not authenticated', 401);
+    }
+    if (viewer === null || !isVisibleTo(mock, viewer)) {
+      return detail('This analysis is not shared with you', 403);
+    }
+  }
+
+  switch (resource) {
+    case 'preview':
+      return file(createPreviewPng(sessionId), 'image/png');
+    case 'chart':
+      return file(createChartPng(mock.statistics), 'image/png');
+    case 'map':
+      return file(createMapHtml(mock), 'text/html; charset=utf-8');
+    case 'download':
+      return file(createDownloadZip(mock), 'application/zip', `ndvi_analysis_${sessionId}.zip`);
+    case 'metadata':
+      return json(toMetadata(mock));
+    case 'statistics':
+      return json(mock.statistics);
+    default:
+      return detail('Not Found', 404);
+  }
+};
+
+/**
+ * Answer a request for `path` (the segments after /mock-api)
+ * `baseUrl` is the absolute /mock-api URL, used for result file links
+ */
+export async function handleMockRequest(request: Request, path: string[], baseUrl: string): Promise<Response> {
+  const [root, id, resource] = path;
+  // HEAD is answered like GET; the runtime drops the body
+  const method = request.method === 'HEAD' ? 'GET' : request.method;
+
+  if (method === 'GET' && !root) {
+    const info: ApiInfo = {
+      service: 'GeoAnalytics mock backend',
+      version: '2.0.0-mock',
+      description: 'Deterministic fixtures for offline development',
+      endpoints: {
+        health: '/health',
+        analyze: '/analyze',
+        gallery: '/gallery/{user_id}',
+        results: '/results/{session_id}/{preview|map|chart|download|metadata|statistics}',
+        delete: '/results/{session_id}',
+        visibility: '/results/{session_id}/visibility',
+        community: '/community',
+        engagement: '/results/{session_id}/{like|view|share}',
+        favorites: '/favorites/{user_id}',
+        auth: '/auth/{login|register|refresh|logout|me|claim}',
+      },
+    };
+    return json(info);
+  }
+
+  if (method === 'GET' && root === 'health') {
+    const health: ApiHealth = {
+      status: 'healthy',
+      analyzer_initialized: true,
+      gemini_model_initialized: true,
+      project_id: MOCK_PROJECT_ID,
+    };
+    return json(health);
+  }
+
+  if (root === 'auth') {
+    return auth(request, id);
+  }
+
+  if (method === 'POST' && root === 'analyze') {
+    return analyze(request, baseUrl);
+  }
+
+  if (method === 'GET' && root === 'gallery' && id) {
+    return gallery(request, id);
+  }
+
+  if (method === 'GET' && root === 'community' && !id) {
+    return community(request);
+  }
+
+  if (method === 'GET' && root === 'favorites' && id) {
+    return favorites(request, id);
+  }
+
+  if (root === 'results' && id) {
+    return results(request, id, resource);
+  }
+
+  return detail('Not Found', 404);
+}
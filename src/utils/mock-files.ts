@@ -0,0 +1,193 @@
+/**
+ * Dependency-free PNG and ZIP writers for the mock backend
+ *
+ * Data is stored uncompressed: the files are small fixtures, and skipping
+ * deflate keeps the output byte-for-byte reproducible on every platform.
+ */
+
+export type RGB = [number, number, number];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array, crc: number = 0): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const uint32BE = (value: number): Uint8Array =>
+  new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+
+export function encodeText(text: string): Uint8Array {
+  // UTF-8 without relying on TextEncoder, which older runtimes lack
+  const utf8 = unescape(encodeURIComponent(text));
+  const bytes = new Uint8Array(utf8.length);
+  for (let i = 0; i < utf8.length; i++) {
+    bytes[i] = utf8.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// zlib stream made of stored (uncompressed) deflate blocks
+const zlibStore = (data: Uint8Array): Uint8Array => {
+  const MAX_BLOCK = 65535;
+  const parts: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+
+  const blockCount = Math.max(1, Math.ceil(data.length / MAX_BLOCK));
+  for (let i = 0; i < blockCount; i++) {
+    const block = data.subarray(i * MAX_BLOCK, (i + 1) * MAX_BLOCK);
+    const isLast = i === blockCount - 1;
+    const length = block.length;
+    parts.push(new Uint8Array([isLast ? 1 : 0, length & 0xff, length >>> 8, ~length & 0xff, (~length >>> 8) & 0xff]));
+    parts.push(block);
+  }
+
+  parts.push(uint32BE(adler32(data)));
+  return concat(parts);
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeBytes = encodeText(type);
+  return concat([
+    uint32BE(data.length),
+    typeBytes,
+    data,
+    uint32BE(crc32(data, crc32(typeBytes))),
+  ]);
+};
+
+/**
+ * Encode an RGB image; `pixel` is called once per pixel, row by row
+ */
+export function encodePng(width: number, height: number, pixel: (x: number, y: number) => RGB): Uint8Array {
+  // Every scanline starts with filter type 0 (none)
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  let offset = 0;
+  for (let y = 0; y < height; y++) {
+    raw[offset++] = 0;
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      raw[offset++] = r;
+      raw[offset++] = g;
+      raw[offset++] = b;
+    }
+  }
+
+  const header = concat([
+    uint32BE(width),
+    uint32BE(height),
+    new Uint8Array([8, 2, 0, 0, 0]), // 8-bit depth, truecolour, default compression/filter, no interlace
+  ]);
+
+  return concat([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+const uint16LE = (value: number): number[] => [value & 0xff, (value >>> 8) & 0xff];
+const uint32LE = (value: number): number[] => [
+  value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff,
+];
+
+// 1980-01-01 00:00, the earliest DOS timestamp, so archives do not depend on the clock
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+/**
+ * Build a ZIP archive with stored (uncompressed) entries
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encodeText(entry.name);
+    const data = typeof entry.data === 'string' ? encodeText(entry.data) : entry.data;
+    const crc = crc32(data);
+    const common = [
+      ...uint16LE(20),              // version needed to extract
+      ...uint16LE(0x0800),          // UTF-8 file names
+      ...uint16LE(0),               // stored
+      ...uint16LE(DOS_TIME),
+      ...uint16LE(DOS_DATE),
+      ...uint32LE(crc),
+      ...uint32LE(data.length),
+      ...uint32LE(data.length),
+      ...uint16LE(name.length),
+      ...uint16LE(0),               // extra field length
+    ];
+
+    const local = concat([new Uint8Array([0x50, 0x4b, 0x03, 0x04, ...common]), name, data]);
+    centralParts.push(concat([
+      new Uint8Array([
+        0x50, 0x4b, 0x01, 0x02,
+        ...uint16LE(20),            // version made by
+        ...common,
+        ...uint16LE(0),             // comment length
+        ...uint16LE(0),             // disk number
+        ...uint16LE(0),             // internal attributes
+        ...uint32LE(0),             // external attributes
+        ...uint32LE(offset),
+      ]),
+      name,
+    ]));
+    localParts.push(local);
+    offset += local.length;
+  });
+
+  const central = concat(centralParts);
+  const end = new Uint8Array([
+    0x50, 0x4b, 0x05, 0x06,
+    ...uint16LE(0),
+    ...uint16LE(0),
+    ...uint16LE(entries.length),
+    ...uint16LE(entries.length),
+    ...uint32LE(central.length),
+    ...uint32LE(offset),
+    ...uint16LE(0),
+  ]);
+
+  return concat([...localParts, central, end]);
+}
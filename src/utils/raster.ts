@@ -0,0 +1,131 @@
+import parseGeoraster from 'georaster';
+import type { GeoRaster } from 'georaster-layer-for-leaflet';
+import { AnalysisVisibility, isOpenVisibility } from '@/types/analysis';
+import { loadResultFileData } from './api';
+
+/**
+ * GeoTIFF / Cloud Optimized GeoTIFF helpers for the result viewer
+ */
+
+const WEB_MERCATOR_RADIUS = 6378137;
+
+// Parsed rasters by URL, shared by every map showing the same layer
+const rasterCache = new Map<string, Promise<GeoRaster>>();
+
+async function fetchGeoRaster(url: string): Promise<GeoRaster> {
+  try {
+    return await parseGeoraster(url);
+  } catch (rangeError) {
+    console.warn('Range requests failed, downloading the full raster:', rangeError);
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load raster: ${response.statusText}`);
+    }
+    return parseGeoraster(await response.arrayBuffer());
+  }
+}
+
+async function fetchViewerGeoRaster(url: string): Promise<GeoRaster> {
+  return parseGeoraster(await loadResultFileData(url));
+}
+
+/**
+ * Load a GeoTIFF from a URL
+ * COGs are read lazily with range requests; servers without range support
+ * get the whole file downloaded instead. Rasters of analyses not everyone can
+ * open are downloaded whole with the viewer's session, since range requests
+ * carry no token.
+ */
+export function loadGeoRaster(url: string, visibility?: AnalysisVisibility): Promise<GeoRaster> {
+  const isOpen = isOpenVisibility(visibility);
+  const key = isOpen ? url : `viewer:${url}`;
+  let pending = rasterCache.get(key);
+  if (!pending) {
+    pending = isOpen ? fetchGeoRaster(url) : fetchViewerGeoRaster(url);
+    // Failed loads are not cached so a retry fetches again
+    pending.catch(() => rasterCache.delete(key));
+    rasterCache.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * Project WGS84 lat/lon into the raster's CRS
+ * Only geographic (EPSG:4326) and Web Mercator (EPSG:3857) rasters are supported
+ */
+function projectPoint(georaster: GeoRaster, lat: number, lng: number): { x: number; y: number } | null {
+  switch (georaster.projection) {
+    case 4326:
+      return { x: lng, y: lat };
+    case 3857:
+    case 900913:
+      return {
+        x: WEB_MERCATOR_RADIUS * lng * Math.PI / 180,
+        y: WEB_MERCATOR_RADIUS * Math.log(Math.tan(Math.PI / 4 + lat * Math.PI / 360)),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether a value is the raster's nodata marker
+ */
+export function isNoData(value: number | null | undefined, noDataValue?: number | null): boolean {
+  if (value === null || value === undefined || Number.isNaN(value)) return true;
+  return noDataValue !== null && noDataValue !== undefined && value === noDataValue;
+}
+
+/**
+ * Pixel value of a band at a WGS84 location
+ * Returns null outside the raster, on nodata or for unsupported projections
+ */
+export async function getRasterValueAt(
+  georaster: GeoRaster,
+  lat: number,
+  lng: number,
+  band: number = 0,
+  noDataValue: number | null | undefined = georaster.noDataValue
+): Promise<number | null> {
+  const point = projectPoint(georaster, lat, lng);
+  if (!point) return null;
+
+  const column = Math.floor((point.x - georaster.xmin) / georaster.pixelWidth);
+  const row = Math.floor((georaster.ymax - point.y) / georaster.pixelHeight);
+  if (column < 0 || row < 0 || column >= georaster.width || row >= georaster.height) {
+    return null;
+  }
+
+  let value: number | undefined;
+  if (georaster.values) {
+    value = georaster.values[band]?.[row]?.[column];
+  } else {
+    // URL-backed rasters read the single pixel window on demand
+    const values = await georaster.getValues({
+      left: column,
+      top: row,
+      right: column + 1,
+      bottom: row + 1,
+      width: 1,
+      height: 1,
+      resampleMethod: 'nearest',
+    });
+    value = values[band]?.[0]?.[0];
+  }
+
+  return isNoData(value, noDataValue) ? null : value as number;
+}
+
+/**
+ * Whether two rasters share projection, extent and pixel grid, so their
+ * pixels can be combined one-to-one
+ */
+export function isSameGrid(a: GeoRaster, b: GeoRaster): boolean {
+  const tolerance = Math.min(a.pixelWidth, a.pixelHeight) / 2;
+  return a.projection === b.projection
+    && a.width === b.width
+    && a.height === b.height
+    && Math.abs(a.xmin - b.xmin) < tolerance
+    && Math.abs(a.ymax - b.ymax) < tolerance;
+}
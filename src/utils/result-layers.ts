@@ -0,0 +1,46 @@
+import { ResultLayer } from '@/types/analysis';
+
+/**
+ * Result layer manifest helpers for compare mode
+ */
+
+export interface EpochLayers {
+  start: ResultLayer | null;
+  end: ResultLayer | null;
+  difference: ResultLayer | null;
+}
+
+/**
+ * Pick the start and end epoch layers and any backend difference layer
+ * Layers tagged with a year win; otherwise the first and last image layers are used
+ */
+export function getEpochLayers(layers: ResultLayer[], startYear?: number, endYear?: number): EpochLayers {
+  const imageLayers = layers.filter(layer =>
+    !layer.difference && (layer.type === 'raster' || layer.type === 'tiles')
+  );
+
+  const start = imageLayers.find(layer => startYear !== undefined && layer.year === startYear)
+    || imageLayers[0]
+    || null;
+  const end = imageLayers.find(layer => endYear !== undefined && layer.year === endYear)
+    || imageLayers[imageLayers.length - 1]
+    || null;
+
+  return {
+    start,
+    end: end && end !== start ? end : null,
+    difference: layers.find(layer => layer.difference) || null,
+  };
+}
+
+/**
+ * Whether a manifest has enough layers for compare mode
+ */
+export function canCompareLayers(layers: ResultLayer[], startYear?: number, endYear?: number): boolean {
+  const { start, end, difference } = getEpochLayers(layers, startYear, endYear);
+  return !!(start && end) || !!difference;
+}
+
+export function getEpochLabel(layer: ResultLayer): string {
+  return layer.year !== undefined ? String(layer.year) : layer.name;
+}
@@ -0,0 +1,143 @@
+/**
+ * Minimal runtime schemas for validating backend responses
+ *
+ * A schema checks an unknown value and returns it typed, recording a
+ * path-qualified issue for every field that does not match instead of
+ * stopping at the first one. Object schemas keep unknown keys, so backends
+ * can add fields without breaking older clients.
+ */
+
+export interface SchemaIssue {
+  path: string;               // e.g. "analysis.location.latitude.min" or "[3].session_id"
+  message: string;
+}
+
+export type Schema<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+/**
+ * A response did not match its schema
+ */
+export class SchemaValidationError extends Error {
+  readonly resource: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(resource: string, issues: SchemaIssue[]) {
+    const first = issues[0];
+    const summary = first ? `${first.path || 'response'}: ${first.message}` : 'invalid value';
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(`Invalid ${resource} response - ${summary}${more}`);
+    this.name = 'SchemaValidationError';
+    this.resource = resource;
+    this.issues = issues;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, SchemaValidationError.prototype);
+  }
+}
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const expected = (type: string, value: unknown, path: string, issues: SchemaIssue[]) => {
+  issues.push({ path, message: `expected ${type}, got ${describe(value)}` });
+};
+
+export const string = (): Schema<string> => (value, path, issues) => {
+  if (typeof value !== 'string') expected('string', value, path, issues);
+  return value as string;
+};
+
+export const number = (): Schema<number> => (value, path, issues) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) expected('number', value, path, issues);
+  return value as number;
+};
+
+export const boolean = (): Schema<boolean> => (value, path, issues) => {
+  if (typeof value !== 'boolean') expected('boolean', value, path, issues);
+  return value as boolean;
+};
+
+export const unknown = (): Schema<unknown> => (value) => value;
+
+export function oneOf<T extends string>(...options: T[]): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value !== 'string' || options.indexOf(value as T) === -1) {
+      issues.push({ path, message: `expected one of ${options.map(option => `"${option}"`).join(', ')}, got ${JSON.stringify(value)}` });
+    }
+    return value as T;
+  };
+}
+
+/**
+ * Accepts undefined and null (FastAPI serialises unset fields as null)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => value === undefined || value === null
+    ? undefined
+    : schema(value, path, issues);
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues) => value === null ? null : schema(value, path, issues);
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      expected('array', value, path, issues);
+      return value as T[];
+    }
+    return value.map((entry, index) => item(entry, joinPath(path, index), issues));
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      expected('object', value, path, issues);
+      return value as Record<string, T>;
+    }
+    const result: Record<string, T> = {};
+    Object.keys(value).forEach(key => {
+      result[key] = item((value as Record<string, unknown>)[key], joinPath(path, key), issues);
+    });
+    return result;
+  };
+}
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      expected('object', value, path, issues);
+      return value as T;
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...input };
+    (Object.keys(shape) as Array<keyof T & string>).forEach(key => {
+      const parsed = shape[key](input[key], joinPath(path, key), issues);
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    });
+    return result as T;
+  };
+}
+
+/**
+ * Validate a value, throwing a SchemaValidationError listing every mismatched field
+ */
+export function parse<T>(schema: Schema<T>, value: unknown, resource: string): T {
+  const issues: SchemaIssue[] = [];
+  const result = schema(value, '', issues);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(resource, issues);
+  }
+  return result;
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisVisibility } from '@/types/analysis';
+import { TEST_API_URL } from '@/test/versioned-backends';
+import { getSharedAnalysis } from './shared-analysis';
+import { handleMockRequest } from './mock-backend';
+
+const ORIGIN = 'http://localhost:3000';
+
+// The mock backend, reached where the server looks for the API
+const mockFetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+  const request = new Request(input, init);
+  const path = new URL(request.url).pathname.split('/').filter(Boolean);
+  return handleMockRequest(request, path, TEST_API_URL);
+};
+
+let counter = 0;
+
+const register = async (): Promise<string> => {
+  counter += 1;
+  const response = await mockFetch(`${TEST_API_URL}/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: `shared${counter}@example.org`, password: 'password1' }),
+  });
+  return (await response.json()).access_token;
+};
+
+const analyze = async (token: string, visibility: AnalysisVisibility): Promise<string> => {
+  const form = new FormData();
+  form.append('query', 'Forest in Paris 2020 to 2023');
+  form.append('credentials_file', '{}');
+  const headers = { Authorization: `Bearer ${token}` };
+  const session = await (await mockFetch(`${TEST_API_URL}/analyze`, { method: 'POST', headers, body: form })).json();
+
+  await mockFetch(`${TEST_API_URL}/results/${session.session_id}/visibility`, {
+    method: 'PUT',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ visibility }),
+  });
+  return session.session_id;
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('getSharedAnalysis', () => {
+  it.each(['public', 'unlisted'] as AnalysisVisibility[])('describes %s analyses', async (visibility) => {
+    vi.stubGlobal('fetch', mockFetch);
+    const sessionId = await analyze(await register(), visibility);
+
+    expect(await getSharedAnalysis(sessionId, ORIGIN)).toMatchObject({ status: 'found', metadata: { visibility } });
+  });
+
+  it.each(['private', 'organization'] as AnalysisVisibility[])('keeps %s analyses private', async (visibility) => {
+    vi.stubGlobal('fetch', mockFetch);
+    const sessionId = await analyze(await register(), visibility);
+
+    expect(await getSharedAnalysis(sessionId, ORIGIN)).toEqual({ status: 'private' });
+  });
+
+  it('keeps private analyses out of previews when the backend serves them anyway', async () => {
+    const token = await register();
+    const sessionId = await analyze(token, 'private');
+    // A backend that answers everyone, as if they were the owner
+    vi.stubGlobal('fetch', (input: RequestInfo | URL) => mockFetch(input, { headers: { Authorization: `Bearer ${token}` } }));
+
+    expect(await getSharedAnalysis(sessionId, ORIGIN)).toEqual({ status: 'private' });
+  });
+
+  it('reports unknown analyses as not found', async () => {
+    vi.stubGlobal('fetch', mockFetch);
+    expect(await getSharedAnalysis('missing', ORIGIN)).toEqual({ status: 'not_found' });
+  });
+});
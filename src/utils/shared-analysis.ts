@@ -0,0 +1,70 @@
+import { AnalysisMetadata, isOpenVisibility } from '@/types/analysis';
+import { analysisMetadataSchema } from './api-schemas';
+import { parse } from './schema';
+
+/**
+ * Server-side lookup of a shared analysis, for /analysis/[sessionId] and its
+ * OpenGraph tags
+ *
+ * Requests are made without the viewer's token, and only public and unlisted
+ * analyses are described to link previews, whatever else the backend returns. The page itself loads the
+ * analysis again in the browser, where a signed-in owner can see a private one.
+ */
+
+export type SharedAnalysisLookup =
+  | { status: 'found'; metadata: AnalysisMetadata }
+  | { status: 'not_found' | 'private' | 'unavailable' };
+
+const SHARED_LOOKUP_TIMEOUT = 5000;
+const USE_MOCK_API = process.env.NEXT_PUBLIC_MOCK_API === 'true';
+const USE_CREDENTIAL_PROXY = process.env.NEXT_PUBLIC_CREDENTIAL_PROXY === 'true';
+
+// Backend as reached from this server
+const getServerApiUrl = (origin: string): string => {
+  if (USE_MOCK_API) return `${origin}/mock-api`;
+  if (USE_CREDENTIAL_PROXY) return process.env.BACKEND_API_URL || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+  return process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+};
+
+// Backend as reached from browsers and link-preview crawlers
+const getPublicApiUrl = (origin: string): string => {
+  if (USE_MOCK_API) return `${origin}/mock-api`;
+  if (USE_CREDENTIAL_PROXY) return `${origin}/api/backend`;
+  return process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+};
+
+export function getSharedPreviewUrl(sessionId: string, origin: string): string {
+  return `${getPublicApiUrl(origin)}/results/${encodeURIComponent(sessionId)}/preview`;
+}
+
+export async function getSharedAnalysis(sessionId: string, origin: string): Promise<SharedAnalysisLookup> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SHARED_LOOKUP_TIMEOUT);
+
+  try {
+    const response = await fetch(
+      `${getServerApiUrl(origin)}/results/${encodeURIComponent(sessionId)}/metadata`,
+      { headers: { 'Accept': 'application/json' }, cache: 'no-store', signal: controller.signal }
+    );
+
+    if (response.status === 404) {
+      return { status: 'not_found' };
+    }
+    if (response.status === 401 || response.status === 403) {
+      return { status: 'private' };
+    }
+    if (!response.ok) {
+      return { status: 'unavailable' };
+    }
+
+    // Backends that do not check who reads results still get their private
+    // analyses kept out of link previews
+    const metadata = parse(analysisMetadataSchema, await response.json(), 'metadata');
+    return isOpenVisibility(metadata.visibility) ? { status: 'found', metadata } : { status: 'private' };
+  } catch (error) {
+    console.warn(`Shared analysis lookup failed for ${sessionId}:`, error);
+    return { status: 'unavailable' };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
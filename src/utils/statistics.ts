@@ -0,0 +1,75 @@
+import { AnalysisStatistics, NDVIStatistics } from '@/types/analysis';
+
+/**
+ * NDVI class statistics helpers for the statistics chart
+ */
+
+export interface ClassChange {
+  label: string;
+  color: string;
+  start: number;
+  end: number;
+  delta: number;              // end - start, in percentage points
+}
+
+/**
+ * Whether statistics carry any classes to chart
+ * Backends without statistics send empty lists rather than omitting the field
+ */
+export function hasClassStatistics(statistics?: AnalysisStatistics | null): statistics is AnalysisStatistics {
+  return !!statistics && (statistics.start_year.length > 0 || statistics.end_year.length > 0);
+}
+
+/**
+ * Classes of both epochs side by side, in start-year order
+ * A class missing from one epoch counts as 0%
+ */
+export function getClassChanges(statistics: AnalysisStatistics): ClassChange[] {
+  const labels: string[] = [];
+  const colors: Record<string, string> = {};
+  const start: Record<string, number> = {};
+  const end: Record<string, number> = {};
+
+  const collect = (items: NDVIStatistics[], target: Record<string, number>) => {
+    items.forEach(item => {
+      if (labels.indexOf(item.label) === -1) labels.push(item.label);
+      colors[item.label] = colors[item.label] || item.color;
+      target[item.label] = item.value;
+    });
+  };
+  collect(statistics.start_year, start);
+  collect(statistics.end_year, end);
+
+  return labels.map(label => ({
+    label,
+    color: colors[label] || '#64748b',
+    start: start[label] ?? 0,
+    end: end[label] ?? 0,
+    delta: (end[label] ?? 0) - (start[label] ?? 0),
+  }));
+}
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with one row per class: both epochs and the change
+ */
+export function statisticsToCsv(statistics: AnalysisStatistics): string {
+  const header = [
+    'class',
+    String(statistics.start_year_num || 'start'),
+    String(statistics.end_year_num || 'end'),
+    'change',
+  ];
+  const rows = getClassChanges(statistics).map(change => [
+    change.label,
+    change.start,
+    change.end,
+    Number(change.delta.toFixed(4)),
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
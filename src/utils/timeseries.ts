@@ -0,0 +1,139 @@
+import { NDVIPeriodStatistics, ResultLayer, TimeSeriesInterval } from '@/types/analysis';
+
+/**
+ * Trend and anomaly helpers for NDVI time series
+ */
+
+export interface LinearTrend {
+  slope: number;              // Change in mean NDVI per period
+  intercept: number;          // Fitted value at the first period
+  r2: number;
+}
+
+export interface PeriodAnomaly {
+  index: number;
+  zScore: number;             // Residual in standard deviations; negative is browner than expected
+}
+
+export const ANOMALY_THRESHOLD = 2;
+
+const PERIODS_PER_YEAR: Record<TimeSeriesInterval, number> = {
+  annual: 1,
+  seasonal: 4,
+  monthly: 12,
+};
+
+/**
+ * Least-squares line through the period means, with periods evenly spaced
+ * Returns null for fewer than two periods
+ */
+export function getLinearTrend(series: NDVIPeriodStatistics[]): LinearTrend | null {
+  const n = series.length;
+  if (n < 2) return null;
+
+  const meanX = (n - 1) / 2;
+  const meanY = series.reduce((sum, period) => sum + period.mean, 0) / n;
+
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  series.forEach((period, x) => {
+    sxy += (x - meanX) * (period.mean - meanY);
+    sxx += (x - meanX) * (x - meanX);
+    syy += (period.mean - meanY) * (period.mean - meanY);
+  });
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy),
+  };
+}
+
+export function getTrendValue(trend: LinearTrend, index: number): number {
+  return trend.intercept + trend.slope * index;
+}
+
+/**
+ * Trend slope expressed per year
+ */
+export function getSlopePerYear(trend: LinearTrend, interval: TimeSeriesInterval = 'annual'): number {
+  return trend.slope * PERIODS_PER_YEAR[interval];
+}
+
+// Season or month part of a period id ("2021-JJA" -> "JJA"); annual periods share one key
+const getCycleKey = (period: string): string => period.split('-').slice(1).join('-');
+
+/**
+ * Periods whose mean departs from the trend by more than `threshold` standard deviations
+ * Seasonal and monthly series are compared against the usual departure for the
+ * same season or month, so the normal yearly cycle is not flagged
+ */
+export function findAnomalies(
+  series: NDVIPeriodStatistics[],
+  threshold: number = ANOMALY_THRESHOLD
+): PeriodAnomaly[] {
+  const trend = getLinearTrend(series);
+  if (!trend || series.length < 3) return [];
+
+  const residuals = series.map((period, index) => period.mean - getTrendValue(trend, index));
+
+  const cycleResiduals: Record<string, number[]> = {};
+  series.forEach((period, index) => {
+    const key = getCycleKey(period.period);
+    (cycleResiduals[key] = cycleResiduals[key] || []).push(residuals[index]);
+  });
+  const cycleMeans: Record<string, number> = {};
+  Object.keys(cycleResiduals).forEach(key => {
+    const values = cycleResiduals[key];
+    cycleMeans[key] = values.reduce((sum, value) => sum + value, 0) / values.length;
+  });
+
+  const deseasonalised = series.map((period, index) =>
+    residuals[index] - cycleMeans[getCycleKey(period.period)]
+  );
+  const variance = deseasonalised.reduce((sum, value) => sum + value * value, 0) / (series.length - 1);
+  const std = Math.sqrt(variance);
+  if (std === 0) return [];
+
+  return deseasonalised
+    .map((value, index) => ({ index, zScore: value / std }))
+    .filter(anomaly => Math.abs(anomaly.zScore) >= threshold);
+}
+
+/**
+ * Map layer showing a period, by explicit layer id or the layer's `period` tag
+ */
+export function getPeriodLayer(layers: ResultLayer[], period: NDVIPeriodStatistics): ResultLayer | null {
+  return layers.find(layer => period.layer_id ? layer.id === period.layer_id : layer.period === period.period)
+    || null;
+}
+
+/**
+ * CSV with one row per period
+ */
+export function timeSeriesToCsv(series: NDVIPeriodStatistics[], anomalies: PeriodAnomaly[] = []): string {
+  const anomalyByIndex: Record<number, number> = {};
+  anomalies.forEach(anomaly => {
+    anomalyByIndex[anomaly.index] = anomaly.zScore;
+  });
+
+  const header = ['period', 'start_date', 'end_date', 'mean', 'median', 'min', 'max', 'std', 'valid_fraction', 'anomaly_z'];
+  const value = (n?: number) => n === undefined ? '' : String(Number(n.toFixed(4)));
+
+  const rows = series.map((period, index) => [
+    period.period,
+    period.start_date,
+    period.end_date,
+    value(period.mean),
+    value(period.median),
+    value(period.min),
+    value(period.max),
+    value(period.std),
+    value(period.valid_fraction),
+    value(anomalyByIndex[index]),
+  ]);
+
+  return [header, ...rows].map(row => row.join(',')).join('\n');
+}